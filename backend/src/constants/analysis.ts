@@ -37,6 +37,13 @@ export const AUDIO_ANALYSIS_THRESHOLDS = {
     NEEDS_WORK: 20,
   },
   
+  // Per-track outlier detection
+  OUTLIERS: {
+    Z_SCORE: 2.0,              // |z| at or above this flags a track
+    MIN_TRACKS: 5,             // Too few tracks for meaningful z-scores
+    MAX_SUGGESTED_REMOVALS: 10,
+  },
+  
   // Audio Feature Ranges
   FEATURE_RANGES: {
     VERY_LOW: 0.3,
@@ -55,10 +62,70 @@ export const AUDIO_ANALYSIS_THRESHOLDS = {
   },
 } as const;
 
+// Adjacent-track transition scoring (harmonic mixing, BPM and energy jumps)
+export const TRANSITION_SCORING = {
+  WEIGHTS: {
+    HARMONIC: 0.5,
+    TEMPO: 0.3,
+    ENERGY: 0.2,
+  },
+  BPM_JUMP_TOLERANCE_PERCENT: 2,  // Jumps up to this are seamless
+  BPM_JUMP_MAX_PERCENT: 20,       // Jumps beyond this score 0
+  ENERGY_JUMP_TOLERANCE: 0.1,
+  ENERGY_JUMP_MAX: 0.5,
+  WORST_TRANSITIONS: 5,
+} as const;
+
+// Playlist sequence optimizer
+export const SEQUENCE_OPTIMIZER = {
+  MAX_TRACKS: 500,            // Pairwise scoring is O(n^2)
+  LOCAL_SEARCH_MAX_TRACKS: 200, // 2-opt refinement is O(n^3) per pass
+  LOCAL_SEARCH_MAX_PASSES: 5,
+  GREEDY_STARTS: 10,          // Starting tracks tried when there is no energy arc
+  DEFAULT_ARC_WEIGHT: 0.5,    // Energy arc cost relative to transition cost
+} as const;
+
+// Release eras by year (inclusive); the last era is open-ended
+export const RELEASE_ERAS = [
+  { name: 'Vintage', from: 0, to: 1959 },
+  { name: 'Classic', from: 1960, to: 1979 },
+  { name: 'Retro', from: 1980, to: 1999 },
+  { name: 'Y2K', from: 2000, to: 2009 },
+  { name: 'Streaming Era', from: 2010, to: Infinity },
+] as const;
+
+export const ERA_ANALYSIS = {
+  NOSTALGIA_AGE_YEARS: 10, // Tracks released longer ago than this count towards the nostalgia index
+  MIN_VALID_YEAR: 1900,    // Spotify uses "0000" for unknown release dates
+} as const;
+
+export const DIVERSITY_METRICS = {
+  TARGET_EFFECTIVE_GENRES: 10, // Effective genre count that earns full genre breadth
+  ARTIST_WEIGHT: 0.5,          // Share of the variety score from artist spread (rest from genres)
+} as const;
+
+export const OBSCURITY_ANALYSIS = {
+  OBSCURE_POPULARITY: 30,      // Tracks below this popularity count as obscure
+  HISTOGRAM_BUCKET_SIZE: 10,
+  MAX_GEMS: 5,
+  MAX_FOLLOWERS_LOG10: 8,      // ~100M followers scores 0 on the follower component
+  WEIGHTS: {
+    TRACK_POPULARITY: 0.5,
+    ARTIST_POPULARITY: 0.3,
+    ARTIST_FOLLOWERS: 0.2,
+  },
+} as const;
+
+export const DUPLICATE_DETECTION = {
+  DURATION_TOLERANCE_MS: 10000, // Same title/artist within this is treated as the same recording
+  MAX_CLUSTERS_REPORTED: 50,
+} as const;
+
 export const BATCH_SIZES = {
   SPOTIFY_ARTISTS: 50,
   SPOTIFY_TRACKS: 100,
   DATABASE_INSERT: 100,
+  DATABASE_SELECT: 1000, // PostgREST's default max rows per request
   CACHE_CLEANUP: 1000,
 } as const;
 
@@ -69,6 +136,11 @@ export const CACHE_TTL = {
   USER_PROFILE: 300,      // 5 minutes
 } as const;
 
+export const AUDIO_FEATURES_CACHE = {
+  MAX_MEMORY_ENTRIES: 50000, // ~1 KB each
+  DATABASE_LOOKUP_BATCH: 100, // Track IDs per tracks-table query
+} as const;
+
 export const GENRE_WEIGHTS = {
   PRIMARY_GENRE: 1.0,
   SECONDARY_GENRE: 0.7,
@@ -85,6 +157,108 @@ export const RECOMMENDATION_LIMITS = {
   DEFAULT_RESULTS: 20,
 } as const;
 
+export const ANALYSIS_SOURCE_LIMITS = {
+  ARTIST_MAX_RELEASES: 100, // Albums + singles fetched for a discography
+  ARTIST_MAX_TRACKS: 500,
+  SAVED_TRACKS_MAX: 2000,
+} as const;
+
+// Share card images (see services/shareCards.ts)
+export const SHARE_CARD = {
+  SIZES: {
+    landscape: { width: 1200, height: 630 }, // Open Graph / X / Facebook link previews
+    square: { width: 1080, height: 1080 },   // Instagram feed
+    story: { width: 1080, height: 1920 },    // Instagram / TikTok stories
+  },
+  DEFAULT_SIZE: 'landscape',
+  MAX_GENRES: 5,
+  COVER_FETCH_TIMEOUT_MS: 3000,
+  COVER_MAX_BYTES: 2 * 1024 * 1024,
+  CACHE_MAX_AGE: 86400, // Seconds; a card only changes if its analysis or battle does
+} as const;
+
+// Public share links (see services/shareLinks.ts)
+export const SHARE_LINKS = {
+  TOKEN_BYTES: 18, // 24 URL-safe characters
+  MAX_EXPIRY_DAYS: 365,
+  PUBLIC_RATE_LIMIT: 120, // Views per IP per 15 minutes
+} as const;
+
+// Analysis diffs (GET /api/playlists/:id/analyses/diff)
+export const ANALYSIS_DIFF = {
+  MAX_LISTED_TRACKS: 500, // Added/removed tracks listed per side (counts are always complete)
+  MIN_GENRE_SHIFT: 0.5, // Percentage points; smaller genre share changes are left out
+} as const;
+
+// Watched playlists: background snapshot checks and re-analysis
+export const WATCHED_PLAYLISTS = {
+  POLL_INTERVAL_MS: 60 * 1000, // How often the scheduler looks for due watches
+  BATCH_SIZE: 5, // Watches checked per poll (one at a time)
+  DEFAULT_CHECK_INTERVAL_MINUTES: 360,
+  MIN_CHECK_INTERVAL_MINUTES: 30,
+  MAX_CHECK_INTERVAL_MINUTES: 7 * 24 * 60,
+  CLAIM_TIMEOUT_MINUTES: 30, // A check interrupted by a restart is retried after this
+  MAX_BACKOFF_MINUTES: 24 * 60,
+  MAX_CONSECUTIVE_FAILURES: 5, // Then the watch is paused
+  MAX_WATCHES_PER_USER: 25,
+} as const;
+
+// Battle compatibility (POST /api/battle): audio similarity blended with genre overlap
+export const BATTLE_COMPATIBILITY = {
+  GENRE_WEIGHT: 0.4,       // Share of the compatibility score from genre similarity (rest from audio)
+  FAMILY_WEIGHT: 0.3,      // Share of genre similarity from genre families (rest from micro-genres)
+  MAX_LISTED_GENRES: 15,   // Shared and unique genres listed per battle
+  DISTRIBUTION_GENRES: 10, // Genres in each side's distribution
+} as const;
+
+// Battle category rounds (POST /api/battle); values are on a 0-100 scale
+export const BATTLE_ROUNDS = {
+  TIE_MARGIN: 2,     // Rounds closer than this are tied
+  NARROW_MARGIN: 10, // Below this a win is "narrow"
+  CLEAR_MARGIN: 25,  // At or above this a win is "clear"
+  // Default weights for decideBy = 'weighted'
+  DEFAULT_WEIGHTS: {
+    energy: 1,
+    danceability: 1,
+    mood: 1,
+    diversity: 1.5,
+    flow: 1.5,
+    obscurity: 0.5,
+    cohesion: 1,
+  },
+} as const;
+
+// Taste compatibility between users (POST /api/compat/users)
+export const TASTE_COMPAT = {
+  RANGE_WEIGHTS: { short_term: 3, medium_term: 2, long_term: 1 }, // Same as /api/profile/taste
+  WEIGHTS: { GENRES: 0.5, ARTISTS: 0.3, TRACKS: 0.2 },
+  TOP_ITEMS_LIMIT: 50,       // Top tracks / artists per time range in a snapshot
+  SNAPSHOT_MAX_AGE_HOURS: 24, // Older snapshots are refreshed when the owner compares with a Spotify token
+  RESULT_TTL_HOURS: 24,
+  MAX_LISTED_ITEMS: 10,      // Shared and differing artists / tracks
+  MAX_GENRE_DIFFERENCES: 5,
+  MIN_GENRE_DIFFERENCE: 5,   // Percentage points
+} as const;
+
+// Bridge playlists between the two sides of a battle (POST /api/battles/:id/bridge)
+export const BRIDGE_PLAYLIST = {
+  DEFAULT_LENGTH: 30,
+  MIN_LENGTH: 5,
+  MAX_LENGTH: 100,
+  POSITION_WEIGHT: 0.5,      // Cost of a track sitting away from its slot on the path
+  SHARED_ARTIST_BONUS: 0.1,  // Cost reduction for artists both playlists feature
+  MAX_TRACKS_PER_ARTIST: 3,
+  TEMPO_RANGE: { MIN: 60, MAX: 200 }, // BPM scaled to 0-1 for distances
+} as const;
+
+// Playlist tournaments (POST /api/tournaments)
+export const TOURNAMENTS = {
+  MIN_ENTRANTS: 4,
+  MAX_ENTRANTS: 16,
+  WIN_POINTS: 1, // Round robin
+  TIE_POINTS: 0.5,
+} as const;
+
 export const DATABASE_LIMITS = {
   MAX_TRACKS_PER_PLAYLIST: 10000,
   MAX_PLAYLISTS_PER_USER: 1000,
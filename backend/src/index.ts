@@ -2,8 +2,123 @@ import express from 'express';
 import cors from 'cors';
 import SpotifyWebApi from 'spotify-web-api-node';
 import dotenv from 'dotenv';
+import { createHash } from 'crypto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { rateLimitUnauthenticated } from './middleware/rateLimiter';
+import { rateLimit, rateLimitUnauthenticated } from './middleware/rateLimiter';
+import { ErrorCodes, PaginationMeta, createPaginationMeta } from './types/api';
+import { SCORING_VERSION, ScoreBreakdown, scorePlaylist } from './services/scoring';
+import { classifyPersonality } from './services/personality';
+import {
+  ANALYSIS_SOURCE_LIMITS,
+  AUDIO_FEATURES_CACHE,
+  BATCH_SIZES,
+  BRIDGE_PLAYLIST,
+  DATABASE_LIMITS,
+  DUPLICATE_DETECTION,
+  RECOMMENDATION_LIMITS,
+  SEQUENCE_OPTIMIZER,
+  SHARE_CARD,
+  SHARE_LINKS,
+  TASTE_COMPAT,
+  TOURNAMENTS,
+  WATCHED_PLAYLISTS,
+} from './constants/analysis';
+import { normalizeArtist, songKey, toTrackUri } from './utils/trackIdentity';
+import { AnalysisJob, AnalysisJobStore } from './services/analysisJobs';
+import { OutlierInputTrack, detectOutliers } from './services/outliers';
+import { analyzeTransitions, toCamelot } from './services/transitions';
+import { ENERGY_ARCS, EnergyArc, arcFitScore, optimizeSequence, planReorderMoves } from './services/sequenceOptimizer';
+import {
+  MERGE_ORDER_MODES,
+  MergeOrderMode,
+  MergeTrack,
+  dedupeMergeTracks,
+  orderMergeTracks,
+} from './services/playlistMerge';
+import { DuplicateInputTrack, detectDuplicates, planDuplicateRemoval } from './services/duplicates';
+import { EraBreakdown, analyzeEras } from './services/eras';
+import { ObscurityInputTrack, ObscurityProfile, analyzeObscurity } from './services/obscurity';
+import {
+  AudioAverages,
+  CompatibilityBreakdown,
+  audioCompatibility,
+  averageAudioFeatures,
+  battleCompatibility,
+  genreDistribution,
+  genreOverlap,
+} from './services/battle';
+import {
+  BATTLE_DECISION_MODES,
+  BattleDecisionMode,
+  BattleRoundSide,
+  cohesionScore,
+  parseRoundWeights,
+  scoreBattleRounds,
+} from './services/battleRounds';
+import {
+  MatchJudge,
+  TOURNAMENT_FORMATS,
+  TournamentFormat,
+  TournamentRound,
+  runElimination,
+  runRoundRobin,
+  seedByScore,
+} from './services/tournament';
+import { DiversityInputTrack, DiversityProfile, analyzeDiversity } from './services/diversity';
+import { AnalysisSnapshot, DiffableAnalysis, diffAnalyses, summarizeAnalysisDiff } from './services/analysisDiff';
+import {
+  TASTE_TIME_RANGES,
+  TasteCompatibility,
+  TasteSnapshot,
+  TasteTimeRange,
+  buildTasteSnapshot,
+  compareTastes,
+  isEmptyTasteSnapshot,
+} from './services/tasteCompat';
+import { BridgeCandidate, BridgeSource, bridgeMidpoint, planBridge } from './services/bridge';
+import { PlaylistWatchScheduler, WatchedPlaylist, nextCheckTime, parseCheckInterval, watchFromRow } from './services/playlistWatcher';
+import {
+  AnalysisCardData,
+  BattleCardData,
+  BattleCardSide,
+  CardAudioDna,
+  ShareCardFormat,
+  ShareCardSize,
+  parseCardFormat,
+  parseCardSize,
+  rasterizeCard,
+  renderAnalysisCard,
+  renderBattleCard,
+} from './services/shareCards';
+import {
+  SHARE_RESOURCE_TYPES,
+  ShareLinkRow,
+  ShareResourceType,
+  formatShareLink,
+  generateShareToken,
+  isShareToken,
+  parseShareExpiry,
+  sanitizeSharedAnalysis,
+  sanitizeSharedBattle,
+  shareLinkStatus,
+} from './services/shareLinks';
+import {
+  AudioFeatures,
+  AudioFeaturesCache,
+  AudioFeaturesProvider,
+  AudioFeaturesRequest,
+  CachedAudioFeaturesProvider,
+  LocalAudioFeaturesProvider,
+  SpotifyAudioFeaturesProvider,
+} from './services/audioFeatures';
+import {
+  classifyGenre,
+  genreDisplayName,
+  genreKey,
+  genreKeySet,
+  summarizeGenres,
+  weightedGenreTotals,
+} from './services/genreTaxonomy';
 
 dotenv.config();
 
@@ -98,6 +213,7 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Spotify-Token'],
+  exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page', 'X-Total-Pages', 'X-Has-More', 'X-Has-Previous'],
   maxAge: 86400, // 24 hours
 }));
 app.use(express.json());
@@ -231,35 +347,56 @@ function createSpotifyApi(userToken: string): SpotifyWebApi {
  * Handle Spotify API errors
  */
 function handleSpotifyError(error: SpotifyError | unknown, res: express.Response) {
+  const { status, body } = describeSpotifyError(error);
+  return res.status(status).json(body);
+}
+
+/**
+ * Map a Spotify API error to an HTTP status and error body
+ * Shared by handleSpotifyError and background jobs, which have no response to write to
+ */
+function describeSpotifyError(error: SpotifyError | unknown): { status: number; body: { error: string; code: string; requiresReconnect?: boolean } } {
   const spotifyError = error as SpotifyError;
   
   if (spotifyError.statusCode === 401) {
-    return res.status(401).json({
-      error: 'Spotify token expired or invalid. Please reconnect your account.',
-      code: 'TOKEN_EXPIRED',
-      requiresReconnect: true
-    });
+    return {
+      status: 401,
+      body: {
+        error: 'Spotify token expired or invalid. Please reconnect your account.',
+        code: 'TOKEN_EXPIRED',
+        requiresReconnect: true
+      }
+    };
   }
   
   if (spotifyError.statusCode === 403) {
-    return res.status(403).json({
-      error: 'Insufficient permissions. Please reconnect with required scopes.',
-      code: 'INSUFFICIENT_PERMISSIONS'
-    });
+    return {
+      status: 403,
+      body: {
+        error: 'Insufficient permissions. Please reconnect with required scopes.',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      }
+    };
   }
   
   if (spotifyError.statusCode === 404) {
-    return res.status(404).json({
-      error: 'Playlist not found or not accessible.',
-      code: 'NOT_FOUND'
-    });
+    return {
+      status: 404,
+      body: {
+        error: 'Playlist not found or not accessible.',
+        code: 'NOT_FOUND'
+      }
+    };
   }
   
   // Other errors
-  return res.status(spotifyError.statusCode || 500).json({
-    error: spotifyError.message || 'Spotify API error',
-    code: 'SPOTIFY_ERROR'
-  });
+  return {
+    status: spotifyError.statusCode || 500,
+    body: {
+      error: spotifyError.message || 'Spotify API error',
+      code: 'SPOTIFY_ERROR'
+    }
+  };
 }
 
 /**
@@ -289,6 +426,205 @@ function extractSpotifyId(url: string): string | null {
   return null;
 }
 
+// ============================================================================
+// SPOTIFY HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch every item of a playlist (handles pagination)
+ * onPage is called after each page with the number of items fetched so far and the total
+ * Returns raw playlist track items ({ track, added_at, ... })
+ */
+async function fetchAllPlaylistTracks(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  onPage?: (fetched: number, total: number) => void
+): Promise<any[]> {
+  const allTracks: any[] = [];
+  let offset = 0;
+  const limit = BATCH_SIZES.SPOTIFY_TRACKS;
+
+  while (true) {
+    const tracksResponse = await spotifyApi.getPlaylistTracks(playlistId, { limit, offset });
+    const tracks = tracksResponse.body.items;
+    if (!tracks || tracks.length === 0) break;
+    allTracks.push(...tracks);
+    onPage?.(allTracks.length, tracksResponse.body.total);
+    offset += limit;
+    if (tracks.length < limit || allTracks.length >= tracksResponse.body.total) break;
+  }
+  return allTracks;
+}
+
+// Measured audio features shared across requests: memory first, then the tracks table
+const audioFeaturesCache = new AudioFeaturesCache(
+  supabase
+    ? {
+        async load(trackIds, maxAgeSeconds) {
+          const stored = new Map<string, AudioFeatures>();
+          const cutoff = new Date(Date.now() - maxAgeSeconds * 1000).toISOString();
+          for (let i = 0; i < trackIds.length; i += AUDIO_FEATURES_CACHE.DATABASE_LOOKUP_BATCH) {
+            const { data, error } = await supabase!
+              .from('tracks')
+              .select('spotify_id, audio_features')
+              .in('spotify_id', trackIds.slice(i, i + AUDIO_FEATURES_CACHE.DATABASE_LOOKUP_BATCH))
+              .not('audio_features', 'is', null)
+              .gte('created_at', cutoff);
+            if (error) throw error;
+            (data || []).forEach((row: any) => {
+              stored.set(row.spotify_id, { ...row.audio_features, id: row.spotify_id });
+            });
+          }
+          return stored;
+        },
+      }
+    : null
+);
+
+/**
+ * Audio features provider for a request: cache, then Spotify, then genre-based estimates
+ */
+function createAudioFeaturesProvider(spotifyApi: SpotifyWebApi): AudioFeaturesProvider {
+  return new CachedAudioFeaturesProvider(audioFeaturesCache, [
+    new SpotifyAudioFeaturesProvider(spotifyApi),
+    new LocalAudioFeaturesProvider(),
+  ]);
+}
+
+/**
+ * Fetch audio features keyed by track ID through the cached provider
+ * Pass artist genres with each request so tracks Spotify has no data for can be estimated
+ */
+async function fetchAudioFeaturesMap(
+  spotifyApi: SpotifyWebApi,
+  requests: AudioFeaturesRequest[]
+): Promise<Map<string, AudioFeatures>> {
+  return createAudioFeaturesProvider(spotifyApi).getFeatures(requests);
+}
+
+/**
+ * Audio features requests for playlist items, with the genres of each track's artists
+ */
+function toAudioFeaturesRequests(items: any[], genresByArtist: Map<string, string[]>): AudioFeaturesRequest[] {
+  return items
+    .map((item: any) => item.track)
+    .filter((track: any) => typeof track?.id === 'string' && track.id.length > 0)
+    .map((track: any) => ({
+      id: track.id,
+      genres: (track.artists || []).map((artist: any) => genresByArtist.get(artist.id) || []),
+      durationMs: track.duration_ms,
+    }));
+}
+
+/**
+ * Fetch full artist objects keyed by artist ID (Spotify allows up to 50 per request)
+ * Failed batches are skipped so callers can continue with partial artist data
+ */
+async function fetchArtistsMap(spotifyApi: SpotifyWebApi, artistIds: string[]): Promise<Map<string, any>> {
+  const artistsMap = new Map<string, any>();
+  for (let i = 0; i < artistIds.length; i += BATCH_SIZES.SPOTIFY_ARTISTS) {
+    const batch = artistIds.slice(i, i + BATCH_SIZES.SPOTIFY_ARTISTS);
+    try {
+      const response = await spotifyApi.getArtists(batch);
+      (response.body.artists || []).forEach((artist: any) => {
+        if (artist?.id) artistsMap.set(artist.id, artist);
+      });
+    } catch (err) {
+      // If artist lookup fails, continue with the artists fetched so far
+      console.warn('Failed to fetch some artists:', err);
+    }
+  }
+  return artistsMap;
+}
+
+/**
+ * Audio features for Spotify track objects, with their artists' genres looked up first
+ * so the local fallback can estimate tracks Spotify has no features for
+ */
+async function fetchTrackAudioFeatures(spotifyApi: SpotifyWebApi, tracks: any[]): Promise<Map<string, AudioFeatures>> {
+  const artistIds = new Set<string>(
+    tracks.flatMap((track: any) => (track?.artists || []).map((a: any) => a.id)).filter(Boolean)
+  );
+  const artists = await fetchArtistsMap(spotifyApi, Array.from(artistIds));
+  const genres = new Map<string, string[]>();
+  artists.forEach((artist, artistId) => {
+    if (Array.isArray(artist.genres)) genres.set(artistId, artist.genres);
+  });
+  return fetchAudioFeaturesMap(spotifyApi, toAudioFeaturesRequests(tracks.map(track => ({ track })), genres));
+}
+
+/**
+ * Add tracks to a playlist in batches of 100 (Spotify's per-request maximum)
+ * Accepts track URIs, IDs or URLs; invalid entries are skipped
+ * Returns the number of tracks added
+ */
+async function addTracksToPlaylistInBatches(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  tracks: string[]
+): Promise<number> {
+  const trackUris = tracks
+    .map(toTrackUri)
+    .filter((uri): uri is string => typeof uri === 'string');
+
+  for (let i = 0; i < trackUris.length; i += BATCH_SIZES.SPOTIFY_TRACKS) {
+    await spotifyApi.addTracksToPlaylist(playlistId, trackUris.slice(i, i + BATCH_SIZES.SPOTIFY_TRACKS));
+  }
+  return trackUris.length;
+}
+
+/**
+ * Map playlist items to duplicate-detection input, keeping their playlist positions
+ * Local files and removed tracks are skipped (they cannot be matched or removed by URI)
+ */
+function toDuplicateInputTracks(items: any[]): DuplicateInputTrack[] {
+  return items
+    .map((item: any, position: number) => ({ track: item?.track, local: Boolean(item?.is_local), position }))
+    .filter(({ track, local }) => !local && track?.id && track?.uri)
+    .map(({ track, position }) => ({
+      id: track.id,
+      uri: track.uri,
+      name: track.name || 'Unknown',
+      artist: track.artists?.[0]?.name || 'Unknown',
+      isrc: track.external_ids?.isrc || null,
+      durationMs: track.duration_ms || 0,
+      popularity: track.popularity || 0,
+      position,
+    }));
+}
+
+/**
+ * Diversity input for a track: primary artist plus the genre list of each of its artists
+ */
+function toDiversityInputTrack(track: any, genresByArtist: Map<string, string[]>): DiversityInputTrack {
+  const primary = track.artists?.[0];
+  return {
+    artistKey: primary?.id || normalizeArtist(primary?.name || ''),
+    artistName: primary?.name || 'Unknown',
+    artistGenres: (track.artists || []).map((a: any) => genresByArtist.get(a.id) || []),
+  };
+}
+
+/**
+ * Map playlist items to obscurity input using their primary artist's popularity and followers
+ */
+function toObscurityInputTracks(items: any[], artistsById: Map<string, any>): ObscurityInputTrack[] {
+  return items
+    .map((item: any) => item?.track)
+    .filter((t: any) => t && t.id)
+    .map((t: any) => {
+      const artist = artistsById.get(t.artists?.[0]?.id);
+      return {
+        id: t.id,
+        name: t.name || 'Unknown',
+        artist: t.artists?.[0]?.name || 'Unknown',
+        popularity: typeof t.popularity === 'number' ? t.popularity : null,
+        artistPopularity: typeof artist?.popularity === 'number' ? artist.popularity : null,
+        artistFollowers: typeof artist?.followers?.total === 'number' ? artist.followers.total : null,
+      };
+    });
+}
+
 // ============================================================================
 // DATABASE HELPER FUNCTIONS
 // ============================================================================
@@ -359,7 +695,8 @@ async function savePlaylistToDatabase(
   owner: string,
   coverUrl: string | null,
   trackCount: number,
-  platform: string = 'spotify'
+  platform: string = 'spotify',
+  sourceType: string = 'playlist'
 ): Promise<string | null> {
   if (!supabase) {
     console.warn('Supabase not configured, skipping playlist save');
@@ -407,6 +744,7 @@ async function savePlaylistToDatabase(
           cover_url: coverUrl,
           track_count: trackCount,
           platform,
+          source_type: sourceType,
           analyzed_at: new Date().toISOString(),
         })
         .select('id')
@@ -492,10 +830,13 @@ async function saveAnalysisToDatabase(
     healthStatus: string;
     overallRating: number;
     ratingDescription: string;
+    scoringVersion?: string;
+    scoreBreakdown?: ScoreBreakdown;
     audioDna: any;
     genreDistribution: any[];
     subgenres: string[];
     topTracks: any[];
+    eraBreakdown?: EraBreakdown;
   }
 ): Promise<string | null> {
   if (!supabase) {
@@ -515,10 +856,15 @@ async function saveAnalysisToDatabase(
         health_status: analysisData.healthStatus,
         overall_rating: analysisData.overallRating,
         rating_description: analysisData.ratingDescription,
+        scoring_version: analysisData.scoringVersion || SCORING_VERSION,
+        score_breakdown: analysisData.scoreBreakdown || null,
         audio_dna: analysisData.audioDna,
         genre_distribution: analysisData.genreDistribution,
         subgenres: analysisData.subgenres,
         top_tracks: analysisData.topTracks,
+        era_breakdown: analysisData.eraBreakdown || null,
+        median_release_year: analysisData.eraBreakdown?.medianReleaseYear ?? null,
+        nostalgia_index: analysisData.eraBreakdown?.nostalgiaIndex ?? null,
       })
       .select('id')
       .single();
@@ -534,6 +880,46 @@ async function saveAnalysisToDatabase(
   }
 }
 
+/**
+ * Save the playlist's track list at the time of an analysis (used by analysis diffs)
+ * Failures are logged only: the analysis itself is already saved
+ */
+async function saveAnalysisSnapshot(
+  analysisId: string,
+  userId: string,
+  playlistId: string,
+  spotifySnapshotId: string | null,
+  tracks: any[]
+): Promise<void> {
+  if (!supabase) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('analysis_snapshots')
+      .insert({
+        analysis_id: analysisId,
+        user_id: userId,
+        playlist_id: playlistId,
+        spotify_snapshot_id: spotifySnapshotId,
+        track_ids: tracks.map((t: any) => t.id),
+        tracks: tracks.map((t: any) => ({
+          id: t.id,
+          name: t.name || 'Unknown',
+          artists: (t.artists || []).map((a: any) => a.name),
+        })),
+        track_count: tracks.length,
+      });
+
+    if (error) {
+      console.error('Error saving analysis snapshot:', error);
+    }
+  } catch (error) {
+    console.error('Error saving analysis snapshot to database:', error);
+  }
+}
+
 /**
  * Save battle result to database
  */
@@ -543,6 +929,7 @@ async function saveBattleToDatabase(
   playlist2Id: string,
   battleData: {
     compatibilityScore: number;
+    compatibilityBreakdown?: CompatibilityBreakdown;
     winner: string;
     winnerReason?: string;
     sharedArtists: string[];
@@ -578,6 +965,7 @@ async function saveBattleToDatabase(
         playlist1_id: playlist1Id,
         playlist2_id: playlist2Id,
         compatibility_score: battleData.compatibilityScore,
+        compatibility_breakdown: battleData.compatibilityBreakdown || null,
         winner: battleData.winner,
         winner_reason: winnerReason,
         shared_artists: battleData.sharedArtists,
@@ -601,6 +989,171 @@ async function saveBattleToDatabase(
   }
 }
 
+/**
+ * Fetch one of a user's analyses with its playlist row attached as `playlist`
+ * The playlist is read separately: schema.sql declares the analyses -> playlists
+ * foreign key twice, which makes PostgREST embedding ambiguous
+ */
+async function fetchAnalysisWithPlaylist(
+  analysisId: string,
+  userId: string,
+  columns: string = '*',
+  playlistColumns: string = '*'
+): Promise<any | null> {
+  if (!supabase) return null;
+
+  const { data: analysis, error } = await supabase
+    .from('analyses')
+    .select(columns === '*' ? '*' : `playlist_id, ${columns}`)
+    .eq('id', analysisId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!analysis) return null;
+
+  const row: any = analysis;
+  let playlist: any = null;
+  if (row.playlist_id) {
+    const { data, error: playlistError } = await supabase
+      .from('playlists')
+      .select(playlistColumns)
+      .eq('id', row.playlist_id)
+      .maybeSingle();
+    if (playlistError) throw playlistError;
+    playlist = data;
+  }
+  return { ...row, playlist };
+}
+
+const HISTORY_TYPES = ['analysis', 'battle'];
+
+/**
+ * Validate optional from/to query dates (ISO 8601)
+ * A date-only `to` (YYYY-MM-DD) covers that whole day
+ */
+function parseDateRange(
+  fromValue: unknown,
+  toValue: unknown
+): { from: string | null; to: string | null } | { error: string } {
+  const parse = (value: unknown, endOfDay: boolean): string | null | undefined => {
+    if (value === undefined || value === '') return null;
+    if (typeof value !== 'string') return undefined;
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(dateOnly && endOfDay ? `${value}T23:59:59.999Z` : value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  const from = parse(fromValue, false);
+  const to = parse(toValue, true);
+  if (from === undefined) return { error: 'from must be an ISO 8601 date' };
+  if (to === undefined) return { error: 'to must be an ISO 8601 date' };
+  if (from && to && from > to) return { error: 'from must not be after to' };
+  return { from, to };
+}
+
+/**
+ * Shared handler for DELETE /api/analyses/:id and DELETE /api/battles/:id
+ */
+async function deleteHistoryItem(
+  table: 'analyses' | 'battles',
+  label: string,
+  req: SupabaseRequest,
+  res: express.Response
+) {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    const { data: deleted, error: dbError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from(table)
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId)
+          .select('id')
+      : { data: [], error: null };
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: `Failed to delete ${label.toLowerCase()}`,
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({
+        error: `${label} not found`,
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    res.json({ success: true, message: `${label} deleted successfully` });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error(`Delete ${label.toLowerCase()} endpoint error:`, err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+}
+
+const DIFFABLE_ANALYSIS_COLUMNS = 'id, created_at, health_score, overall_rating, personality_type, audio_dna, genre_distribution';
+
+/**
+ * Stored track-list snapshots of analyses, keyed by analysis ID
+ */
+async function fetchAnalysisSnapshots(analysisIds: string[]): Promise<Map<string, AnalysisSnapshot>> {
+  const snapshots = new Map<string, AnalysisSnapshot>();
+  if (!supabase || analysisIds.length === 0) return snapshots;
+
+  const { data, error } = await supabase
+    .from('analysis_snapshots')
+    .select('analysis_id, spotify_snapshot_id, track_ids, tracks')
+    .in('analysis_id', analysisIds);
+  if (error) throw error;
+
+  (data || []).forEach((row: any) => {
+    snapshots.set(row.analysis_id, {
+      spotifySnapshotId: row.spotify_snapshot_id,
+      trackIds: row.track_ids || [],
+      tracks: row.tracks || [],
+    });
+  });
+  return snapshots;
+}
+
+/**
+ * Analysis row (DIFFABLE_ANALYSIS_COLUMNS) in the shape used by diffAnalyses
+ */
+function toDiffableAnalysis(row: any, snapshot: AnalysisSnapshot | undefined): DiffableAnalysis {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    healthScore: row.health_score,
+    overallRating: row.overall_rating === null ? null : Number(row.overall_rating),
+    personalityType: row.personality_type,
+    audioDna: row.audio_dna,
+    genreDistribution: row.genre_distribution || [],
+    snapshot: snapshot || null,
+  };
+}
+
 // ============================================================================
 // SPOTIFY OAUTH ENDPOINTS
 // ============================================================================
@@ -629,6 +1182,7 @@ app.get('/api/spotify/authorize', (req, res) => {
       'playlist-read-private',
       'playlist-read-collaborative',
       'user-library-read',
+      'user-library-modify',
       'user-top-read',
       'user-read-recently-played',
       'playlist-modify-public',
@@ -1194,533 +1748,1056 @@ app.post('/api/auth/signin', async (req, res) => {
 });
 
 // ============================================================================
-// API ENDPOINTS
+// ANALYSIS PIPELINE
 // ============================================================================
 
+type AnalysisSourceType = 'playlist' | 'album' | 'artist' | 'saved_tracks';
+
+interface AnalysisSource {
+  type: AnalysisSourceType;
+  id: string | null; // null for the user's saved tracks
+}
+
+interface AnalysisSourceData extends AnalysisSource {
+  url: string;
+  name: string;
+  owner: string;
+  coverUrl: string | null;
+  snapshotId: string | null;
+  items: any[]; // Playlist-style items: { track, added_at }
+}
+
+interface AnalysisOutput {
+  result: any;
+  trackIds: string[];
+  tracks: any[];
+  audioFeaturesMap: Map<string, AudioFeatures>;
+}
+
+type AnalysisProgressCallback = (stage: string, percent: number) => void;
+
 /**
- * POST /api/analyze
- * Analyze a Spotify playlist
- * Rate limited: 20 requests per 15 minutes for unauthenticated users
+ * Error raised by the analysis pipeline for invalid input or unusable sources
  */
-app.post('/api/analyze', 
-  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many analysis requests. Please sign in for unlimited access or try again in 15 minutes.' }),
-  extractSpotifyToken, 
-  async (req: SpotifyRequest, res) => {
-  try {
-    const { url } = req.body as { url?: string };
-    const userToken = req.spotifyToken;
-    
-    // Validate token exists
-    if (!userToken) {
-      return res.status(401).json({ 
-        error: 'Spotify token required. Please connect your Spotify account.',
-        code: 'TOKEN_REQUIRED'
-      });
+class AnalysisError extends Error {
+  statusCode: number;
+  code: string;
+
+  constructor(message: string, code: string = ErrorCodes.VALIDATION_ERROR, statusCode: number = 400) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+const SAVED_TRACKS_ALIASES = ['saved', 'saved_tracks', 'liked', 'liked_songs', 'liked-songs'];
+
+/**
+ * Detect which Spotify resource a URL, URI or keyword points to
+ * Supports playlist, album and artist URLs/URIs, plus the user's saved tracks via
+ * https://open.spotify.com/collection/tracks, spotify:collection:tracks or the keyword "saved"/"liked"
+ * Track links throw an AnalysisError so the client can show a clear message
+ */
+function detectAnalysisSource(input: string): AnalysisSource | null {
+  if (!input || typeof input !== 'string') {
+    return null;
+  }
+
+  const value = input.trim();
+
+  if (
+    SAVED_TRACKS_ALIASES.includes(value.toLowerCase()) ||
+    /collection\/tracks/.test(value) ||
+    /^spotify:(user:[^:]+:)?collection(:tracks)?$/.test(value)
+  ) {
+    return { type: 'saved_tracks', id: null };
+  }
+
+  const match = value.match(/(?:open\.spotify\.com\/(?:intl-[a-z-]+\/)?|spotify:)(playlist|album|artist|track)[/:]([a-zA-Z0-9]+)/);
+  if (!match) {
+    return null;
+  }
+
+  if (match[1] === 'track') {
+    throw new AnalysisError(
+      'Single tracks cannot be analyzed. Use a playlist, album, artist or your Liked Songs.',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  return { type: match[1] as AnalysisSourceType, id: match[2] };
+}
+
+/**
+ * Fetch full track objects (album, popularity, external IDs) for simplified tracks
+ * getTracks accepts at most 50 IDs per request
+ */
+async function fetchFullTracks(spotifyApi: SpotifyWebApi, trackIds: string[]): Promise<any[]> {
+  const tracks: any[] = [];
+  for (let i = 0; i < trackIds.length; i += 50) {
+    const response = await spotifyApi.getTracks(trackIds.slice(i, i + 50));
+    tracks.push(...(response.body.tracks || []).filter((t: any) => t && t.id));
+  }
+  return tracks;
+}
+
+/**
+ * Load the tracks and display metadata for any supported analysis source
+ * Track fetching reports progress as the 'fetching_tracks' stage (5-25%)
+ */
+async function fetchAnalysisSource(
+  spotifyApi: SpotifyWebApi,
+  source: AnalysisSource,
+  url: string,
+  onProgress?: AnalysisProgressCallback
+): Promise<AnalysisSourceData> {
+  const reportFetched = (fetched: number, total: number) =>
+    onProgress?.('fetching_tracks', 5 + (total > 0 ? Math.min(1, fetched / total) * 20 : 0));
+
+  reportFetched(0, 0);
+
+  if (source.type === 'playlist') {
+    const playlist = await spotifyApi.getPlaylist(source.id!);
+    const items = await fetchAllPlaylistTracks(spotifyApi, source.id!, reportFetched);
+    return {
+      ...source,
+      url,
+      name: playlist.body.name,
+      owner: playlist.body.owner?.display_name || 'Unknown',
+      coverUrl: playlist.body.images?.[0]?.url || null,
+      snapshotId: playlist.body.snapshot_id || null,
+      items,
+    };
+  }
+
+  if (source.type === 'album') {
+    const album = await spotifyApi.getAlbum(source.id!);
+    const trackIds: string[] = (album.body.tracks?.items || []).map((t: any) => t.id);
+
+    // Albums with more than 50 tracks are paginated
+    let offset = trackIds.length;
+    while (offset < (album.body.tracks?.total || 0)) {
+      const page = await spotifyApi.getAlbumTracks(source.id!, { limit: 50, offset });
+      const ids = (page.body.items || []).map((t: any) => t.id);
+      if (ids.length === 0) break;
+      trackIds.push(...ids);
+      offset += ids.length;
     }
-    
-    if (!url) {
-      return res.status(400).json({ 
-        error: 'Playlist URL is required' 
+
+    const tracks = await fetchFullTracks(spotifyApi, trackIds.filter(Boolean));
+    return {
+      ...source,
+      url,
+      name: album.body.name,
+      owner: (album.body.artists || []).map((a: any) => a.name).join(', ') || 'Unknown',
+      coverUrl: album.body.images?.[0]?.url || null,
+      snapshotId: null,
+      items: tracks.map(track => ({ track, added_at: album.body.release_date || null })),
+    };
+  }
+
+  if (source.type === 'artist') {
+    const artist = await spotifyApi.getArtist(source.id!);
+
+    // Albums and singles, newest first as returned by Spotify
+    const albumIds: string[] = [];
+    let offset = 0;
+    while (albumIds.length < ANALYSIS_SOURCE_LIMITS.ARTIST_MAX_RELEASES) {
+      const response = await spotifyApi.getArtistAlbums(source.id!, {
+        include_groups: 'album,single',
+        limit: 50,
+        offset,
       });
+      const items = response.body.items || [];
+      if (items.length === 0) break;
+      albumIds.push(...items.map((a: any) => a.id));
+      offset += items.length;
+      if (items.length < 50) break;
     }
-    
-    // Extract playlist ID
-    const playlistId = extractSpotifyId(url);
-    if (!playlistId) {
-      return res.status(400).json({ 
-        error: 'Invalid Spotify playlist URL' 
-      });
+
+    // getAlbums accepts at most 20 IDs per request
+    const releases: any[] = [];
+    const selectedAlbumIds = albumIds.slice(0, ANALYSIS_SOURCE_LIMITS.ARTIST_MAX_RELEASES);
+    for (let i = 0; i < selectedAlbumIds.length; i += 20) {
+      const response = await spotifyApi.getAlbums(selectedAlbumIds.slice(i, i + 20));
+      releases.push(...(response.body.albums || []).filter(Boolean));
+      reportFetched(i + 20, selectedAlbumIds.length * 2);
     }
-    
-    // Create Spotify API with user token
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Fetch playlist data
-    const playlist = await spotifyApi.getPlaylist(playlistId);
-    
-    // Fetch all tracks (handle pagination)
-    const allTracks: any[] = [];
-    let offset = 0;
-    const limit = 100;
-    
-    while (true) {
-      const tracksResponse = await spotifyApi.getPlaylistTracks(playlistId, {
-        limit,
-        offset
+
+    // Keep the artist's own tracks, skipping the same song on several releases
+    // (album track items carry no ISRC; tracks whose title doesn't normalize to a key are kept by ID)
+    const seenSongs = new Set<string>();
+    const trackIds = new Set<string>();
+    releases.forEach((release: any) => {
+      (release.tracks?.items || []).forEach((t: any) => {
+        if (!t?.id || trackIds.has(t.id) || !(t.artists || []).some((a: any) => a.id === source.id)) return;
+        const key = songKey(t.name, t.artists?.[0]);
+        if (key) {
+          if (seenSongs.has(key)) return;
+          seenSongs.add(key);
+        }
+        trackIds.add(t.id);
       });
-      
-      const tracks = tracksResponse.body.items;
-      if (!tracks || tracks.length === 0) break;
-      
-      allTracks.push(...tracks);
-      offset += limit;
-      
-      if (tracks.length < limit || allTracks.length >= tracksResponse.body.total) break;
-    }
-    
-    // Extract track IDs (filter out null tracks)
-    const trackIds = allTracks
-      .map(item => item.track?.id)
-      .filter((id): id is string => typeof id === 'string' && id.length > 0);
-    
-    if (trackIds.length === 0) {
-      return res.status(400).json({ 
-        error: 'No valid tracks found in playlist' 
+    });
+
+    const tracks = await fetchFullTracks(
+      spotifyApi,
+      Array.from(trackIds).slice(0, ANALYSIS_SOURCE_LIMITS.ARTIST_MAX_TRACKS)
+    );
+    return {
+      ...source,
+      url,
+      name: `${artist.body.name} Discography`,
+      owner: artist.body.name,
+      coverUrl: artist.body.images?.[0]?.url || null,
+      snapshotId: null,
+      items: tracks.map(track => ({ track, added_at: track.album?.release_date || null })),
+    };
+  }
+
+  // Saved tracks ("Liked Songs")
+  const me = await spotifyApi.getMe();
+  const items: any[] = [];
+  let offset = 0;
+  while (items.length < ANALYSIS_SOURCE_LIMITS.SAVED_TRACKS_MAX) {
+    const response = await spotifyApi.getMySavedTracks({ limit: 50, offset });
+    const page = response.body.items || [];
+    if (page.length === 0) break;
+    items.push(...page);
+    offset += page.length;
+    reportFetched(items.length, Math.min(response.body.total, ANALYSIS_SOURCE_LIMITS.SAVED_TRACKS_MAX));
+    if (page.length < 50) break;
+  }
+
+  return {
+    ...source,
+    url: 'spotify:collection:tracks',
+    name: 'Liked Songs',
+    owner: me.body.display_name || 'You',
+    coverUrl: null,
+    snapshotId: null,
+    items: items.slice(0, ANALYSIS_SOURCE_LIMITS.SAVED_TRACKS_MAX),
+  };
+}
+
+/**
+ * Run the Audio DNA, personality, genre and health pipeline on a loaded source
+ * onProgress is called with a stage name and 0-100 completion percentage
+ */
+async function runAnalysisPipeline(
+  spotifyApi: SpotifyWebApi,
+  source: AnalysisSourceData,
+  onProgress?: AnalysisProgressCallback
+): Promise<AnalysisOutput> {
+  const allTracks = source.items;
+
+  // Extract track IDs (filter out null tracks)
+  const trackIds = allTracks
+    .map(item => item.track?.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+  if (trackIds.length === 0) {
+    throw new AnalysisError('No valid tracks found in playlist');
+  }
+
+  onProgress?.('artist_genres', 30);
+
+  // Collect unique artist IDs
+  const artistIds = new Set<string>();
+  allTracks.forEach((item: any) => {
+    const track = item.track;
+    if (track?.artists) {
+      track.artists.forEach((artist: any) => {
+        if (artist.id) artistIds.add(artist.id);
       });
     }
-    
-    // Get audio features for all tracks (Spotify allows up to 100 at a time)
-    const audioFeaturesList: any[] = [];
-    for (let i = 0; i < trackIds.length; i += 100) {
-      const batch = trackIds.slice(i, i + 100);
-      const featuresResponse = await spotifyApi.getAudioFeaturesForTracks(batch);
-      if (featuresResponse.body.audio_features) {
-        audioFeaturesList.push(...featuresResponse.body.audio_features.filter((f: any) => f !== null));
-      }
+  });
+
+  // Fetch artist details to get genres, popularity and followers
+  // (fetched first so genres can stand in for missing audio features)
+  const artistsById = await fetchArtistsMap(spotifyApi, Array.from(artistIds));
+  const genresByArtist = new Map<string, string[]>();
+
+  artistsById.forEach((artist, artistId) => {
+    if (artist.genres && Array.isArray(artist.genres)) {
+      genresByArtist.set(artistId, artist.genres);
     }
-    
-    if (audioFeaturesList.length === 0) {
-      return res.status(400).json({ 
-        error: 'Could not fetch audio features for tracks' 
-      });
+  });
+
+  onProgress?.('audio_features', 60);
+
+  // Get audio features for all tracks (cache, Spotify, then genre-based estimates)
+  const audioFeaturesMap = await fetchAudioFeaturesMap(
+    spotifyApi,
+    toAudioFeaturesRequests(allTracks, genresByArtist)
+  );
+  const audioFeaturesList: AudioFeatures[] = trackIds
+    .map(id => audioFeaturesMap.get(id))
+    .filter((f): f is AudioFeatures => f !== undefined);
+
+  if (audioFeaturesList.length === 0) {
+    throw new AnalysisError('Could not fetch audio features for tracks');
+  }
+  const estimatedFeatureCount = audioFeaturesList.filter(f => f.estimated).length;
+
+  // Calculate Audio DNA averages first (needed for personality and genre fallback)
+  const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
+  const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
+  const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
+  const avgAcousticness = audioFeaturesList.reduce((sum, f) => sum + (f.acousticness || 0), 0) / audioFeaturesList.length;
+  const avgInstrumentalness = audioFeaturesList.reduce((sum, f) => sum + (f.instrumentalness || 0), 0) / audioFeaturesList.length;
+  const avgTempo = audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length;
+
+  // Audio DNA (converted to 0-100 scale)
+  const audioDna = {
+    energy: Math.round(avgEnergy * 100),
+    danceability: Math.round(avgDanceability * 100),
+    valence: Math.round(avgValence * 100),
+    acousticness: Math.round(avgAcousticness * 100),
+    instrumentalness: Math.round(avgInstrumentalness * 100),
+    // Normalize tempo to 0-100 scale (assuming 60-200 BPM range)
+    tempo: Math.min(100, Math.max(0, Math.round(((avgTempo - 60) / 140) * 100))),
+  };
+
+  onProgress?.('scoring', 85);
+
+  // Weighted genre totals over every artist appearance (GENRE_WEIGHTS by genre rank)
+  const trackArtistGenres: string[][] = allTracks.flatMap((item: any) =>
+    (item.track?.artists || []).map((artist: any) => genresByArtist.get(artist.id) || [])
+  );
+  const genreSummary = summarizeGenres(weightedGenreTotals(trackArtistGenres));
+
+  // If no genres found, use simplified distribution based on audio features
+  let genreDistribution: { name: string; value: number }[];
+  if (genreSummary.genres.length === 0) {
+    // Fallback: estimate genres from audio features (return percentages)
+    genreDistribution = [];
+    if (avgDanceability > 0.6 && avgEnergy > 0.6) {
+      genreDistribution.push({ name: 'Pop', value: 40 }); // 40%
     }
-    
-    // Calculate Audio DNA averages first (needed for personality and genre fallback)
-    const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
-    const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
-    const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
-    const avgAcousticness = audioFeaturesList.reduce((sum, f) => sum + (f.acousticness || 0), 0) / audioFeaturesList.length;
-    const avgInstrumentalness = audioFeaturesList.reduce((sum, f) => sum + (f.instrumentalness || 0), 0) / audioFeaturesList.length;
-    const avgTempo = audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length;
-    
-    // Audio DNA (converted to 0-100 scale)
-    const audioDna = {
-      energy: Math.round(avgEnergy * 100),
-      danceability: Math.round(avgDanceability * 100),
-      valence: Math.round(avgValence * 100),
-      acousticness: Math.round(avgAcousticness * 100),
-      instrumentalness: Math.round(avgInstrumentalness * 100),
-      // Normalize tempo to 0-100 scale (assuming 60-200 BPM range)
-      tempo: Math.min(100, Math.max(0, Math.round(((avgTempo - 60) / 140) * 100))),
-    };
-    
-    // Determine Personality
-    let personalityType = 'Trend-Aware';
-    let personalityDescription = 'You have your finger on the pulse. Your playlist keeps the energy high and the vibes current.';
-    
-    if (avgInstrumentalness > 0.3 || (avgEnergy > 0.8 && avgDanceability < 0.4)) {
-      personalityType = 'The Experimentalist';
-      personalityDescription = 'You explore the outer edges of sound. Conventions don\'t bind you; you seek textures and atmospheres over catchy hooks.';
-    } else if (avgAcousticness > 0.5 || avgValence < 0.3 || avgValence > 0.8) {
-      personalityType = 'Mood-Driven';
-      personalityDescription = 'Music is an emotional amplifier for you. You curate soundscapes that perfectly match or alter your internal state.';
-    } else if (avgEnergy > 0.4 && avgAcousticness > 0.3) {
-      personalityType = 'The Eclectic';
-      personalityDescription = 'Why choose one lane? You cruise through genres with ease, finding the common thread between folk, pop, and rock.';
-    }
-    
-    // Calculate Genre Distribution from actual artist data
-    const genreMap: { [key: string]: number } = {};
-    const artistIds = new Set<string>();
-    
-    // Collect unique artist IDs
-    allTracks.forEach((item: any) => {
-      const track = item.track;
-      if (track?.artists) {
-        track.artists.forEach((artist: any) => {
-          if (artist.id) artistIds.add(artist.id);
-        });
-      }
-    });
-    
-    // Fetch artist details to get genres (batch in groups of 50)
-    const artistIdArray = Array.from(artistIds);
-    const artistGenres: string[] = [];
-    
-    for (let i = 0; i < artistIdArray.length; i += 50) {
-      const batch = artistIdArray.slice(i, i + 50);
-      try {
-        const artistsResponse = await spotifyApi.getArtists(batch);
-        if (artistsResponse.body.artists) {
-          artistsResponse.body.artists.forEach((artist: any) => {
-            if (artist.genres && Array.isArray(artist.genres)) {
-              artistGenres.push(...artist.genres);
-            }
-          });
-        }
-      } catch (err) {
-        // If artist lookup fails, continue with simplified approach
-        console.warn('Failed to fetch some artist genres:', err);
-      }
+    if (avgEnergy > 0.7 && avgAcousticness < 0.3) {
+      genreDistribution.push({ name: 'Electronic', value: 30 }); // 30%
     }
-    
-    // Count genre occurrences
-    artistGenres.forEach(genre => {
-      // Normalize genre names (capitalize first letter)
-      const normalized = genre.split(' ').map(word => 
-        word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-      ).join(' ');
-      genreMap[normalized] = (genreMap[normalized] || 0) + 1;
-    });
-    
-    // If no genres found, use simplified distribution based on audio features
-    let genreDistribution: { name: string; value: number }[];
-    if (Object.keys(genreMap).length === 0) {
-      // Fallback: estimate genres from audio features (return percentages)
-      genreDistribution = [];
-      if (avgDanceability > 0.6 && avgEnergy > 0.6) {
-        genreDistribution.push({ name: 'Pop', value: 40 }); // 40%
-      }
-      if (avgEnergy > 0.7 && avgAcousticness < 0.3) {
-        genreDistribution.push({ name: 'Electronic', value: 30 }); // 30%
-      }
-      if (avgAcousticness > 0.4) {
-        genreDistribution.push({ name: 'Acoustic', value: 30 }); // 30%
-      }
-      if (avgEnergy > 0.5 && avgDanceability < 0.5) {
-        genreDistribution.push({ name: 'Rock', value: 30 }); // 30%
-      }
-      
-      // Ensure we have at least some distribution
-      if (genreDistribution.length === 0) {
-        genreDistribution = [
-          { name: 'Pop', value: 30 }, // 30%
-          { name: 'Rock', value: 25 }, // 25%
-          { name: 'Electronic', value: 20 }, // 20%
-        ];
-      }
-    } else {
-      // Convert genre map to array and sort by count
-      // Calculate percentages based on total track count
-      const totalTracks = trackIds.length;
-      if (totalTracks > 0) {
-        genreDistribution = Object.entries(genreMap)
-          .map(([name, count]) => ({ 
-            name, 
-            value: Math.round((count / totalTracks) * 100) // Convert to percentage
-          }))
-          .sort((a, b) => b.value - a.value)
-          .slice(0, 10); // Top 10 genres
-      } else {
-        genreDistribution = [];
-      }
+    if (avgAcousticness > 0.4) {
+      genreDistribution.push({ name: 'Acoustic', value: 30 }); // 30%
     }
-    
-    // Extract subgenres (genres that appear less frequently)
-    let subgenres: string[] = [];
-    if (Object.keys(genreMap).length > 0) {
-      const maxValue = Math.max(...Object.values(genreMap) as number[]);
-      subgenres = Object.entries(genreMap)
-        .filter(([name, value]) => (value as number) < maxValue * 0.5)
-        .sort((a, b) => (b[1] as number) - (a[1] as number))
-        .slice(0, 6)
-        .map(([name]) => name);
+    if (avgEnergy > 0.5 && avgDanceability < 0.5) {
+      genreDistribution.push({ name: 'Rock', value: 30 }); // 30%
     }
-    
-    // Calculate Health Score
-    const energyStdDev = Math.sqrt(
-      audioFeaturesList.reduce((sum, f) => {
-        const diff = (f.energy || 0) - avgEnergy;
-        return sum + diff * diff;
-      }, 0) / audioFeaturesList.length
-    );
-    
-    const flowScore = energyStdDev < 0.2 ? 100 : Math.max(0, 100 - ((energyStdDev - 0.2) * 200));
-    const varietyScore = trackIds.length > 0 
-      ? Math.min(100, (genreDistribution.length / trackIds.length) * 500)
-      : 0;
-    const engagementScore = avgDanceability * 100;
-    const healthScore = Math.round((flowScore * 0.4) + (varietyScore * 0.3) + (engagementScore * 0.3));
-    
-    let healthStatus = 'Needs Work';
-    if (healthScore >= 90) healthStatus = 'Exceptional';
-    else if (healthScore >= 75) healthStatus = 'Great';
-    else if (healthScore >= 60) healthStatus = 'Good';
-    else if (healthScore >= 40) healthStatus = 'Average';
-    
-    // Calculate Overall Rating
-    let overallRating = healthScore / 20.0;
-    if (trackIds.length < 10) overallRating *= 0.9;
-    if (trackIds.length > 500) overallRating *= 0.95;
-    overallRating = Math.max(1.0, Math.min(5.0, overallRating));
-    
-    let ratingDescription = 'Solid collection.';
-    if (overallRating >= 4.8) ratingDescription = 'Masterpiece curation.';
-    else if (overallRating >= 4.5) ratingDescription = 'Highly curated selection.';
-    else if (overallRating >= 4.0) ratingDescription = 'Well balanced mix.';
-    else if (overallRating >= 3.0) ratingDescription = 'Good potential.';
-    
-    // Get Top Tracks (first 5 tracks with album art)
-    const topTracks = allTracks.slice(0, 5).map((item: any) => {
-      const track = item.track;
+
+    // Ensure we have at least some distribution
+    if (genreDistribution.length === 0) {
+      genreDistribution = [
+        { name: 'Pop', value: 30 }, // 30%
+        { name: 'Rock', value: 25 }, // 25%
+        { name: 'Electronic', value: 20 }, // 20%
+      ];
+    }
+  } else {
+    // Weighted share of tracks per genre, as a percentage of the track count
+    const totalTracks = trackIds.length;
+    genreDistribution = genreSummary.genres
+      .slice(0, 10) // Top 10 genres
+      .map(genre => ({
+        name: genre.name,
+        value: Math.min(100, Math.round((genre.weight / totalTracks) * 100)),
+      }));
+  }
+
+  // Extract subgenres (genres that appear less frequently)
+  let subgenres: string[] = [];
+  if (genreSummary.genres.length > 0) {
+    const maxWeight = genreSummary.genres[0].weight;
+    subgenres = genreSummary.genres
+      .filter(genre => genre.weight < maxWeight * 0.5)
+      .slice(0, 6)
+      .map(genre => genre.name);
+  }
+
+  // Determine Personality (audio profile plus weighted genre diversity)
+  const energyStdDev = Math.sqrt(
+    audioFeaturesList.reduce((sum, f) => sum + ((f.energy || 0) - avgEnergy) ** 2, 0) / audioFeaturesList.length
+  );
+  const personality = classifyPersonality({
+    averages: {
+      energy: avgEnergy,
+      danceability: avgDanceability,
+      valence: avgValence,
+      acousticness: avgAcousticness,
+      instrumentalness: avgInstrumentalness,
+      tempo: avgTempo,
+    },
+    energyStdDev,
+    artistGenres: trackArtistGenres,
+  });
+  const personalityType = personality.primary.type;
+  const personalityDescription = personality.primary.description;
+
+  // Tracks in playlist order with their features, artists and artist genres
+  const analyzedTracks: (OutlierInputTrack & DiversityInputTrack)[] = allTracks
+    .map((item: any) => item.track)
+    .filter((t: any) => t && t.id)
+    .map((t: any) => {
+      const diversityInput = toDiversityInputTrack(t, genresByArtist);
       return {
-        name: track?.name || 'Unknown',
-        artist: track?.artists?.[0]?.name || 'Unknown',
-        albumArt: track?.album?.images?.[0]?.url || null,
+        id: t.id,
+        name: t.name,
+        artist: t.artists?.[0]?.name || 'Unknown',
+        features: audioFeaturesMap.get(t.id) || null,
+        genres: Array.from(new Set<string>(diversityInput.artistGenres.flat())),
+        ...diversityInput,
       };
     });
-    
-    // Build complete analysis result
-    const analysisResult = {
-      playlistName: playlist.body.name,
-      owner: playlist.body.owner?.display_name || 'Unknown',
-      coverUrl: playlist.body.images?.[0]?.url,
-      trackCount: trackIds.length,
-      audioDna,
-      personalityType,
-      personalityDescription,
-      genreDistribution,
-      subgenres,
-      healthScore,
-      healthStatus,
-      overallRating: Math.round(overallRating * 10) / 10,
-      ratingDescription,
-      topTracks,
+
+  // Artist and genre spread (entropy, Gini, top-artist share)
+  const diversity = analyzeDiversity(analyzedTracks);
+
+  // Calculate Health Score and Overall Rating (shared, versioned scoring model)
+  const scoreBreakdown = scorePlaylist({
+    features: audioFeaturesList,
+    diversity,
+    trackCount: trackIds.length,
+  });
+  const { healthScore, healthStatus, overallRating, ratingDescription } = scoreBreakdown;
+
+  // Per-track outliers, with removal suggestions scored by the same health formula
+  const outliers = detectOutliers(analyzedTracks, (remaining) => {
+    const features = remaining.map(t => t.features).filter((f): f is NonNullable<typeof f> => f !== null);
+    return features.length > 0
+      ? scorePlaylist({ features, diversity: analyzeDiversity(remaining), trackCount: remaining.length }).healthScore
+      : 0;
+  });
+
+  // Key, tempo and energy changes between consecutive tracks
+  const transitions = analyzeTransitions(analyzedTracks);
+
+  // Same song under different track IDs (remasters, single/album releases, live cuts)
+  const duplicateReport = detectDuplicates(toDuplicateInputTracks(allTracks));
+  const duplicates = {
+    ...duplicateReport,
+    clusters: duplicateReport.clusters.slice(0, DUPLICATE_DETECTION.MAX_CLUSTERS_REPORTED),
+  };
+
+  // Release decades and eras from album release dates
+  const eras = analyzeEras(
+    allTracks
+      .map((item: any) => item.track)
+      .filter((t: any) => t && t.id)
+      .map((t: any) => ({
+        id: t.id,
+        name: t.name,
+        artist: t.artists?.[0]?.name || 'Unknown',
+        releaseDate: t.album?.release_date || null,
+      }))
+  );
+
+  // Mainstream vs. underground, from track and artist popularity
+  const obscurity = analyzeObscurity(toObscurityInputTracks(allTracks, artistsById));
+
+  // Get Top Tracks (first 5 tracks with album art)
+  const topTracks = allTracks.slice(0, 5).map((item: any) => {
+    const track = item.track;
+    return {
+      name: track?.name || 'Unknown',
+      artist: track?.artists?.[0]?.name || 'Unknown',
+      albumArt: track?.album?.images?.[0]?.url || null,
     };
-    
-    // Save to database if user is authenticated
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ') && supabase) {
+  });
+
+  // Build complete analysis result
+  const result = {
+    sourceType: source.type,
+    sourceId: source.id,
+    playlistName: source.name,
+    owner: source.owner,
+    coverUrl: source.coverUrl,
+    trackCount: trackIds.length,
+    audioDna,
+    // Tracks whose features were estimated from genres rather than measured
+    featureSources: {
+      measured: audioFeaturesList.length - estimatedFeatureCount,
+      estimated: estimatedFeatureCount,
+    },
+    personalityType,
+    personalityDescription,
+    personality,
+    genreDistribution,
+    subgenres,
+    genreFamilies: genreSummary.families,
+    parentGenres: genreSummary.parents.slice(0, 10),
+    diversity,
+    healthScore,
+    healthStatus,
+    overallRating,
+    ratingDescription,
+    scoringVersion: scoreBreakdown.version,
+    scoreBreakdown,
+    topTracks,
+    outliers,
+    transitions,
+    duplicates,
+    eras,
+    obscurity,
+  };
+
+  const tracks = allTracks
+    .map((item: any) => item.track)
+    .filter((t: any) => t && t.id);
+
+  return { result, trackIds, tracks, audioFeaturesMap };
+}
+
+/**
+ * Resolve the Supabase user from an optional Authorization header
+ * Returns null for guests or invalid tokens (guest analyses are not persisted)
+ */
+async function resolveOptionalUser(req: express.Request) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ') || !supabase) {
+    return null;
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return user || null;
+}
+
+/**
+ * Persist an analysis (source as playlist row, its tracks and the analysis result)
+ * Returns the analysis ID, or null if nothing was saved
+ */
+async function persistAnalysis(
+  user: { id: string; email?: string; user_metadata?: { display_name?: string } },
+  source: AnalysisSourceData,
+  output: AnalysisOutput
+): Promise<string | null> {
+  const { result, trackIds, tracks, audioFeaturesMap } = output;
+
+  // Ensure user profile exists
+  await ensureUserProfile(user.id, user.email, user.user_metadata?.display_name);
+
+  // Save source as a playlist row
+  const dbPlaylistId = await savePlaylistToDatabase(
+    user.id,
+    source.id || source.type,
+    source.url,
+    source.name,
+    source.owner,
+    source.coverUrl,
+    trackIds.length,
+    'spotify',
+    source.type
+  );
+
+  if (!dbPlaylistId) {
+    return null;
+  }
+
+  const tracksForDb = tracks.map((t: any) => ({
+    id: t.id,
+    name: t.name,
+    artists: (t.artists || []).map((a: any) => a.name),
+    album: t.album?.name,
+    albumArt: t.album?.images?.[0]?.url,
+    duration_ms: t.duration_ms,
+    popularity: t.popularity,
+  }));
+
+  await saveTracksToDatabase(dbPlaylistId, tracksForDb, audioFeaturesMap);
+
+  const analysisId = await saveAnalysisToDatabase(user.id, dbPlaylistId, {
+    personalityType: result.personalityType,
+    personalityDescription: result.personalityDescription,
+    healthScore: result.healthScore,
+    healthStatus: result.healthStatus,
+    overallRating: result.overallRating,
+    ratingDescription: result.ratingDescription,
+    scoringVersion: result.scoringVersion,
+    scoreBreakdown: result.scoreBreakdown,
+    audioDna: result.audioDna,
+    genreDistribution: result.genreDistribution,
+    subgenres: result.subgenres,
+    topTracks: result.topTracks,
+    eraBreakdown: result.eras,
+  });
+
+  if (analysisId) {
+    await saveAnalysisSnapshot(analysisId, user.id, dbPlaylistId, source.snapshotId, tracks);
+  }
+  return analysisId;
+}
+
+/**
+ * Map an AnalysisError or Spotify error to an HTTP status and error body
+ */
+function describeAnalysisError(error: unknown): { status: number; body: { error: string; code: string } } {
+  if (error instanceof AnalysisError) {
+    return {
+      status: error.statusCode,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  return describeSpotifyError(error);
+}
+
+/**
+ * Respond with an AnalysisError, or fall back to Spotify error handling
+ */
+function handleAnalysisError(error: unknown, res: express.Response) {
+  const { status, body } = describeAnalysisError(error);
+  return res.status(status).json(body);
+}
+
+// Background analysis jobs, mirrored to the analysis_jobs table when Supabase is configured
+const analysisJobStore = new AnalysisJobStore(supabase ? {
+  async save(job) {
+    const { error } = await supabase!
+      .from('analysis_jobs')
+      .upsert({
+        id: job.id,
+        user_id: job.userId,
+        source_url: job.sourceUrl,
+        source_type: job.sourceType,
+        status: job.status,
+        stage: job.stage,
+        percent: job.percent,
+        result: job.result,
+        error: job.error,
+        analysis_id: job.analysisId,
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+        completed_at: job.completedAt,
+      });
+    if (error) throw error;
+  },
+  async load(id) {
+    const { data, error } = await supabase!
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    return {
+      id: data.id,
+      userId: data.user_id,
+      sourceUrl: data.source_url,
+      sourceType: data.source_type,
+      status: data.status,
+      stage: data.stage,
+      percent: data.percent,
+      result: data.result,
+      error: data.error,
+      analysisId: data.analysis_id,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      completedAt: data.completed_at,
+    };
+  },
+} : null);
+
+/**
+ * Run an analysis job in the background: fetch, analyze, persist
+ * Progress is pushed to the job store; errors mark the job as failed
+ */
+async function runAnalysisJob(
+  jobId: string,
+  spotifyApi: SpotifyWebApi,
+  source: AnalysisSource,
+  url: string,
+  user: Awaited<ReturnType<typeof resolveOptionalUser>>
+): Promise<void> {
+  const onProgress: AnalysisProgressCallback = (stage, percent) => {
+    analysisJobStore.update(jobId, { status: 'running', stage, percent });
+  };
+
+  try {
+    const sourceData = await fetchAnalysisSource(spotifyApi, source, url, onProgress);
+    const output = await runAnalysisPipeline(spotifyApi, sourceData, onProgress);
+
+    let analysisId: string | null = null;
+    if (user) {
+      onProgress('saving', 95);
       try {
-        const token = authHeader.replace('Bearer ', '');
-        const { data: { user } } = await supabase.auth.getUser(token);
-        
-        if (user) {
-          // Ensure user profile exists
-          await ensureUserProfile(user.id, user.email, user.user_metadata?.display_name);
-          
-          // Save playlist
-          const dbPlaylistId = await savePlaylistToDatabase(
-            user.id,
-            playlistId,
-            url,
-            playlist.body.name,
-            playlist.body.owner?.display_name || 'Unknown',
-            playlist.body.images?.[0]?.url || null,
-            trackIds.length
-          );
-          
-          if (dbPlaylistId) {
-            // Save tracks
-            const audioFeaturesMap = new Map<string, any>();
-            audioFeaturesList.forEach((features, index) => {
-              if (trackIds[index]) {
-                audioFeaturesMap.set(trackIds[index], features);
-              }
-            });
-            
-            const tracksForDb = allTracks
-              .map((item: any) => item.track)
-              .filter((t: any) => t && t.id)
-              .map((t: any) => ({
-                id: t.id,
-                name: t.name,
-                artists: (t.artists || []).map((a: any) => a.name),
-                album: t.album?.name,
-                albumArt: t.album?.images?.[0]?.url,
-                duration_ms: t.duration_ms,
-                popularity: t.popularity,
-              }));
-            
-            await saveTracksToDatabase(dbPlaylistId, tracksForDb, audioFeaturesMap);
-            
-            // Save analysis
-            await saveAnalysisToDatabase(user.id, dbPlaylistId, {
-              personalityType,
-              personalityDescription,
-              healthScore,
-              healthStatus,
-              overallRating: Math.round(overallRating * 10) / 10,
-              ratingDescription,
-              audioDna,
-              genreDistribution,
-              subgenres,
-              topTracks,
-            });
-          }
-        }
+        analysisId = await persistAnalysis(user, sourceData, output);
       } catch (dbError) {
-        // Log error but don't fail the request
+        // Log error but don't fail the job
         console.error('Error saving analysis to database:', dbError);
       }
     }
-    
-    res.json(analysisResult);
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
+
+    await analysisJobStore.update(jobId, {
+      status: 'completed',
+      stage: 'completed',
+      percent: 100,
+      result: output.result,
+      analysisId,
+    });
+  } catch (error) {
+    const { body } = describeAnalysisError(error);
+    console.error(`Analysis job ${jobId} failed:`, body.error);
+    await analysisJobStore.update(jobId, {
+      status: 'failed',
+      stage: 'failed',
+      error: { error: body.error, code: body.code },
+    });
   }
-});
+}
 
 /**
- * POST /api/battle
- * Battle two playlists
+ * Public view of a job (result only once completed)
+ */
+function formatAnalysisJob(job: AnalysisJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    percent: job.percent,
+    sourceType: job.sourceType,
+    sourceUrl: job.sourceUrl,
+    analysisId: job.analysisId,
+    result: job.status === 'completed' ? job.result : null,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * Load a job the requester may see
+ * Jobs started by a signed-in user are only visible to that user; guest jobs to anyone with the ID
+ */
+async function getAccessibleAnalysisJob(req: express.Request): Promise<AnalysisJob | null> {
+  const job = await analysisJobStore.get(req.params.id);
+  if (!job) return null;
+  if (job.userId) {
+    const user = await resolveOptionalUser(req).catch(() => null);
+    if (!user || user.id !== job.userId) return null;
+  }
+  return job;
+}
+
+// ============================================================================
+// API ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/analyze
+ * Analyze a Spotify playlist, album, artist discography or the user's Liked Songs
+ * Body: url - playlist/album/artist URL or URI, or "saved" / https://open.spotify.com/collection/tracks
+ * The response's sourceType says which kind of source was analyzed
  * Rate limited: 20 requests per 15 minutes for unauthenticated users
  */
-app.post('/api/battle', 
-  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many battle requests. Please sign in for unlimited access or try again in 15 minutes.' }),
-  extractSpotifyToken, 
+app.post('/api/analyze',
+  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many analysis requests. Please sign in for unlimited access or try again in 15 minutes.' }),
+  extractSpotifyToken,
   async (req: SpotifyRequest, res) => {
   try {
-    const { url1, url2 } = req.body as { url1?: string; url2?: string };
+    const { url } = req.body as { url?: string };
     const userToken = req.spotifyToken;
-    
+
+    // Validate token exists
     if (!userToken) {
-      return res.status(401).json({ 
-        error: 'Spotify token required',
+      return res.status(401).json({
+        error: 'Spotify token required. Please connect your Spotify account.',
         code: 'TOKEN_REQUIRED'
       });
     }
-    
-    if (!url1 || !url2) {
-      return res.status(400).json({ 
-        error: 'Both playlist URLs are required' 
+
+    if (!url) {
+      return res.status(400).json({
+        error: 'Playlist URL is required'
       });
     }
-    
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Extract playlist IDs
-    const playlist1Id = extractSpotifyId(url1);
-    const playlist2Id = extractSpotifyId(url2);
-    
-    if (!playlist1Id || !playlist2Id) {
-      return res.status(400).json({ 
-        error: 'Invalid playlist URLs' 
+
+    // Detect playlist / album / artist / saved tracks
+    const source = detectAnalysisSource(url);
+    if (!source) {
+      return res.status(400).json({
+        error: 'Invalid Spotify URL. Use a playlist, album or artist link, or "saved" for your Liked Songs.',
+        code: ErrorCodes.INVALID_INPUT
       });
     }
-    
-    // Fetch both playlists
-    const [playlist1, playlist2] = await Promise.all([
-      spotifyApi.getPlaylist(playlist1Id),
-      spotifyApi.getPlaylist(playlist2Id),
-    ]);
-    
-    // Fetch all tracks from both playlists
-    const fetchAllTracks = async (playlistId: string) => {
-      const allTracks: any[] = [];
-      let offset = 0;
-      const limit = 100;
-      
-      while (true) {
-        const tracksResponse = await spotifyApi.getPlaylistTracks(playlistId, { limit, offset });
-        const tracks = tracksResponse.body.items;
-        if (!tracks || tracks.length === 0) break;
-        allTracks.push(...tracks);
-        offset += limit;
-        if (tracks.length < limit || allTracks.length >= tracksResponse.body.total) break;
+
+    // Create Spotify API with user token
+    const spotifyApi = createSpotifyApi(userToken);
+
+    const sourceData = await fetchAnalysisSource(spotifyApi, source, url);
+    const output = await runAnalysisPipeline(spotifyApi, sourceData);
+
+    // Save to database if user is authenticated
+    try {
+      const user = await resolveOptionalUser(req);
+      if (user) {
+        await persistAnalysis(user, sourceData, output);
       }
-      return allTracks;
-    };
-    
-    const [tracks1, tracks2] = await Promise.all([
-      fetchAllTracks(playlist1Id),
-      fetchAllTracks(playlist2Id),
-    ]);
-    
-    // Extract track data
-    const trackData1 = tracks1
-      .map(item => item.track)
-      .filter(t => t && t.id)
-      .map(t => ({
-        id: t.id,
-        name: t.name,
-        artists: (t.artists || []).map((a: any) => a.name),
-        album: t.album?.name,
-        albumArt: t.album?.images?.[0]?.url,
-      }));
-    
-    const trackData2 = tracks2
-      .map(item => item.track)
-      .filter(t => t && t.id)
-      .map(t => ({
-        id: t.id,
-        name: t.name,
-        artists: (t.artists || []).map((a: any) => a.name),
-        album: t.album?.name,
-        albumArt: t.album?.images?.[0]?.url,
-      }));
-    
-    // Get audio features for both playlists
-    const getAudioFeatures = async (trackIds: string[]) => {
-      const features: any[] = [];
-      for (let i = 0; i < trackIds.length; i += 100) {
-        const batch = trackIds.slice(i, i + 100);
-        const response = await spotifyApi.getAudioFeaturesForTracks(batch);
-        if (response.body.audio_features) {
-          features.push(...response.body.audio_features.filter((f: any) => f !== null));
-        }
-      }
-      return features;
-    };
-    
-    const trackIds1 = trackData1.map(t => t.id);
-    const trackIds2 = trackData2.map(t => t.id);
-    
-    const [features1, features2] = await Promise.all([
-      getAudioFeatures(trackIds1),
-      getAudioFeatures(trackIds2),
-    ]);
-    
-    // Calculate compatibility score using weighted cosine similarity
-    const calculateCompatibility = (f1: any[], f2: any[]) => {
-      if (f1.length === 0 || f2.length === 0) return 0;
-      
-      const avg = (features: any[], key: string) => 
-        features.reduce((sum, f) => sum + (f[key] || 0), 0) / features.length;
-      
-      const avg1 = {
-        energy: avg(f1, 'energy'),
-        danceability: avg(f1, 'danceability'),
-        valence: avg(f1, 'valence'),
-        acousticness: avg(f1, 'acousticness'),
-        instrumentalness: avg(f1, 'instrumentalness'),
-      };
-      
-      const avg2 = {
-        energy: avg(f2, 'energy'),
-        danceability: avg(f2, 'danceability'),
-        valence: avg(f2, 'valence'),
-        acousticness: avg(f2, 'acousticness'),
-        instrumentalness: avg(f2, 'instrumentalness'),
-      };
-      
-      const weights = { energy: 0.25, danceability: 0.20, valence: 0.20, acousticness: 0.15, instrumentalness: 0.20 };
-      
-      let dotProduct = 0;
-      let mag1 = 0;
-      let mag2 = 0;
-      
-      Object.entries(weights).forEach(([key, weight]) => {
-        const val1 = avg1[key as keyof typeof avg1];
-        const val2 = avg2[key as keyof typeof avg2];
-        dotProduct += val1 * val2 * weight;
-        mag1 += val1 * val1 * weight;
-        mag2 += val2 * val2 * weight;
+    } catch (dbError) {
+      // Log error but don't fail the request
+      console.error('Error saving analysis to database:', dbError);
+    }
+
+    res.json(output.result);
+  } catch (error: unknown) {
+    handleAnalysisError(error, res);
+  }
+});
+
+/**
+ * POST /api/analyze/jobs
+ * Start a background analysis for large playlists (same sources as /api/analyze)
+ * Responds 202 with the job ID; poll GET /api/analyze/jobs/:id or stream /events for progress
+ * Rate limited: 20 requests per 15 minutes for unauthenticated users
+ */
+app.post('/api/analyze/jobs',
+  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many analysis requests. Please sign in for unlimited access or try again in 15 minutes.' }),
+  extractSpotifyToken,
+  async (req: SpotifyRequest, res) => {
+  try {
+    const { url } = req.body as { url?: string };
+    const userToken = req.spotifyToken;
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required. Please connect your Spotify account.',
+        code: ErrorCodes.TOKEN_REQUIRED
       });
-      
-      if (mag1 === 0 || mag2 === 0) return 0;
-      
-      const similarity = dotProduct / (Math.sqrt(mag1) * Math.sqrt(mag2));
-      const sigmoid = 1 / (1 + Math.exp(-5 * (similarity - 0.5)));
-      return Math.round(sigmoid * 100);
+    }
+
+    if (!url) {
+      return res.status(400).json({
+        error: 'Playlist URL is required',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
+
+    const source = detectAnalysisSource(url);
+    if (!source) {
+      return res.status(400).json({
+        error: 'Invalid Spotify URL. Use a playlist, album or artist link, or "saved" for your Liked Songs.',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    let user: Awaited<ReturnType<typeof resolveOptionalUser>> = null;
+    try {
+      user = await resolveOptionalUser(req);
+    } catch (authError) {
+      // Invalid session: run as a guest job
+      console.warn('Could not resolve user for analysis job:', authError);
+    }
+
+    const job = await analysisJobStore.create({
+      userId: user?.id || null,
+      sourceUrl: url,
+      sourceType: source.type,
+    });
+
+    // Run without awaiting; the client follows progress via the job endpoints
+    runAnalysisJob(job.id, createSpotifyApi(userToken), source, url, user);
+
+    res.status(202).json({
+      ...formatAnalysisJob(job),
+      statusUrl: `/api/analyze/jobs/${job.id}`,
+      eventsUrl: `/api/analyze/jobs/${job.id}/events`,
+    });
+  } catch (error: unknown) {
+    handleAnalysisError(error, res);
+  }
+});
+
+/**
+ * GET /api/analyze/jobs/:id
+ * Job status, stage and percent complete; includes the result once completed
+ */
+app.get('/api/analyze/jobs/:id', async (req, res) => {
+  try {
+    const job = await getAccessibleAnalysisJob(req);
+    if (!job) {
+      return res.status(404).json({
+        error: 'Analysis job not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    res.json(formatAnalysisJob(job));
+  } catch (error) {
+    console.error('Error fetching analysis job:', error);
+    res.status(500).json({
+      error: 'Failed to fetch analysis job',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * GET /api/analyze/jobs/:id/events
+ * Server-Sent Events stream of job progress
+ * Events: "progress" on every update, then "completed" (with result) or "failed"; the stream then closes
+ */
+app.get('/api/analyze/jobs/:id/events', async (req, res) => {
+  let job: AnalysisJob | null;
+  try {
+    job = await getAccessibleAnalysisJob(req);
+  } catch (error) {
+    console.error('Error fetching analysis job:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch analysis job',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Analysis job not found',
+      code: ErrorCodes.NOT_FOUND
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+
+  const send = (current: AnalysisJob) => {
+    const event = current.status === 'completed' || current.status === 'failed' ? current.status : 'progress';
+    res.write(`event: ${event}\ndata: ${JSON.stringify(formatAnalysisJob(current))}\n\n`);
+    return event !== 'progress';
+  };
+
+  // Subscribe before sending the snapshot so no update is missed
+  const unsubscribe = analysisJobStore.subscribe(job.id, (updated) => {
+    if (send(updated)) close();
+  });
+
+  // Keep the connection alive through proxies
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  function close() {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  }
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  // The job may have progressed while the request was being authorized
+  if (send(analysisJobStore.getCached(job.id) || job)) {
+    close();
+  }
+});
+
+// Playlist in a battle or tournament, scored with the same model as /api/analyze
+interface BattleContender {
+  spotifyId: string;
+  url: string;
+  playlist: any; // Spotify playlist object
+  items: any[]; // Playlist items: { track, added_at }
+  trackData: { id: string; name: string; artists: string[]; album?: string; albumArt?: string }[];
+  trackIds: string[];
+  artistNames: Map<string, string>; // Artist ID -> name, in playlist order
+  genreTotals: Map<string, number>; // Weighted artist genres (see weightedGenreTotals)
+  features: AudioFeatures[];
+  diversity: DiversityProfile;
+  breakdown: ScoreBreakdown;
+  score: number; // Health score (0 without audio features)
+  obscurity: ObscurityProfile;
+}
+
+/**
+ * Fetch and score playlists for a battle or tournament
+ * Artists and audio features of all playlists are looked up in one pass
+ */
+async function fetchBattleContenders(
+  spotifyApi: SpotifyWebApi,
+  sources: { spotifyId: string; url: string }[]
+): Promise<{ contenders: BattleContender[]; artists: Map<string, any>; genres: Map<string, string[]> }> {
+  const fetched = await Promise.all(sources.map(async source => {
+    const [playlist, items] = await Promise.all([
+      spotifyApi.getPlaylist(source.spotifyId),
+      fetchAllPlaylistTracks(spotifyApi, source.spotifyId),
+    ]);
+    return { ...source, playlist: playlist.body, items };
+  }));
+
+  // Artist details for every playlist (genres, popularity and followers)
+  const allItems = fetched.flatMap(entry => entry.items);
+  const artistIds = new Set<string>(
+    allItems.flatMap((item: any) => (item.track?.artists || []).map((a: any) => a.id).filter(Boolean))
+  );
+  const artists = await fetchArtistsMap(spotifyApi, Array.from(artistIds));
+  const genres = new Map<string, string[]>();
+  artists.forEach((artist, artistId) => {
+    if (Array.isArray(artist.genres)) genres.set(artistId, artist.genres);
+  });
+
+  const featuresMap = await fetchAudioFeaturesMap(spotifyApi, toAudioFeaturesRequests(allItems, genres));
+
+  const contenders = fetched.map(entry => {
+    const tracks = entry.items.map((item: any) => item.track).filter((t: any) => t && t.id);
+    const trackData = tracks.map((t: any) => ({
+      id: t.id,
+      name: t.name,
+      artists: (t.artists || []).map((a: any) => a.name),
+      album: t.album?.name,
+      albumArt: t.album?.images?.[0]?.url,
+    }));
+    const trackIds = trackData.map(t => t.id);
+    const artistNames = new Map<string, string>();
+    tracks.forEach((t: any) => (t.artists || []).forEach((a: any) => {
+      if (a.id && !artistNames.has(a.id)) artistNames.set(a.id, a.name);
+    }));
+    const features = trackIds
+      .map(id => featuresMap.get(id))
+      .filter((f): f is AudioFeatures => f !== undefined);
+    const diversityTracks = tracks.map((t: any) => toDiversityInputTrack(t, genres));
+    const diversity = analyzeDiversity(diversityTracks);
+    const breakdown = scorePlaylist({ features, diversity, trackCount: trackIds.length });
+
+    return {
+      ...entry,
+      trackData,
+      trackIds,
+      artistNames,
+      genreTotals: weightedGenreTotals(diversityTracks.flatMap(t => t.artistGenres)),
+      features,
+      diversity,
+      breakdown,
+      score: features.length > 0 ? breakdown.healthScore : 0,
+      obscurity: analyzeObscurity(toObscurityInputTracks(entry.items, artists)),
     };
-    
-    const compatibilityScore = calculateCompatibility(features1, features2);
-    
-    // Find shared artists
-    const artists1 = new Set(trackData1.flatMap(t => t.artists));
-    const artists2 = new Set(trackData2.flatMap(t => t.artists));
-    const sharedArtists = Array.from(artists1).filter(a => artists2.has(a));
-    
-    // Find shared genres (simplified - would need artist genre lookup for real implementation)
-    const sharedGenres: string[] = [];
-    
-    // Find shared tracks
-    const trackIds1Set = new Set(trackIds1);
-    const trackIds2Set = new Set(trackIds2);
-    const sharedTrackIds = trackIds1.filter(id => trackIds2Set.has(id));
-    const sharedTracks = sharedTrackIds.map(id => {
-      const track = trackData1.find(t => t.id === id);
+  });
+
+  return { contenders, artists, genres };
+}
+
+/**
+ * Head-to-head result of two contenders: compatibility (audio and genres) and shared content
+ * The winner is decided separately, by the category rounds (scoreBattleRounds)
+ */
+function compareBattleContenders(contender1: BattleContender, contender2: BattleContender) {
+  // Shared artists are matched by ID, so different artists with the same name never match
+  const sharedArtists = Array.from(contender1.artistNames.entries())
+    .filter(([artistId]) => contender2.artistNames.has(artistId))
+    .map(([, name]) => name);
+
+  const genres = genreOverlap(contender1.genreTotals, contender2.genreTotals);
+  const audio = contender1.features.length > 0 && contender2.features.length > 0
+    ? audioCompatibility(contender1.features, contender2.features)
+    : null;
+  const compatibility = battleCompatibility(audio, genres);
+
+  const trackIds2Set = new Set(contender2.trackIds);
+  const sharedTracks = contender1.trackIds
+    .filter(id => trackIds2Set.has(id))
+    .map(id => {
+      const track = contender1.trackData.find(t => t.id === id);
       return {
         title: track?.name || 'Unknown',
         artist: track?.artists?.[0] || 'Unknown',
@@ -1728,70 +2805,177 @@ app.post('/api/battle',
         uri: `spotify:track:${id}`,
       };
     });
-    
-    // Calculate playlist scores (based on health score logic)
-    const calculateScore = (features: any[]) => {
-      if (features.length === 0) return 0;
-      const avgEnergy = features.reduce((sum, f) => sum + (f.energy || 0), 0) / features.length;
-      const avgDanceability = features.reduce((sum, f) => sum + (f.danceability || 0), 0) / features.length;
-      
-      const energyStdDev = Math.sqrt(
-        features.reduce((sum, f) => {
-          const diff = (f.energy || 0) - avgEnergy;
-          return sum + diff * diff;
-        }, 0) / features.length
-      );
-      
-      const flowScore = energyStdDev < 0.2 ? 100 : Math.max(0, 100 - ((energyStdDev - 0.2) * 200));
-      const engagementScore = avgDanceability * 100;
-      return Math.round((flowScore * 0.5) + (engagementScore * 0.5));
+
+  // Mainstream vs. underground, with the same profile as /api/analyze
+  const hipster1 = contender1.obscurity.hipsterScore ?? 0;
+  const hipster2 = contender2.obscurity.hipsterScore ?? 0;
+
+  return {
+    compatibilityScore: compatibility.score,
+    compatibilityBreakdown: compatibility.breakdown,
+    sharedArtists,
+    sharedGenres: genres?.sharedGenres || [],
+    uniqueGenres: { playlist1: genres?.uniqueTo1 || [], playlist2: genres?.uniqueTo2 || [] },
+    sharedTracks,
+    obscurityComparison: {
+      moreObscure: hipster1 > hipster2 ? 'playlist1' : hipster2 > hipster1 ? 'playlist2' : 'tie',
+      difference: Math.abs(hipster1 - hipster2),
+    },
+  };
+}
+
+/**
+ * One side of a battle result (stored as playlist1_data / playlist2_data)
+ * `uniqueGenres` are the side's genres the other playlist doesn't have
+ */
+function battleSideData(contender: BattleContender, uniqueGenres: string[] = []) {
+  return {
+    name: contender.playlist.name,
+    owner: contender.playlist.owner?.display_name || 'Unknown',
+    image: contender.playlist.images?.[0]?.url,
+    score: contender.score,
+    scoreBreakdown: contender.breakdown,
+    diversity: contender.diversity,
+    obscurity: contender.obscurity,
+    genres: { ...genreDistribution(contender.genreTotals), unique: uniqueGenres },
+    tracks: contender.trackIds.length,
+  };
+}
+
+/**
+ * Category values (0-100) a contender brings into the battle rounds
+ */
+function battleRoundSide(contender: BattleContender): BattleRoundSide {
+  const hasFeatures = contender.features.length > 0;
+  const averages = averageAudioFeatures(contender.features);
+  return {
+    name: contender.playlist.name,
+    values: {
+      energy: hasFeatures ? averages.energy * 100 : null,
+      danceability: hasFeatures ? averages.danceability * 100 : null,
+      mood: hasFeatures ? averages.valence * 100 : null,
+      diversity: contender.diversity.varietyScore,
+      flow: hasFeatures ? contender.breakdown.components.flow : null,
+      obscurity: contender.obscurity.hipsterScore,
+      cohesion: cohesionScore(contender.features),
+    },
+  };
+}
+
+/**
+ * Save a contender's playlist row; returns its database ID
+ */
+function saveContenderPlaylist(userId: string, contender: BattleContender): Promise<string | null> {
+  return savePlaylistToDatabase(
+    userId,
+    contender.spotifyId,
+    contender.url,
+    contender.playlist.name,
+    contender.playlist.owner?.display_name || 'Unknown',
+    contender.playlist.images?.[0]?.url || null,
+    contender.trackIds.length
+  );
+}
+
+/**
+ * POST /api/battle
+ * Battle two playlists over category rounds (energy, danceability, mood, diversity,
+ * flow, obscurity, cohesion)
+ * Body: { url1, url2, decideBy?: 'rounds' | 'weighted', weights?: { [category]: number } }
+ * decideBy defaults to 'rounds' (most rounds won), or 'weighted' when weights are given
+ * Rate limited: 20 requests per 15 minutes for unauthenticated users
+ */
+app.post('/api/battle', 
+  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many battle requests. Please sign in for unlimited access or try again in 15 minutes.' }),
+  extractSpotifyToken, 
+  async (req: SpotifyRequest, res) => {
+  try {
+    const { url1, url2, decideBy, weights } = req.body as {
+      url1?: string;
+      url2?: string;
+      decideBy?: BattleDecisionMode;
+      weights?: unknown;
     };
+    const userToken = req.spotifyToken;
+    
+    if (!userToken) {
+      return res.status(401).json({ 
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+    
+    if (!url1 || !url2) {
+      return res.status(400).json({ 
+        error: 'Both playlist URLs are required' 
+      });
+    }
+    
+    const spotifyApi = createSpotifyApi(userToken);
     
-    const score1 = calculateScore(features1);
-    const score2 = calculateScore(features2);
+    // Extract playlist IDs
+    const playlist1Id = extractSpotifyId(url1);
+    const playlist2Id = extractSpotifyId(url2);
     
-    // Determine winner
-    let winner = 'tie';
-    if (score1 > score2) winner = 'playlist1';
-    else if (score2 > score1) winner = 'playlist2';
+    if (!playlist1Id || !playlist2Id) {
+      return res.status(400).json({ 
+        error: 'Invalid playlist URLs' 
+      });
+    }
+
+    if (decideBy !== undefined && !BATTLE_DECISION_MODES.includes(decideBy)) {
+      return res.status(400).json({
+        error: `decideBy must be one of: ${BATTLE_DECISION_MODES.join(', ')}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const roundWeights = parseRoundWeights(weights);
+    if ('error' in roundWeights) {
+      return res.status(400).json({ error: roundWeights.error, code: ErrorCodes.INVALID_INPUT });
+    }
     
+    // Both playlists are scored with one artist and audio features lookup
+    const { contenders: [contender1, contender2] } = await fetchBattleContenders(spotifyApi, [
+      { spotifyId: playlist1Id, url: url1 },
+      { spotifyId: playlist2Id, url: url2 },
+    ]);
+
+    const {
+      compatibilityScore,
+      compatibilityBreakdown,
+      sharedArtists,
+      sharedGenres,
+      uniqueGenres,
+      sharedTracks,
+      obscurityComparison,
+    } = compareBattleContenders(contender1, contender2);
+
+    // The winner is decided category by category
+    const rounds = scoreBattleRounds(
+      battleRoundSide(contender1),
+      battleRoundSide(contender2),
+      decideBy || (weights !== undefined ? 'weighted' : 'rounds'),
+      roundWeights.weights
+    );
+    const winner = rounds.winner;
+
     // Audio data for visualization
     const audioData = [
-      {
-        playlist: 'playlist1',
-        energy: features1.length > 0 ? features1.reduce((sum, f) => sum + (f.energy || 0), 0) / features1.length : 0,
-        danceability: features1.length > 0 ? features1.reduce((sum, f) => sum + (f.danceability || 0), 0) / features1.length : 0,
-        valence: features1.length > 0 ? features1.reduce((sum, f) => sum + (f.valence || 0), 0) / features1.length : 0,
-        acousticness: features1.length > 0 ? features1.reduce((sum, f) => sum + (f.acousticness || 0), 0) / features1.length : 0,
-        tempo: features1.length > 0 ? features1.reduce((sum, f) => sum + (f.tempo || 0), 0) / features1.length : 0,
-      },
-      {
-        playlist: 'playlist2',
-        energy: features2.length > 0 ? features2.reduce((sum, f) => sum + (f.energy || 0), 0) / features2.length : 0,
-        danceability: features2.length > 0 ? features2.reduce((sum, f) => sum + (f.danceability || 0), 0) / features2.length : 0,
-        valence: features2.length > 0 ? features2.reduce((sum, f) => sum + (f.valence || 0), 0) / features2.length : 0,
-        acousticness: features2.length > 0 ? features2.reduce((sum, f) => sum + (f.acousticness || 0), 0) / features2.length : 0,
-        tempo: features2.length > 0 ? features2.reduce((sum, f) => sum + (f.tempo || 0), 0) / features2.length : 0,
-      },
+      { playlist: 'playlist1', ...averageAudioFeatures(contender1.features) },
+      { playlist: 'playlist2', ...averageAudioFeatures(contender2.features) },
     ];
     
     const battleResult = {
       compatibilityScore,
+      compatibilityBreakdown,
       winner,
-      playlist1: {
-        name: playlist1.body.name,
-        owner: playlist1.body.owner?.display_name || 'Unknown',
-        image: playlist1.body.images?.[0]?.url,
-        score: score1,
-        tracks: trackIds1.length,
-      },
-      playlist2: {
-        name: playlist2.body.name,
-        owner: playlist2.body.owner?.display_name || 'Unknown',
-        image: playlist2.body.images?.[0]?.url,
-        score: score2,
-        tracks: trackIds2.length,
-      },
+      winnerReason: rounds.reason,
+      rounds,
+      playlist1: battleSideData(contender1, uniqueGenres.playlist1),
+      playlist2: battleSideData(contender2, uniqueGenres.playlist2),
+      scoringVersion: SCORING_VERSION,
+      obscurityComparison,
       sharedArtists,
       sharedGenres,
       sharedTracks,
@@ -1810,25 +2994,8 @@ app.post('/api/battle',
           await ensureUserProfile(user.id, user.email, user.user_metadata?.display_name);
           
           // Save both playlists
-          const dbPlaylist1Id = await savePlaylistToDatabase(
-            user.id,
-            playlist1Id,
-            url1,
-            playlist1.body.name,
-            playlist1.body.owner?.display_name || 'Unknown',
-            playlist1.body.images?.[0]?.url || null,
-            trackIds1.length
-          );
-          
-          const dbPlaylist2Id = await savePlaylistToDatabase(
-            user.id,
-            playlist2Id,
-            url2,
-            playlist2.body.name,
-            playlist2.body.owner?.display_name || 'Unknown',
-            playlist2.body.images?.[0]?.url || null,
-            trackIds2.length
-          );
+          const dbPlaylist1Id = await saveContenderPlaylist(user.id, contender1);
+          const dbPlaylist2Id = await saveContenderPlaylist(user.id, contender2);
           
           if (dbPlaylist1Id && dbPlaylist2Id) {
             // Save battle
@@ -1838,11 +3005,14 @@ app.post('/api/battle',
               dbPlaylist2Id,
               {
                 compatibilityScore,
+                compatibilityBreakdown,
                 winner,
+                winnerReason: rounds.reason,
                 sharedArtists,
                 sharedGenres,
                 sharedTracks,
-                audioData,
+                // The rounds are stored next to the per-playlist audio entries
+                audioData: [...audioData, { kind: 'rounds', ...rounds }],
                 playlist1Data: battleResult.playlist1,
                 playlist2Data: battleResult.playlist2,
               }
@@ -1862,65 +3032,350 @@ app.post('/api/battle',
 });
 
 /**
- * GET /api/recommendations/strategies
- * List available recommendation strategies
+ * Compact entrant description stored with a tournament
  */
-app.get('/api/recommendations/strategies', (req, res) => {
-  res.json([
-    {
-      id: 'best_next',
-      name: 'Best Next Track',
-      description: 'AI picks the perfect next song based on current momentum',
-      icon: '💡',
-    },
-    {
-      id: 'mood_safe',
-      name: 'Mood-Safe Pick',
-      description: 'Maintains your current vibe without jarring changes',
-      icon: '❤️',
-    },
-    {
-      id: 'rare_match',
-      name: 'Rare Match For You',
-      description: 'Hidden gems that align with your unique taste',
-      icon: '🧭',
-    },
-    {
-      id: 'return_familiar',
-      name: 'Return To Familiar',
-      description: 'Deep cuts from artists you already love',
-      icon: '🔄',
-    },
-    {
-      id: 'short_session',
-      name: 'Short Session Mode',
-      description: 'Perfect tracks for quick 5-10 minute breaks',
-      icon: '🎵',
-    },
-    {
-      id: 'energy_adjust',
-      name: 'Energy Adjustment',
-      description: 'Gradually shift the energy up or down',
-      icon: '⚡',
-    },
-    {
-      id: 'professional_discovery',
-      name: 'Professional Discovery',
-      description: 'Multi-source AI analysis for sophisticated recommendations',
-      icon: '✨',
-    },
-    {
-      id: 'taste_expansion',
-      name: 'Taste Expansion',
-      description: 'Bridge to new genres while respecting your preferences',
-      icon: '🌉',
-    },
-    {
-      id: 'deep_cuts',
-      name: 'Deep Cuts',
-      description: 'Hidden gems from your favorite artists',
-      icon: '💎',
-    },
+function tournamentEntrantData(contender: BattleContender, seed: number, playlistId: string | null = null) {
+  return {
+    seed,
+    name: contender.playlist.name,
+    owner: contender.playlist.owner?.display_name || 'Unknown',
+    image: contender.playlist.images?.[0]?.url || null,
+    url: contender.url,
+    spotifyId: contender.spotifyId,
+    playlistId,
+    score: contender.score,
+    healthStatus: contender.breakdown.healthStatus,
+    tracks: contender.trackIds.length,
+  };
+}
+
+/**
+ * POST /api/tournaments
+ * Run a tournament between 4 and 16 playlists
+ * Body: { urls: string[], format?: 'elimination' | 'round_robin' (default elimination), name?: string }
+ * Seeds follow the health score; every matchup is decided by the /api/battle category rounds
+ * (default weights) and reports its compatibility.
+ * Signed-in users' tournaments are saved with their bracket and per-round results
+ * Rate limited: 5 requests per 15 minutes for unauthenticated users
+ */
+app.post('/api/tournaments',
+  rateLimitUnauthenticated({ windowMs: 15 * 60 * 1000, max: 5, message: 'Too many tournament requests. Please sign in for unlimited access or try again in 15 minutes.' }),
+  extractSpotifyToken,
+  async (req: SpotifyRequest, res) => {
+  try {
+    const { urls, format = 'elimination', name } = req.body as { urls?: unknown; format?: string; name?: unknown };
+    const userToken = req.spotifyToken;
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
+    if (!Array.isArray(urls) || urls.length < TOURNAMENTS.MIN_ENTRANTS || urls.length > TOURNAMENTS.MAX_ENTRANTS) {
+      return res.status(400).json({
+        error: `urls must list between ${TOURNAMENTS.MIN_ENTRANTS} and ${TOURNAMENTS.MAX_ENTRANTS} playlists`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (!TOURNAMENT_FORMATS.includes(format as TournamentFormat)) {
+      return res.status(400).json({
+        error: `format must be one of: ${TOURNAMENT_FORMATS.join(', ')}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > 100)) {
+      return res.status(400).json({
+        error: 'name must be a string of at most 100 characters',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const playlistIds = urls.map(url => (typeof url === 'string' ? extractSpotifyId(url) : null));
+    const invalid = playlistIds.findIndex(id => !id);
+    if (invalid >= 0) {
+      return res.status(400).json({
+        error: `Invalid playlist URL at position ${invalid + 1}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (new Set(playlistIds).size !== playlistIds.length) {
+      return res.status(400).json({
+        error: 'Each playlist can only enter once',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const { contenders } = await fetchBattleContenders(
+      spotifyApi,
+      playlistIds.map((id, i) => ({ spotifyId: id!, url: urls[i] as string }))
+    );
+
+    // seeded[seed - 1] is the contender with that seed
+    const seeded = seedByScore(contenders.map(c => c.score)).map(index => contenders[index]);
+    const entrants = seeded.map((contender, i) => ({ seed: i + 1, name: contender.playlist.name, score: contender.score }));
+
+    const judge: MatchJudge = (seedA, seedB) => {
+      const a = seeded[seedA - 1];
+      const b = seeded[seedB - 1];
+      // Decided by the same category rounds as /api/battle
+      const { compatibilityScore } = compareBattleContenders(a, b);
+      const { winner, reason } = scoreBattleRounds(battleRoundSide(a), battleRoundSide(b));
+      return {
+        winner: winner === 'playlist1' ? 'a' : winner === 'playlist2' ? 'b' : 'tie',
+        compatibilityScore,
+        reason,
+      };
+    };
+
+    const result = format === 'round_robin' ? runRoundRobin(entrants, judge) : runElimination(entrants, judge);
+    const tournamentName = typeof name === 'string' && name.trim() ? name.trim() : null;
+    let entrantData = seeded.map((contender, i) => tournamentEntrantData(contender, i + 1));
+
+    // Save to database if user is authenticated
+    let tournamentId: string | null = null;
+    try {
+      const user = await resolveOptionalUser(req);
+      if (user && supabase) {
+        await ensureUserProfile(user.id, user.email, user.user_metadata?.display_name);
+
+        const savedPlaylistIds: (string | null)[] = [];
+        for (const contender of seeded) {
+          savedPlaylistIds.push(await saveContenderPlaylist(user.id, contender));
+        }
+        entrantData = seeded.map((contender, i) => tournamentEntrantData(contender, i + 1, savedPlaylistIds[i]));
+
+        const { data: tournament, error: tournamentError } = await supabase
+          .from('tournaments')
+          .insert({
+            user_id: user.id,
+            name: tournamentName,
+            format: result.format,
+            entrant_count: entrants.length,
+            champion_seed: result.championSeed,
+            entrants: entrantData,
+            standings: result.standings,
+            scoring_version: SCORING_VERSION,
+          })
+          .select('id')
+          .single();
+        if (tournamentError) throw tournamentError;
+
+        const { error: matchesError } = await supabase
+          .from('tournament_matches')
+          .insert(result.rounds.flatMap(round => round.matches.map(match => ({
+            tournament_id: tournament.id,
+            user_id: user.id,
+            round: round.round,
+            round_name: round.name,
+            match_number: match.match,
+            seed_a: match.seedA,
+            seed_b: match.seedB,
+            winner_seed: match.winnerSeed,
+            compatibility_score: match.compatibilityScore,
+            reason: match.reason,
+            tie_break: match.tieBreak,
+          }))));
+        if (matchesError) {
+          // A tournament without its matches can't be shown later, so don't keep it
+          const { error: cleanupError } = await supabase
+            .from('tournaments')
+            .delete()
+            .eq('id', tournament.id);
+          if (cleanupError) console.error('Error removing incomplete tournament:', cleanupError);
+          throw matchesError;
+        }
+
+        tournamentId = tournament.id;
+      }
+    } catch (dbError) {
+      // Log error but don't fail the request
+      console.error('Error saving tournament to database:', dbError);
+    }
+
+    res.json({
+      tournamentId,
+      name: tournamentName,
+      format: result.format,
+      scoringVersion: SCORING_VERSION,
+      champion: entrantData[result.championSeed - 1],
+      entrants: entrantData,
+      rounds: result.rounds,
+      standings: result.standings,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/tournaments/:id
+ * Get one of the user's saved tournaments with its rounds and final ranking
+ */
+app.get('/api/tournaments/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    const { data: tournament, error: dbError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('tournaments')
+          .select('id, name, format, champion_seed, entrants, standings, scoring_version, created_at')
+          .eq('id', id)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch tournament',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    if (!tournament) {
+      return res.status(404).json({
+        error: 'Tournament not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const { data: matches, error: matchesError } = await supabase
+      .from('tournament_matches')
+      .select('round, round_name, match_number, seed_a, seed_b, winner_seed, compatibility_score, reason, tie_break')
+      .eq('tournament_id', tournament.id)
+      .order('round', { ascending: true })
+      .order('match_number', { ascending: true });
+
+    if (matchesError) {
+      console.error('Database error:', matchesError);
+      return res.status(500).json({
+        error: 'Failed to fetch tournament',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    const rounds: TournamentRound[] = [];
+    (matches || []).forEach(match => {
+      let round = rounds[rounds.length - 1];
+      if (!round || round.round !== match.round) {
+        round = { round: match.round, name: match.round_name, matches: [] };
+        rounds.push(round);
+      }
+      round.matches.push({
+        round: match.round,
+        match: match.match_number,
+        seedA: match.seed_a,
+        seedB: match.seed_b,
+        winnerSeed: match.winner_seed,
+        compatibilityScore: match.compatibility_score,
+        reason: match.reason,
+        tieBreak: match.tie_break,
+      });
+    });
+
+    const entrants = tournament.entrants || [];
+    res.json({
+      tournamentId: tournament.id,
+      name: tournament.name,
+      format: tournament.format,
+      scoringVersion: tournament.scoring_version,
+      champion: entrants[tournament.champion_seed - 1] || null,
+      entrants,
+      rounds,
+      standings: tournament.standings || [],
+      createdAt: tournament.created_at,
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Get tournament endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * GET /api/recommendations/strategies
+ * List available recommendation strategies
+ */
+app.get('/api/recommendations/strategies', (req, res) => {
+  res.json([
+    {
+      id: 'best_next',
+      name: 'Best Next Track',
+      description: 'AI picks the perfect next song based on current momentum',
+      icon: '💡',
+    },
+    {
+      id: 'mood_safe',
+      name: 'Mood-Safe Pick',
+      description: 'Maintains your current vibe without jarring changes',
+      icon: '❤️',
+    },
+    {
+      id: 'rare_match',
+      name: 'Rare Match For You',
+      description: 'Hidden gems that align with your unique taste',
+      icon: '🧭',
+    },
+    {
+      id: 'return_familiar',
+      name: 'Return To Familiar',
+      description: 'Deep cuts from artists you already love',
+      icon: '🔄',
+    },
+    {
+      id: 'short_session',
+      name: 'Short Session Mode',
+      description: 'Perfect tracks for quick 5-10 minute breaks',
+      icon: '🎵',
+    },
+    {
+      id: 'energy_adjust',
+      name: 'Energy Adjustment',
+      description: 'Gradually shift the energy up or down',
+      icon: '⚡',
+    },
+    {
+      id: 'professional_discovery',
+      name: 'Professional Discovery',
+      description: 'Multi-source AI analysis for sophisticated recommendations',
+      icon: '✨',
+    },
+    {
+      id: 'taste_expansion',
+      name: 'Taste Expansion',
+      description: 'Bridge to new genres while respecting your preferences',
+      icon: '🌉',
+    },
+    {
+      id: 'deep_cuts',
+      name: 'Deep Cuts',
+      description: 'Hidden gems from your favorite artists',
+      icon: '💎',
+    },
     {
       id: 'continue_session',
       name: 'Continue Session',
@@ -1994,8 +3449,11 @@ app.get('/api/recommendations', extractSpotifyToken, async (req: SpotifyRequest,
           
           if (trackIds.length > 0) {
             // Get audio features
-            const featuresResponse = await spotifyApi.getAudioFeaturesForTracks(trackIds.slice(0, 10));
-            const features = featuresResponse.body.audio_features.filter((f: any) => f !== null);
+            const featuresMap = await fetchTrackAudioFeatures(
+              spotifyApi,
+              tracksResponse.body.items.map((item: any) => item.track).filter((t: any) => t?.id)
+            );
+            const features = Array.from(featuresMap.values());
             
             if (features.length > 0) {
               const avgValence = features.reduce((sum: number, f: any) => sum + (f.valence || 0), 0) / features.length;
@@ -2097,8 +3555,11 @@ app.get('/api/recommendations', extractSpotifyToken, async (req: SpotifyRequest,
             .filter((id: any): id is string => typeof id === 'string');
           
           if (trackIds.length > 0) {
-            const featuresResponse = await spotifyApi.getAudioFeaturesForTracks(trackIds.slice(0, 10));
-            const features = featuresResponse.body.audio_features.filter((f: any) => f !== null);
+            const featuresMap = await fetchTrackAudioFeatures(
+              spotifyApi,
+              tracksResponse.body.items.map((item: any) => item.track).filter((t: any) => t?.id)
+            );
+            const features = Array.from(featuresMap.values());
             
             if (features.length > 0) {
               const avgEnergy = features.reduce((sum: number, f: any) => sum + (f.energy || 0), 0) / features.length;
@@ -2268,38 +3729,2553 @@ app.get('/api/recommendations', extractSpotifyToken, async (req: SpotifyRequest,
         error: 'At least one seed (tracks, genres, or artists) is required' 
       });
     }
-    
-    // Get recommendations
-    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
-    
-    // Post-process results for strategies that need filtering
-    let tracks = recommendations.body.tracks;
-    
-    if (strategyType === 'rare_match') {
-      // Filter for low popularity tracks (post-processing)
-      tracks = tracks.filter((track: any) => (track.popularity || 100) < 30);
-    } else if (strategyType === 'short_session') {
-      // Filter for tracks 5-10 minutes (300000-600000 ms)
-      tracks = tracks.filter((track: any) => {
-        const duration = track.duration_ms || 0;
-        return duration >= 300000 && duration <= 600000;
+    
+    // Get recommendations
+    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
+    
+    // Post-process results for strategies that need filtering
+    let tracks = recommendations.body.tracks;
+    
+    if (strategyType === 'rare_match') {
+      // Filter for low popularity tracks (post-processing)
+      tracks = tracks.filter((track: any) => (track.popularity || 100) < 30);
+    } else if (strategyType === 'short_session') {
+      // Filter for tracks 5-10 minutes (300000-600000 ms)
+      tracks = tracks.filter((track: any) => {
+        const duration = track.duration_ms || 0;
+        return duration >= 300000 && duration <= 600000;
+      });
+    } else if (strategyType === 'deep_cuts' || strategyType === 'from_library') {
+      // Filter for lower popularity (hidden gems)
+      tracks = tracks.filter((track: any) => (track.popularity || 100) < 50);
+    }
+    
+    res.json(tracks);
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/playlists
+ * Get user's saved playlists
+ */
+app.get('/api/playlists', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    
+    if (!userId) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({ 
+        error: 'Database not configured',
+        code: 'DB_NOT_CONFIGURED'
+      });
+    }
+
+    // Query saved playlists (RLS will automatically filter by user_id)
+    const { data: playlists, error: dbError } = await supabase
+      .from('playlists')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({ 
+        error: 'Failed to fetch playlists',
+        code: 'DB_ERROR'
+      });
+    }
+
+    res.json(playlists || []);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Get playlists endpoint error:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/playlists
+ * Create a playlist
+ */
+app.post('/api/playlists', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const { name, description, tracks, coverUrl } = req.body as {
+      name?: string;
+      description?: string;
+      tracks?: TrackInput[];
+      coverUrl?: string;
+    };
+    const userToken = req.spotifyToken;
+    
+    if (!userToken) {
+      return res.status(401).json({ 
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+    
+    if (!name || !tracks || !Array.isArray(tracks)) {
+      return res.status(400).json({ 
+        error: 'Name and tracks (array) are required' 
+      });
+    }
+    
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Create playlist (user context is from the access token)
+    const playlistResponse = await spotifyApi.createPlaylist(name, {
+      public: false,
+      description: description,
+    });
+    const playlist = playlistResponse.body;
+    
+    // Add tracks - extract URIs or IDs
+    const trackUris = tracks
+      .map((track: TrackInput) => track.uri || track.id)
+      .filter((uri): uri is string => typeof uri === 'string' && uri.length > 0);
+
+    if (trackUris.length > 0) {
+      await addTracksToPlaylistInBatches(spotifyApi, playlist.id, trackUris);
+    }
+
+    res.json({
+      id: playlist.id,
+      name: playlist.name,
+      url: playlist.external_urls.spotify,
+      trackCount: tracks.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/playlists/merge
+ * Merge several playlists and/or tracks into a new Spotify playlist
+ * Body:
+ * - name (required), description?
+ * - playlist_urls?: string[] - source playlists, in priority order
+ * - track_ids?: string[] - extra tracks (IDs, URIs or URLs), treated as the last source
+ * - order?: 'source' | 'interleave' | 'energy' | 'shuffle' (default 'source')
+ * - artist_gap?: number - minimum positions between the same artist in shuffle mode (default 3)
+ * - seed?: number - makes shuffle mode reproducible
+ * - dedupe?: boolean (default true) - drop repeats, including the same song under different track IDs
+ */
+app.post('/api/playlists/merge', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const {
+      name,
+      description,
+      playlist_urls = [],
+      track_ids = [],
+      order = 'source',
+      artist_gap,
+      seed,
+      dedupe = true,
+    } = req.body as {
+      name?: string;
+      description?: string;
+      playlist_urls?: string[];
+      track_ids?: string[];
+      order?: MergeOrderMode;
+      artist_gap?: number;
+      seed?: number;
+      dedupe?: boolean;
+    };
+    const userToken = req.spotifyToken;
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({
+        error: 'Playlist name is required',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
+
+    if (!Array.isArray(playlist_urls) || !Array.isArray(track_ids)) {
+      return res.status(400).json({
+        error: 'playlist_urls and track_ids must be arrays',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (playlist_urls.length === 0 && track_ids.length === 0) {
+      return res.status(400).json({
+        error: 'At least one playlist URL or track ID is required',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
+
+    if (!MERGE_ORDER_MODES.includes(order)) {
+      return res.status(400).json({
+        error: `Invalid order. Must be one of: ${MERGE_ORDER_MODES.join(', ')}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const playlistIds = playlist_urls.map(url => extractSpotifyId(url));
+    const invalidUrls = playlist_urls.filter((_, index) => !playlistIds[index]);
+    if (invalidUrls.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid Spotify playlist URL',
+        code: ErrorCodes.INVALID_INPUT,
+        details: { invalidUrls }
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const toMergeTrack = (track: any, sourceIndex: number, position: number): MergeTrack => ({
+      id: track.id,
+      uri: track.uri || `spotify:track:${track.id}`,
+      name: track.name || 'Unknown',
+      artists: (track.artists || []).map((a: any) => ({ id: a.id, name: a.name })),
+      isrc: track.external_ids?.isrc || null,
+      durationMs: track.duration_ms,
+      sourceIndex,
+      position,
+    });
+
+    // Collect tracks from every source playlist
+    const collected: MergeTrack[] = [];
+    for (let sourceIndex = 0; sourceIndex < playlistIds.length; sourceIndex++) {
+      const items = await fetchAllPlaylistTracks(spotifyApi, playlistIds[sourceIndex]!);
+      items
+        .map((item: any) => item.track)
+        .filter((t: any) => t && t.id && t.type !== 'episode')
+        .forEach((t: any, position: number) => collected.push(toMergeTrack(t, sourceIndex, position)));
+    }
+
+    // Individual tracks form the last source; fetch details for dedupe/ordering
+    const extraTrackIds = track_ids
+      .map(value => toTrackUri(value)?.replace('spotify:track:', ''))
+      .filter((id): id is string => typeof id === 'string');
+    // getTracks accepts at most 50 IDs per request
+    for (let i = 0; i < extraTrackIds.length; i += 50) {
+      const response = await spotifyApi.getTracks(extraTrackIds.slice(i, i + 50));
+      (response.body.tracks || [])
+        .filter((t: any) => t && t.id)
+        .forEach((t: any, index: number) => collected.push(toMergeTrack(t, playlistIds.length, i + index)));
+    }
+
+    const { tracks: uniqueTracks, duplicates } = dedupe
+      ? dedupeMergeTracks(collected)
+      : { tracks: collected, duplicates: [] };
+
+    if (uniqueTracks.length === 0) {
+      return res.status(400).json({
+        error: 'No valid tracks found in the given sources',
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    if (uniqueTracks.length > DATABASE_LIMITS.MAX_TRACKS_PER_PLAYLIST) {
+      return res.status(400).json({
+        error: `Merged playlist would have ${uniqueTracks.length} tracks; the maximum is ${DATABASE_LIMITS.MAX_TRACKS_PER_PLAYLIST}`,
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    if (order === 'energy') {
+      try {
+        const featuresMap = await fetchTrackAudioFeatures(spotifyApi, uniqueTracks);
+        uniqueTracks.forEach(track => {
+          track.energy = featuresMap.get(track.id)?.energy ?? null;
+        });
+      } catch (featuresError) {
+        // Fall back to source order for tracks without features
+        console.warn('Failed to fetch audio features for energy ordering:', featuresError);
+      }
+    }
+
+    const orderedTracks = orderMergeTracks(uniqueTracks, order, { artistGap: artist_gap, seed });
+
+    const playlistResponse = await spotifyApi.createPlaylist(name, {
+      public: false,
+      description: description,
+    });
+    const playlist = playlistResponse.body;
+
+    const trackCount = await addTracksToPlaylistInBatches(
+      spotifyApi,
+      playlist.id,
+      orderedTracks.map(t => t.uri)
+    );
+
+    res.json({
+      id: playlist.id,
+      name: playlist.name,
+      url: playlist.external_urls.spotify,
+      trackCount,
+      order,
+      sources: {
+        playlists: playlistIds.length,
+        tracks: extraTrackIds.length,
+        collected: collected.length,
+      },
+      duplicatesRemoved: duplicates.length,
+      duplicates,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/playlists/:id/sequence
+ * Reorder a playlist for smooth transitions (key, tempo, energy), optionally following an energy arc
+ * Body: arc ('none' | 'warm_up' | 'peak' | 'cool_down'), arc_weight (0-2), dry_run (default true)
+ * With dry_run false the new order is applied on Spotify through the reorder API, one move
+ * per call; if a call fails after some moves went through, the response has applied false,
+ * movesApplied, the playlist's current snapshotId and the error (applyError)
+ */
+app.post('/api/playlists/:id/sequence', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const {
+      arc = 'none',
+      arc_weight = SEQUENCE_OPTIMIZER.DEFAULT_ARC_WEIGHT,
+      dry_run = true,
+    } = req.body as { arc?: EnergyArc; arc_weight?: number; dry_run?: boolean };
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required. Please connect your Spotify account.',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
+    const playlistId = extractSpotifyId(req.params.id) || req.params.id;
+    if (!/^[a-zA-Z0-9]+$/.test(playlistId)) {
+      return res.status(400).json({
+        error: 'Invalid playlist ID or URL',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (!ENERGY_ARCS.includes(arc)) {
+      return res.status(400).json({
+        error: `Invalid arc. Use one of: ${ENERGY_ARCS.join(', ')}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const arcWeight = Number(arc_weight);
+    if (!Number.isFinite(arcWeight) || arcWeight < 0 || arcWeight > 2) {
+      return res.status(400).json({
+        error: 'arc_weight must be a number between 0 and 2',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    // Only an explicit false applies the new order
+    const dryRun = dry_run !== false;
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const playlist = await spotifyApi.getPlaylist(playlistId);
+    const items = await fetchAllPlaylistTracks(spotifyApi, playlistId);
+
+    if (items.length > SEQUENCE_OPTIMIZER.MAX_TRACKS) {
+      return res.status(400).json({
+        error: `Sequencing supports playlists of up to ${SEQUENCE_OPTIMIZER.MAX_TRACKS} tracks`,
+        code: ErrorCodes.VALIDATION_ERROR,
+        details: { trackCount: items.length, maxTracks: SEQUENCE_OPTIMIZER.MAX_TRACKS }
+      });
+    }
+
+    const trackIds = items
+      .map((item: any) => item.track?.id)
+      .filter((id: any): id is string => typeof id === 'string' && id.length > 0);
+
+    if (trackIds.length < 2) {
+      return res.status(400).json({
+        error: 'Playlist needs at least 2 tracks to sequence',
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    const audioFeaturesMap = await fetchTrackAudioFeatures(
+      spotifyApi,
+      items.map((item: any) => item.track).filter((t: any) => t?.id)
+    );
+
+    // Every playlist position takes part so the reorder indexes line up;
+    // local files and tracks without features stay at the end
+    const positioned = items.map((item: any, position: number) => ({
+      position,
+      id: item.track?.id || `position-${position}`,
+      name: item.track?.name || 'Unknown',
+      artist: item.track?.artists?.[0]?.name || 'Unknown',
+      features: (item.track?.id && audioFeaturesMap.get(item.track.id)) || null,
+    }));
+
+    const before = analyzeTransitions(positioned);
+    const { order, arcFit } = optimizeSequence(positioned, arc, arcWeight);
+    const after = analyzeTransitions(order);
+
+    const moves = planReorderMoves(
+      positioned.map(t => t.position),
+      order.map(t => t.position)
+    );
+
+    let snapshotId: string = playlist.body.snapshot_id;
+    let applied = false;
+    let movesApplied = 0;
+    let applyError: ReturnType<typeof describeSpotifyError>['body'] | null = null;
+    if (!dryRun && moves.length > 0) {
+      // Each move shifts positions, so moves run in sequence against the latest snapshot
+      for (const move of moves) {
+        try {
+          const response = await spotifyApi.reorderTracksInPlaylist(
+            playlistId,
+            move.rangeStart,
+            move.insertBefore,
+            { range_length: 1, snapshot_id: snapshotId }
+          );
+          snapshotId = response.body.snapshot_id;
+          movesApplied++;
+        } catch (error) {
+          // Nothing changed yet: fail like any other Spotify error
+          if (movesApplied === 0) throw error;
+          // Partly reordered: report how far it got (e.g. rate limited, or edited elsewhere)
+          console.error(`Sequence apply stopped after ${movesApplied} of ${moves.length} moves:`, error);
+          applyError = describeSpotifyError(error).body;
+          break;
+        }
+      }
+      applied = applyError === null;
+    }
+
+    const describe = (report: ReturnType<typeof analyzeTransitions>, fit: number | null) => ({
+      transitionScore: report.transitionScore,
+      mixability: report.mixability,
+      harmonicMatchRate: report.harmonicMatchRate,
+      averageBpmJump: report.averageBpmJump,
+      averageEnergyJump: report.averageEnergyJump,
+      arcFit: fit,
+    });
+
+    res.json({
+      playlistId,
+      name: playlist.body.name,
+      arc,
+      dryRun,
+      applied,
+      movesApplied,
+      applyError,
+      snapshotId,
+      trackCount: items.length,
+      moves: moves.length,
+      before: describe(before, arcFitScore(positioned.filter(t => t.features), arc)),
+      after: describe(after, arcFit),
+      improvement: before.transitionScore !== null && after.transitionScore !== null
+        ? after.transitionScore - before.transitionScore
+        : null,
+      order: order.map((track, position) => ({
+        position,
+        originalPosition: track.position,
+        id: track.id,
+        name: track.name,
+        artist: track.artist,
+        energy: typeof track.features?.energy === 'number' ? Math.round(track.features.energy * 100) : null,
+        bpm: typeof track.features?.tempo === 'number' ? Math.round(track.features.tempo) : null,
+        camelot: toCamelot(track.features?.key, track.features?.mode),
+      })),
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/playlists/:id/dedupe
+ * Remove duplicate tracks (same track, same recording, remasters, alternate versions)
+ * Body: dry_run (default true), remove ([{ id, position }] chosen from the analysis clusters),
+ * include_alternate_versions (default false, only used when remove is omitted)
+ * Without remove, every high-confidence duplicate is removed and the preferred version kept
+ */
+app.post('/api/playlists/:id/dedupe', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const {
+      dry_run = true,
+      remove,
+      include_alternate_versions = false,
+    } = req.body as {
+      dry_run?: boolean;
+      remove?: { id?: string; position?: number }[];
+      include_alternate_versions?: boolean;
+    };
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required. Please connect your Spotify account.',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
+    const playlistId = extractSpotifyId(req.params.id) || req.params.id;
+    if (!/^[a-zA-Z0-9]+$/.test(playlistId)) {
+      return res.status(400).json({
+        error: 'Invalid playlist ID or URL',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (remove !== undefined && (!Array.isArray(remove) || remove.length === 0)) {
+      return res.status(400).json({
+        error: 'remove must be a non-empty array of { id, position }',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    // Only an explicit false applies the removal
+    const dryRun = dry_run !== false;
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const playlist = await spotifyApi.getPlaylist(playlistId);
+    const items = await fetchAllPlaylistTracks(spotifyApi, playlistId);
+    const report = detectDuplicates(toDuplicateInputTracks(items));
+
+    let selected: { id: string; position: number; reason: string | null }[];
+    if (remove) {
+      // Chosen entries must still match the playlist, otherwise it changed since the analysis
+      const mismatched = remove.filter(entry =>
+        typeof entry?.position !== 'number' || items[entry.position]?.track?.id !== entry.id
+      );
+      if (mismatched.length > 0) {
+        return res.status(409).json({
+          error: 'Some tracks to remove are no longer at the given positions. Re-run the analysis and try again.',
+          code: ErrorCodes.VALIDATION_ERROR,
+          details: { mismatched }
+        });
+      }
+
+      const reasons = new Map(
+        report.clusters.flatMap(cluster => cluster.duplicates).map(d => [d.position, d.reason] as const)
+      );
+      selected = remove.map(entry => ({
+        id: entry.id as string,
+        position: entry.position as number,
+        reason: reasons.get(entry.position as number) || null,
+      }));
+    } else {
+      selected = report.clusters
+        .flatMap(cluster => cluster.duplicates)
+        .filter(d => d.confidence === 'high' || include_alternate_versions === true)
+        .map(d => ({ id: d.id, position: d.position, reason: d.reason }));
+    }
+
+    const plan = planDuplicateRemoval(
+      items.map((item: any) => (item?.is_local ? null : item?.track?.uri || null)),
+      new Set(selected.map(entry => entry.position))
+    );
+
+    let snapshotId: string = playlist.body.snapshot_id;
+    let applied = false;
+    if (!dryRun && plan.removeUris.length > 0) {
+      for (let i = 0; i < plan.removeUris.length; i += BATCH_SIZES.SPOTIFY_TRACKS) {
+        const response = await spotifyApi.removeTracksFromPlaylist(
+          playlistId,
+          plan.removeUris.slice(i, i + BATCH_SIZES.SPOTIFY_TRACKS).map(uri => ({ uri })),
+          { snapshot_id: snapshotId }
+        );
+        snapshotId = response.body.snapshot_id;
+      }
+      // Ascending order keeps each final index valid at the time it is inserted
+      for (const entry of plan.reinsert) {
+        const response = await spotifyApi.addTracksToPlaylist(playlistId, [entry.uri], { position: entry.position });
+        snapshotId = response.body.snapshot_id;
+      }
+      applied = true;
+    }
+
+    const byPosition = new Map(selected.map(entry => [entry.position, entry]));
+    res.json({
+      playlistId,
+      name: playlist.body.name,
+      dryRun,
+      applied,
+      snapshotId,
+      trackCount: {
+        before: items.length,
+        after: items.length - plan.removedPositions.length,
+      },
+      removed: plan.removedPositions.map(position => ({
+        position,
+        id: byPosition.get(position)?.id,
+        name: items[position]?.track?.name || 'Unknown',
+        artist: items[position]?.track?.artists?.[0]?.name || 'Unknown',
+        reason: byPosition.get(position)?.reason || null,
+      })),
+      duplicates: report,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/playlists/save
+ * Save a playlist to user's collection
+ */
+app.post('/api/playlists/save', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
+  try {
+    const { url, name, description, coverUrl } = req.body as {
+      url?: string;
+      name?: string;
+      description?: string;
+      coverUrl?: string;
+    };
+    const userId = req.userId;
+    const userToken = req.spotifyToken;
+    
+    if (!userId) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+    
+    if (!url) {
+      return res.status(400).json({ 
+        error: 'Playlist URL is required' 
+      });
+    }
+    
+    // Extract playlist ID and fetch details if needed
+    const playlistId = extractSpotifyId(url);
+    if (!playlistId) {
+      return res.status(400).json({ 
+        error: 'Invalid playlist URL' 
+      });
+    }
+    
+    let playlistName = name;
+    let playlistOwner = 'Unknown';
+    let playlistCoverUrl = coverUrl || null;
+    let trackCount = 0;
+    
+    // Fetch playlist details from Spotify if token available
+    if (userToken) {
+      try {
+        const spotifyApi = createSpotifyApi(userToken);
+        const playlist = await spotifyApi.getPlaylist(playlistId);
+        playlistName = playlistName || playlist.body.name;
+        playlistOwner = playlist.body.owner?.display_name || 'Unknown';
+        playlistCoverUrl = playlistCoverUrl || playlist.body.images?.[0]?.url || null;
+        trackCount = playlist.body.tracks?.total || 0;
+      } catch (spotifyError) {
+        // If Spotify fetch fails, use provided data or defaults
+        console.warn('Failed to fetch playlist from Spotify, using provided data');
+      }
+    }
+    
+    if (!playlistName) {
+      return res.status(400).json({ 
+        error: 'Playlist name is required' 
+      });
+    }
+    
+    // Ensure user profile exists
+    await ensureUserProfile(userId);
+    
+    // Save playlist to database
+    const dbPlaylistId = await savePlaylistToDatabase(
+      userId,
+      playlistId,
+      url,
+      playlistName,
+      playlistOwner,
+      playlistCoverUrl,
+      trackCount
+    );
+    
+    if (!dbPlaylistId) {
+      return res.status(500).json({ 
+        error: 'Failed to save playlist',
+        code: 'SAVE_ERROR'
+      });
+    }
+    
+    res.json({
+      id: dbPlaylistId,
+      message: 'Playlist saved successfully',
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Save playlist endpoint error:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/playlists/:id/analyses/diff
+ * Compare two analyses of a saved playlist: added/removed tracks, Audio DNA deltas,
+ * genre shifts and the health score over time
+ * Query: from?, to? (analysis IDs; default to the two most recent analyses)
+ */
+app.get('/api/playlists/:id/analyses/diff', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+    const fromId = req.query.from as string | undefined;
+    const toId = req.query.to as string | undefined;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    if ([fromId, toId].some(value => value !== undefined && !UUID_PATTERN.test(value))) {
+      return res.status(400).json({
+        error: 'from and to must be analysis IDs',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (fromId && fromId === toId) {
+      return res.status(400).json({
+        error: 'from and to must be different analyses',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const { data: playlist, error: playlistError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('playlists')
+          .select('id, name, owner, cover_url, url, spotify_id, source_type')
+          .eq('id', id)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (playlistError) {
+      console.error('Database error:', playlistError);
+      return res.status(500).json({
+        error: 'Failed to fetch playlist',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    if (!playlist) {
+      return res.status(404).json({
+        error: 'Playlist not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const { data: analyses, error: analysesError } = await supabase
+      .from('analyses')
+      .select(DIFFABLE_ANALYSIS_COLUMNS)
+      .eq('playlist_id', playlist.id)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .limit(DATABASE_LIMITS.MAX_ANALYSES_PER_USER);
+
+    if (analysesError) {
+      console.error('Database error:', analysesError);
+      return res.status(500).json({
+        error: 'Failed to fetch analyses',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    // Without `from`, compare against the analysis just before `to` (default: the latest)
+    const rows = analyses || [];
+    const indexOf = (analysisId: string) => rows.findIndex(a => a.id === analysisId);
+    const toIndex = toId ? indexOf(toId) : rows.length - 1;
+    const fromIndex = fromId ? indexOf(fromId) : toIndex - 1;
+
+    if ((toId && toIndex < 0) || (fromId && fromIndex < 0)) {
+      return res.status(404).json({
+        error: 'Analysis not found for this playlist',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) {
+      return res.status(404).json({
+        error: rows.length < 2
+          ? 'This playlist needs at least two analyses to compare'
+          : 'No other analysis to compare against',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const [first, last] = fromIndex < toIndex ? [fromIndex, toIndex] : [toIndex, fromIndex];
+    // Track lists are only needed for the two analyses being compared
+    const snapshots = await fetchAnalysisSnapshots([rows[fromIndex].id, rows[toIndex].id]);
+    const toDiffable = (row: any) => toDiffableAnalysis(row, snapshots.get(row.id));
+
+    const diff = diffAnalyses(
+      toDiffable(rows[fromIndex]),
+      toDiffable(rows[toIndex]),
+      rows.slice(first, last + 1).map(toDiffable)
+    );
+
+    res.json({
+      playlist: {
+        id: playlist.id,
+        name: playlist.name,
+        owner: playlist.owner,
+        coverUrl: playlist.cover_url,
+        url: playlist.url,
+        spotifyId: playlist.spotify_id,
+        sourceType: playlist.source_type,
+      },
+      analysisCount: rows.length,
+      ...diff,
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Analysis diff endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * DELETE /api/playlists/:id
+ * Delete a playlist (if user owns it)
+ */
+app.delete('/api/playlists/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+    
+    if (!userId) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+    
+    // Delete from database (RLS will ensure user can only delete their own playlists)
+    if (!supabase) {
+      return res.status(503).json({ 
+        error: 'Database not configured',
+        code: 'DB_NOT_CONFIGURED'
+      });
+    }
+    
+    const { error } = await supabase
+      .from('playlists')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+    
+    if (error) {
+      return res.status(500).json({ 
+        error: 'Failed to delete playlist',
+        code: 'DELETE_ERROR'
+      });
+    }
+    
+    res.json({ success: true, message: 'Playlist deleted successfully' });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/history
+ * Get user's analysis and battle history (newest first)
+ * Query: type? ('analysis' | 'battle'), from? / to? (ISO dates, inclusive),
+ *        playlist_id? (saved playlist UUID or Spotify playlist ID/URL), page, limit
+ * Pagination metadata is returned in X-Total-Count / X-Page / X-Per-Page / X-Total-Pages / X-Has-More / X-Has-Previous headers
+ */
+app.get('/api/history', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const type = req.query.type as string | undefined;
+    const playlistFilter = req.query.playlist_id as string | undefined;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    if (type !== undefined && !HISTORY_TYPES.includes(type)) {
+      return res.status(400).json({
+        error: `type must be one of: ${HISTORY_TYPES.join(', ')}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const dateRange = parseDateRange(req.query.from, req.query.to);
+    if ('error' in dateRange) {
+      return res.status(400).json({
+        error: dateRange.error,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const { page, limit, from, to } = parsePaginationParams(req.query);
+
+    // A playlist can be saved more than once per user (e.g. by URL variants), so match all rows
+    let playlistIds: string[] | null = null;
+    if (playlistFilter) {
+      if (UUID_PATTERN.test(playlistFilter)) {
+        playlistIds = [playlistFilter];
+      } else {
+        const spotifyId = extractSpotifyId(playlistFilter) || playlistFilter.trim();
+        const { data: playlists, error: playlistError } = await supabase
+          .from('playlists')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('spotify_id', spotifyId);
+
+        if (playlistError) {
+          console.error('Database error:', playlistError);
+          return res.status(500).json({
+            error: 'Failed to fetch history',
+            code: ErrorCodes.DATABASE_ERROR
+          });
+        }
+        playlistIds = (playlists || []).map(p => p.id);
+      }
+    }
+
+    if (playlistIds && playlistIds.length === 0) {
+      setPaginationHeaders(res, createPaginationMeta(page, limit, 0));
+      return res.json([]);
+    }
+
+    let query = supabase
+      .from('history')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (type) query = query.eq('type', type);
+    if (dateRange.from) query = query.gte('created_at', dateRange.from);
+    if (dateRange.to) query = query.lte('created_at', dateRange.to);
+    if (playlistIds) query = query.overlaps('playlist_ids', playlistIds);
+
+    const { data: history, error: dbError, count } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to);
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch history',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    setPaginationHeaders(res, createPaginationMeta(page, limit, count || 0));
+    res.json(history || []);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('History endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * GET /api/analyses/:id
+ * Get one of the user's analyses, with its saved playlist as `playlist`
+ */
+app.get('/api/analyses/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    const analysis = UUID_PATTERN.test(id) ? await fetchAnalysisWithPlaylist(id, userId) : null;
+    if (!analysis) {
+      return res.status(404).json({
+        error: 'Analysis not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    res.json(analysis);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Get analysis endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * DELETE /api/analyses/:id
+ * Delete one of the user's analyses (its share links go with it)
+ */
+app.delete('/api/analyses/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  await deleteHistoryItem('analyses', 'Analysis', req, res);
+});
+
+/**
+ * GET /api/battles/:id
+ * Get one of the user's battles, with its saved playlists as `playlist1` / `playlist2`
+ */
+app.get('/api/battles/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    const { data: battle, error: dbError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('battles')
+          .select('*')
+          .eq('id', id)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch battle',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    if (!battle) {
+      return res.status(404).json({
+        error: 'Battle not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const playlistIds = [battle.playlist1_id, battle.playlist2_id].filter(Boolean);
+    const { data: playlists, error: playlistError } = playlistIds.length > 0
+      ? await supabase.from('playlists').select('*').in('id', playlistIds)
+      : { data: [], error: null };
+
+    if (playlistError) {
+      console.error('Database error:', playlistError);
+      return res.status(500).json({
+        error: 'Failed to fetch battle',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    const playlistById = new Map((playlists || []).map((p: any) => [p.id, p]));
+    res.json({
+      ...battle,
+      playlist1: playlistById.get(battle.playlist1_id) || null,
+      playlist2: playlistById.get(battle.playlist2_id) || null,
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Get battle endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * DELETE /api/battles/:id
+ * Delete one of the user's battles (its share links go with it)
+ */
+app.delete('/api/battles/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  await deleteHistoryItem('battles', 'Battle', req, res);
+});
+
+/**
+ * Bridge candidates from both sides of a battle; tracks on both playlists are marked 'both'
+ * Tracks without audio features can't be placed and are left out
+ */
+function bridgeCandidates(contender1: BattleContender, contender2: BattleContender): BridgeCandidate[] {
+  const candidates = new Map<string, BridgeCandidate>();
+  ([[contender1, 'playlist1'], [contender2, 'playlist2']] as const).forEach(([contender, source]) => {
+    const featuresById = new Map(contender.features.map(f => [f.id, f]));
+    contender.items
+      .map((item: any) => item.track)
+      .filter((t: any) => t && t.id && t.type !== 'episode')
+      .forEach((t: any) => {
+        const features = featuresById.get(t.id);
+        if (!features) return;
+        const existing = candidates.get(t.id);
+        if (existing) {
+          if (existing.source !== source) existing.source = 'both';
+          return;
+        }
+        candidates.set(t.id, {
+          id: t.id,
+          uri: t.uri || `spotify:track:${t.id}`,
+          name: t.name || 'Unknown',
+          artists: (t.artists || []).map((a: any) => ({ id: a.id, name: a.name })),
+          features,
+          source,
+        });
+      });
+  });
+  return Array.from(candidates.values());
+}
+
+/**
+ * Recommendation seeds: shared artists first, then each side's most featured artists in turn
+ */
+function bridgeSeedArtists(sharedArtistIds: string[], contender1: BattleContender, contender2: BattleContender): string[] {
+  const topArtists = (contender: BattleContender) => {
+    const counts = new Map<string, number>();
+    contender.items.forEach((item: any) => {
+      const artistId = item.track?.artists?.[0]?.id;
+      if (artistId) counts.set(artistId, (counts.get(artistId) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+  };
+
+  const seeds = new Set(sharedArtistIds.slice(0, RECOMMENDATION_LIMITS.SEED_ARTISTS_MAX));
+  const top1 = topArtists(contender1);
+  const top2 = topArtists(contender2);
+  for (let i = 0; seeds.size < RECOMMENDATION_LIMITS.SEED_ARTISTS_MAX && (i < top1.length || i < top2.length); i++) {
+    [top1[i], top2[i]].forEach(id => {
+      if (id && seeds.size < RECOMMENDATION_LIMITS.SEED_ARTISTS_MAX) seeds.add(id);
+    });
+  }
+  return Array.from(seeds);
+}
+
+/**
+ * Spotify recommendations aimed at the mid-point between the two sides
+ * Best effort: the recommendations endpoint is restricted for some apps, so a failure
+ * leaves the bridge to the source playlists' tracks
+ */
+async function fetchBridgeRecommendations(
+  spotifyApi: SpotifyWebApi,
+  seedArtists: string[],
+  target: AudioAverages,
+  exclude: Set<string>,
+  genres: Map<string, string[]>
+): Promise<BridgeCandidate[]> {
+  if (seedArtists.length === 0) return [];
+
+  try {
+    const response = await spotifyApi.getRecommendations({
+      seed_artists: seedArtists,
+      limit: RECOMMENDATION_LIMITS.RESULTS_MAX,
+      target_energy: target.energy,
+      target_danceability: target.danceability,
+      target_valence: target.valence,
+      target_acousticness: target.acousticness,
+      target_instrumentalness: target.instrumentalness,
+      target_tempo: target.tempo,
+    });
+    const tracks = (response.body.tracks || []).filter((t: any) => t && t.id && !exclude.has(t.id));
+    if (tracks.length === 0) return [];
+
+    // Genres of new artists let the local fallback estimate their features
+    const newArtistIds = Array.from(new Set<string>(
+      tracks.flatMap((t: any) => (t.artists || []).map((a: any) => a.id)).filter((id: any) => id && !genres.has(id))
+    ));
+    const artists = await fetchArtistsMap(spotifyApi, newArtistIds);
+    artists.forEach((artist, artistId) => {
+      if (Array.isArray(artist.genres)) genres.set(artistId, artist.genres);
+    });
+
+    const featuresMap = await fetchAudioFeaturesMap(
+      spotifyApi,
+      toAudioFeaturesRequests(tracks.map((track: any) => ({ track })), genres)
+    );
+    return tracks.flatMap((t: any): BridgeCandidate[] => {
+      const features = featuresMap.get(t.id);
+      return features ? [{
+        id: t.id,
+        uri: t.uri || `spotify:track:${t.id}`,
+        name: t.name || 'Unknown',
+        artists: (t.artists || []).map((a: any) => ({ id: a.id, name: a.name })),
+        features,
+        source: 'recommendation',
+      }] : [];
+    });
+  } catch (error) {
+    console.warn('Bridge recommendations unavailable:', error);
+    return [];
+  }
+}
+
+/**
+ * POST /api/battles/:id/bridge
+ * Build a bridge playlist for one of the user's battles: tracks between the two playlists'
+ * audio centroids (from both playlists and Spotify recommendations), ordered so the sound
+ * moves gradually from playlist 1's style to playlist 2's
+ * Body: { length?: number (5-100, default 30), include_recommendations?: boolean (default true),
+ *         save?: boolean (default false), name?: string, public?: boolean }
+ * With save true the bridge is created as a Spotify playlist
+ */
+app.post('/api/battles/:id/bridge', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
+  try {
+    const userId = req.userId;
+    const userToken = req.spotifyToken;
+    const { id } = req.params;
+    const {
+      length = BRIDGE_PLAYLIST.DEFAULT_LENGTH,
+      include_recommendations = true,
+      save = false,
+      name,
+      public: isPublic = false,
+    } = req.body as {
+      length?: number;
+      include_recommendations?: boolean;
+      save?: boolean;
+      name?: string;
+      public?: boolean;
+    };
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
+      });
+    }
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify access token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
+
+    if (!Number.isInteger(length) || length < BRIDGE_PLAYLIST.MIN_LENGTH || length > BRIDGE_PLAYLIST.MAX_LENGTH) {
+      return res.status(400).json({
+        error: `length must be an integer between ${BRIDGE_PLAYLIST.MIN_LENGTH} and ${BRIDGE_PLAYLIST.MAX_LENGTH}`,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({
+        error: 'name must be a non-empty string',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const { data: battle, error: dbError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('battles')
+          .select('id, playlist1_id, playlist2_id, compatibility_score')
+          .eq('id', id)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch battle',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    if (!battle) {
+      return res.status(404).json({
+        error: 'Battle not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const { data: playlists, error: playlistError } = await supabase
+      .from('playlists')
+      .select('id, spotify_id, url')
+      .in('id', [battle.playlist1_id, battle.playlist2_id].filter(Boolean));
+
+    if (playlistError) {
+      console.error('Database error:', playlistError);
+      return res.status(500).json({
+        error: 'Failed to fetch battle playlists',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    const playlistById = new Map((playlists || []).map((p: any) => [p.id, p]));
+    const playlist1 = playlistById.get(battle.playlist1_id);
+    const playlist2 = playlistById.get(battle.playlist2_id);
+    if (!playlist1?.spotify_id || !playlist2?.spotify_id) {
+      return res.status(410).json({
+        error: 'The playlists of this battle are no longer available',
+        code: ErrorCodes.RESOURCE_DELETED
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const { contenders: [contender1, contender2], genres } = await fetchBattleContenders(spotifyApi, [
+      { spotifyId: playlist1.spotify_id, url: playlist1.url },
+      { spotifyId: playlist2.spotify_id, url: playlist2.url },
+    ]);
+
+    if (contender1.features.length === 0 || contender2.features.length === 0) {
+      return res.status(400).json({
+        error: 'Both playlists need tracks with audio features to build a bridge',
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    const centroid1 = averageAudioFeatures(contender1.features);
+    const centroid2 = averageAudioFeatures(contender2.features);
+    const sharedArtistIds = Array.from(contender1.artistNames.keys()).filter(artistId => contender2.artistNames.has(artistId));
+
+    const candidates = bridgeCandidates(contender1, contender2);
+    const recommendations = include_recommendations
+      ? await fetchBridgeRecommendations(
+          spotifyApi,
+          bridgeSeedArtists(sharedArtistIds, contender1, contender2),
+          bridgeMidpoint(centroid1, centroid2),
+          new Set(candidates.map(c => c.id)),
+          genres
+        )
+      : [];
+
+    const tracks = planBridge([...candidates, ...recommendations], centroid1, centroid2, length, new Set(sharedArtistIds));
+
+    let savedPlaylist = null;
+    if (save) {
+      const playlistName = name?.trim() || `${contender1.playlist.name} → ${contender2.playlist.name}`;
+      const playlistResponse = await spotifyApi.createPlaylist(playlistName, {
+        public: isPublic === true,
+        description: `A bridge from ${contender1.playlist.name} to ${contender2.playlist.name}`,
+      });
+      const playlist = playlistResponse.body;
+      const trackCount = await addTracksToPlaylistInBatches(spotifyApi, playlist.id, tracks.map(t => t.uri));
+      savedPlaylist = {
+        id: playlist.id,
+        name: playlist.name,
+        url: playlist.external_urls.spotify,
+        trackCount,
+      };
+    }
+
+    const countSource = (source: BridgeSource) => tracks.filter(t => t.source === source).length;
+    res.json({
+      battleId: battle.id,
+      compatibilityScore: battle.compatibility_score,
+      from: { name: contender1.playlist.name, centroid: centroid1 },
+      to: { name: contender2.playlist.name, centroid: centroid2 },
+      sharedArtists: sharedArtistIds.map(artistId => contender1.artistNames.get(artistId)),
+      tracks,
+      sources: {
+        playlist1: countSource('playlist1'),
+        playlist2: countSource('playlist2'),
+        both: countSource('both'),
+        recommendations: countSource('recommendation'),
+        candidates: candidates.length + recommendations.length,
+      },
+      playlist: savedPlaylist,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/user/top-tracks
+ * Get user's top tracks (short-term, medium-term, or long-term)
+ */
+app.get('/api/user/top-tracks', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const timeRange = (req.query.time_range as string) || 'medium_term'; // short_term, medium_term, long_term
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Validate time_range
+    if (!['short_term', 'medium_term', 'long_term'].includes(timeRange)) {
+      return res.status(400).json({
+        error: 'Invalid time_range. Must be short_term, medium_term, or long_term',
+        code: 'INVALID_TIME_RANGE'
+      });
+    }
+
+    const response = await spotifyApi.getMyTopTracks({
+      time_range: timeRange as 'short_term' | 'medium_term' | 'long_term',
+      limit: 50
+    });
+
+    const tracks = (response.body.items || []).map((track: any) => ({
+      id: track.id,
+      name: track.name,
+      artists: track.artists.map((a: any) => ({ id: a.id, name: a.name })),
+      album: {
+        id: track.album.id,
+        name: track.album.name,
+        images: track.album.images,
+      },
+      duration_ms: track.duration_ms,
+      popularity: track.popularity,
+      preview_url: track.preview_url,
+      external_urls: track.external_urls,
+    }));
+
+    res.json({
+      time_range: timeRange,
+      tracks,
+      total: response.body.total || tracks.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/user/top-artists
+ * Get user's top artists (short-term, medium-term, or long-term)
+ */
+app.get('/api/user/top-artists', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const timeRange = (req.query.time_range as string) || 'medium_term';
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    if (!['short_term', 'medium_term', 'long_term'].includes(timeRange)) {
+      return res.status(400).json({
+        error: 'Invalid time_range. Must be short_term, medium_term, or long_term',
+        code: 'INVALID_TIME_RANGE'
+      });
+    }
+
+    const response = await spotifyApi.getMyTopArtists({
+      time_range: timeRange as 'short_term' | 'medium_term' | 'long_term',
+      limit: 50
+    });
+
+    const artists = (response.body.items || []).map((artist: any) => ({
+      id: artist.id,
+      name: artist.name,
+      genres: artist.genres || [],
+      images: artist.images || [],
+      popularity: artist.popularity,
+      external_urls: artist.external_urls,
+    }));
+
+    res.json({
+      time_range: timeRange,
+      artists,
+      total: response.body.total || artists.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/user/recently-played
+ * Get user's recently played tracks
+ */
+app.get('/api/user/recently-played', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const limit = parseInt(req.query.limit as string) || 50;
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    const response = await spotifyApi.getMyRecentlyPlayedTracks({
+      limit: Math.min(limit, 50) // Spotify API max is 50
+    });
+
+    const tracks = (response.body.items || [])
+      .filter((item: any) => item.track && item.track.id)
+      .map((item: any) => ({
+        track: {
+          id: item.track.id,
+          name: item.track.name || 'Unknown',
+          artists: (item.track.artists || []).map((a: any) => ({ id: a.id || '', name: a.name || 'Unknown' })),
+          album: {
+            id: item.track.album?.id || '',
+            name: item.track.album?.name || 'Unknown',
+            images: item.track.album?.images || [],
+          },
+          duration_ms: item.track.duration_ms || 0,
+          popularity: item.track.popularity || 0,
+          preview_url: item.track.preview_url || null,
+          external_urls: item.track.external_urls || {},
+        },
+        played_at: item.played_at || null,
+      }));
+
+    res.json({
+      tracks,
+      total: tracks.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/user/saved-tracks
+ * Get user's saved/liked tracks
+ */
+app.get('/api/user/saved-tracks', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Fetch all saved tracks (handle pagination)
+    const allTracks: any[] = [];
+    let currentOffset = offset;
+    const pageLimit = Math.min(limit, 50); // Spotify API max is 50 per request
+    
+    while (allTracks.length < limit) {
+      const response = await spotifyApi.getMySavedTracks({
+        limit: pageLimit,
+        offset: currentOffset
+      });
+      
+      const items = response.body.items || [];
+      if (items.length === 0) break;
+      
+      allTracks.push(...items);
+      currentOffset += items.length;
+      
+      if (items.length < pageLimit) break;
+    }
+
+    const tracks = allTracks.slice(0, limit).map((item: any) => ({
+      added_at: item.added_at,
+      track: {
+        id: item.track.id,
+        name: item.track.name,
+        artists: item.track.artists.map((a: any) => ({ id: a.id, name: a.name })),
+        album: {
+          id: item.track.album.id,
+          name: item.track.album.name,
+          images: item.track.album.images,
+        },
+        duration_ms: item.track.duration_ms,
+        popularity: item.track.popularity,
+        preview_url: item.track.preview_url,
+        external_urls: item.track.external_urls,
+      },
+    }));
+
+    res.json({
+      tracks,
+      total: tracks.length,
+      offset,
+      limit,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/user/saved-albums
+ * Get user's saved albums
+ */
+app.get('/api/user/saved-albums', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const offset = parseInt(req.query.offset as string) || 0;
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Fetch all saved albums (handle pagination)
+    const allAlbums: any[] = [];
+    let currentOffset = offset;
+    const pageLimit = Math.min(limit, 50);
+    
+    while (allAlbums.length < limit) {
+      const response = await spotifyApi.getMySavedAlbums({
+        limit: pageLimit,
+        offset: currentOffset
+      });
+      
+      const items = response.body.items || [];
+      if (items.length === 0) break;
+      
+      allAlbums.push(...items);
+      currentOffset += items.length;
+      
+      if (items.length < pageLimit) break;
+    }
+
+    const albums = allAlbums.slice(0, limit).map((item: any) => ({
+      added_at: item.added_at,
+      album: {
+        id: item.album.id,
+        name: item.album.name,
+        artists: item.album.artists.map((a: any) => ({ id: a.id, name: a.name })),
+        images: item.album.images || [],
+        release_date: item.album.release_date,
+        total_tracks: item.album.total_tracks,
+        external_urls: item.album.external_urls,
+      },
+    }));
+
+    res.json({
+      albums,
+      total: albums.length,
+      offset,
+      limit,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/profile/taste
+ * Get enhanced taste profile aggregating playlists, top tracks, top artists, and saved tracks
+ */
+app.get('/api/profile/taste', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const userId = req.userId;
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    if (!userId || !supabase) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+
+    // Fetch data from multiple sources in parallel
+    const [topTracksShort, topTracksMedium, topTracksLong, 
+           topArtistsShort, topArtistsMedium, topArtistsLong,
+           recentlyPlayed, savedTracksResponse] = await Promise.all([
+      spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopTracks({ time_range: 'long_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'short_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'long_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyRecentlyPlayedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMySavedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
+    ]);
+
+    // Get analyzed playlists from database
+    const { data: analyses } = await supabase
+      .from('analyses')
+      .select('audio_dna, genre_distribution, top_tracks, personality_type')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    // Aggregate genres from all sources (keyed by genreKey so casing never splits a genre)
+    const genreTotals = new Map<string, number>();
+    const artistMap: { [key: string]: number } = {};
+    const audioFeaturesList: any[] = [];
+
+    // Process top tracks
+    const processTracks = (tracks: any[], weight: number) => {
+      tracks.forEach((item: any) => {
+        const track = item.track || item;
+        if (track.artists) {
+          track.artists.forEach((artist: any) => {
+            const artistName = artist.name || artist;
+            artistMap[artistName] = (artistMap[artistName] || 0) + weight;
+          });
+        }
+      });
+    };
+
+    processTracks(topTracksShort.body.items || [], 3); // Short-term weighted higher
+    processTracks(topTracksMedium.body.items || [], 2);
+    processTracks(topTracksLong.body.items || [], 1);
+    processTracks((recentlyPlayed.body.items || []).map((i: any) => i.track), 2);
+    processTracks((savedTracksResponse.body.items || []).map((i: any) => i.track), 1.5);
+
+    // Process top artists
+    const processArtists = (artists: any[], weight: number) => {
+      artists.forEach((artist: any) => {
+        const artistName = artist.name;
+        artistMap[artistName] = (artistMap[artistName] || 0) + weight;
+        if (artist.genres) {
+          weightedGenreTotals([artist.genres], weight, genreTotals);
+        }
+      });
+    };
+
+    processArtists(topArtistsShort.body.items || [], 3);
+    processArtists(topArtistsMedium.body.items || [], 2);
+    processArtists(topArtistsLong.body.items || [], 1);
+
+    // Process analyses from database
+    if (analyses) {
+      analyses.forEach((analysis: any) => {
+        if (analysis.genre_distribution) {
+          analysis.genre_distribution.forEach((genre: any) => {
+            const key = genreKey(genre.name || genre);
+            if (key) genreTotals.set(key, (genreTotals.get(key) || 0) + (genre.value || 1));
+          });
+        }
+        if (analysis.audio_dna) {
+          audioFeaturesList.push(analysis.audio_dna);
+        }
+      });
+    }
+
+    // Calculate average audio features
+    const avgAudioFeatures = audioFeaturesList.length > 0
+      ? {
+          energy: audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length,
+          danceability: audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length,
+          valence: audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length,
+          acousticness: audioFeaturesList.reduce((sum, f) => sum + (f.acousticness || 0), 0) / audioFeaturesList.length,
+          instrumentalness: audioFeaturesList.reduce((sum, f) => sum + (f.instrumentalness || 0), 0) / audioFeaturesList.length,
+          tempo: audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length,
+        }
+      : null;
+
+    // Get top genres and artists
+    const genreSummary = summarizeGenres(genreTotals);
+    const topGenres = genreSummary.genres
+      .slice(0, 10)
+      .map(genre => ({ name: genre.name, value: genre.weight, parent: genre.parent, family: genre.family }));
+
+    const topArtists = Object.entries(artistMap)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 20)
+      .map(([name, value]) => ({ name, value }));
+
+    // Analyze listening evolution
+    const shortTermGenres = genreKeySet(
+      (topArtistsShort.body.items || []).flatMap((a: any) => a.genres || [])
+    );
+    const longTermGenres = genreKeySet(
+      (topArtistsLong.body.items || []).flatMap((a: any) => a.genres || [])
+    );
+    const newGenres = Array.from(shortTermGenres).filter(g => !longTermGenres.has(g)).map(genreDisplayName);
+    const evolvingGenres = Array.from(shortTermGenres).filter(g => longTermGenres.has(g)).map(genreDisplayName);
+
+    res.json({
+      topGenres,
+      topGenreFamilies: genreSummary.families,
+      topArtists,
+      audioFeatures: avgAudioFeatures,
+      listeningEvolution: {
+        newGenres,
+        evolvingGenres,
+        shortTermCount: topTracksShort.body.items?.length || 0,
+        mediumTermCount: topTracksMedium.body.items?.length || 0,
+        longTermCount: topTracksLong.body.items?.length || 0,
+      },
+      sources: {
+        topTracks: {
+          short: topTracksShort.body.items?.length || 0,
+          medium: topTracksMedium.body.items?.length || 0,
+          long: topTracksLong.body.items?.length || 0,
+        },
+        topArtists: {
+          short: topArtistsShort.body.items?.length || 0,
+          medium: topArtistsMedium.body.items?.length || 0,
+          long: topArtistsLong.body.items?.length || 0,
+        },
+        recentlyPlayed: recentlyPlayed.body.items?.length || 0,
+        savedTracks: savedTracksResponse.body.items?.length || 0,
+        analyzedPlaylists: analyses?.length || 0,
+      },
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/mood/analyze
+ * Analyze mood from recently played tracks
+ */
+app.post('/api/mood/analyze', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const { limit = 20 } = req.body as { limit?: number };
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Get recently played tracks
+    const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({
+      limit: Math.min(limit, 50)
+    });
+
+    const tracks = (recentlyPlayed.body.items || [])
+      .map((item: any) => item.track)
+      .filter((t: any) => t && t.id);
+    const trackIds = tracks
+      .map((t: any) => t?.id)
+      .filter((id: any): id is string => typeof id === 'string' && id.length > 0);
+
+    if (trackIds.length === 0) {
+      return res.status(400).json({
+        error: 'No recently played tracks found',
+        code: 'NO_TRACKS'
+      });
+    }
+
+    // Get audio features for recently played tracks (repeat plays count each time)
+    const featuresMap = await fetchTrackAudioFeatures(spotifyApi, tracks);
+    const audioFeaturesList = trackIds
+      .map((id: string) => featuresMap.get(id))
+      .filter((f: AudioFeatures | undefined): f is AudioFeatures => f !== undefined);
+
+    if (audioFeaturesList.length === 0) {
+      return res.status(400).json({
+        error: 'Could not fetch audio features',
+        code: 'NO_FEATURES'
+      });
+    }
+
+    // Calculate mood indicators
+    const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
+    const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
+    const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
+    const avgTempo = audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length;
+
+    // Determine mood category
+    let moodCategory = 'neutral';
+    let moodDescription = 'Balanced listening mood';
+    
+    if (avgValence > 0.7 && avgEnergy > 0.6) {
+      moodCategory = 'happy_energetic';
+      moodDescription = 'Upbeat and energetic vibes';
+    } else if (avgValence > 0.7 && avgEnergy <= 0.6) {
+      moodCategory = 'happy_calm';
+      moodDescription = 'Positive and relaxed';
+    } else if (avgValence <= 0.4 && avgEnergy > 0.6) {
+      moodCategory = 'intense';
+      moodDescription = 'Intense and powerful';
+    } else if (avgValence <= 0.4 && avgEnergy <= 0.4) {
+      moodCategory = 'melancholic';
+      moodDescription = 'Reflective and somber';
+    } else if (avgDanceability > 0.7) {
+      moodCategory = 'dance';
+      moodDescription = 'Ready to move';
+    } else if (avgTempo < 80) {
+      moodCategory = 'chill';
+      moodDescription = 'Chill and laid-back';
+    }
+
+    res.json({
+      mood: {
+        category: moodCategory,
+        description: moodDescription,
+        confidence: Math.min(100, Math.round((1 - Math.abs(avgValence - 0.5) - Math.abs(avgEnergy - 0.5)) * 100)),
+      },
+      audioFeatures: {
+        energy: Math.round(avgEnergy * 100),
+        valence: Math.round(avgValence * 100),
+        danceability: Math.round(avgDanceability * 100),
+        // Normalize tempo to 0-100 scale for consistency
+        tempo: Math.min(100, Math.max(0, Math.round(((avgTempo - 60) / 140) * 100))),
+      },
+      tracksAnalyzed: audioFeaturesList.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * POST /api/mood/playlist
+ * Generate mood-based playlist
+ */
+app.post('/api/mood/playlist', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const { mood, limit = 20 } = req.body as { mood?: string; limit?: number };
+    
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: 'TOKEN_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    
+    // Get recently played for seed tracks
+    const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({ limit: 5 });
+    const seedTracks = (recentlyPlayed.body.items || [])
+      .map((item: any) => item.track?.id)
+      .filter((id: any): id is string => typeof id === 'string')
+      .slice(0, 5);
+
+    // Mood-based recommendation parameters
+    const recommendationParams: any = {
+      limit: Math.min(limit, 50),
+      seed_tracks: seedTracks.length > 0 ? seedTracks : undefined,
+    };
+
+    // Adjust parameters based on mood
+    if (mood === 'happy_energetic') {
+      recommendationParams.target_energy = 0.8;
+      recommendationParams.target_valence = 0.8;
+      recommendationParams.min_energy = 0.6;
+      recommendationParams.min_valence = 0.6;
+    } else if (mood === 'happy_calm') {
+      recommendationParams.target_energy = 0.4;
+      recommendationParams.target_valence = 0.7;
+      recommendationParams.max_energy = 0.6;
+      recommendationParams.min_valence = 0.5;
+    } else if (mood === 'intense') {
+      recommendationParams.target_energy = 0.8;
+      recommendationParams.target_valence = 0.3;
+      recommendationParams.min_energy = 0.6;
+      recommendationParams.max_valence = 0.5;
+    } else if (mood === 'melancholic') {
+      recommendationParams.target_energy = 0.3;
+      recommendationParams.target_valence = 0.3;
+      recommendationParams.max_energy = 0.5;
+      recommendationParams.max_valence = 0.5;
+    } else if (mood === 'dance') {
+      recommendationParams.target_danceability = 0.8;
+      recommendationParams.target_energy = 0.7;
+      recommendationParams.min_danceability = 0.6;
+    } else if (mood === 'chill') {
+      recommendationParams.target_energy = 0.3;
+      recommendationParams.target_tempo = 70;
+      recommendationParams.max_energy = 0.5;
+    }
+
+    // Fallback to default genres if no seed tracks
+    if (!recommendationParams.seed_tracks || recommendationParams.seed_tracks.length === 0) {
+      recommendationParams.seed_genres = ['pop', 'indie', 'alternative'];
+    }
+
+    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
+    
+    res.json({
+      mood,
+      tracks: recommendations.body.tracks,
+      total: recommendations.body.tracks.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/personality/listening
+ * Analyze listening personality comparing playlist curation vs actual listening
+ */
+app.get('/api/personality/listening', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const userId = req.userId;
+    
+    if (!userToken || !userId || !supabase) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+
+    // Get top tracks (actual listening)
+    const [topTracks, topArtists] = await Promise.all([
+      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+    ]);
+
+    // Get analyzed playlists (curation)
+    const { data: analyses } = await supabase
+      .from('analyses')
+      .select('audio_dna, genre_distribution, personality_type')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    // Analyze listening vs curation (compared by genreKey: stored analyses use display names)
+    const listeningGenres = genreKeySet(
+      (topArtists.body.items || []).flatMap((a: any) => a.genres || [])
+    );
+    
+    const curationGenres = genreKeySet(
+      (analyses || []).flatMap((a: any) => 
+        (a.genre_distribution || []).map((g: any) => g.name || g)
+      )
+    );
+
+    const overlapGenres = Array.from(listeningGenres).filter(g => curationGenres.has(g));
+    const listeningOnlyGenres = Array.from(listeningGenres).filter(g => !curationGenres.has(g));
+    const curationOnlyGenres = Array.from(curationGenres).filter(g => !listeningGenres.has(g));
+
+    // Calculate personality traits
+    const listeningPersonality = {
+      explorer: listeningOnlyGenres.length > overlapGenres.length,
+      loyalist: overlapGenres.length > listeningOnlyGenres.length,
+      curator: curationOnlyGenres.length > 0,
+      balanced: Math.abs(listeningOnlyGenres.length - curationOnlyGenres.length) <= 2,
+    };
+
+    // Determine primary personality
+    let primaryPersonality = 'balanced';
+    if (listeningPersonality.explorer) primaryPersonality = 'explorer';
+    else if (listeningPersonality.loyalist) primaryPersonality = 'loyalist';
+    else if (listeningPersonality.curator) primaryPersonality = 'curator';
+
+    res.json({
+      personality: {
+        type: primaryPersonality,
+        traits: listeningPersonality,
+        description: getPersonalityDescription(primaryPersonality),
+      },
+      comparison: {
+        listeningGenres: Array.from(listeningGenres).map(genreDisplayName),
+        curationGenres: Array.from(curationGenres).map(genreDisplayName),
+        overlap: overlapGenres.map(genreDisplayName),
+        listeningOnly: listeningOnlyGenres.map(genreDisplayName),
+        curationOnly: curationOnlyGenres.map(genreDisplayName),
+        familyOverlap: Array.from(new Set(overlapGenres.map(g => classifyGenre(g).family))),
+      },
+      stats: {
+        topTracksCount: topTracks.body.items?.length || 0,
+        topArtistsCount: topArtists.body.items?.length || 0,
+        analyzedPlaylistsCount: analyses?.length || 0,
+      },
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+// Helper function for personality descriptions
+function getPersonalityDescription(type: string): string {
+  const descriptions: { [key: string]: string } = {
+    explorer: 'You actively seek new music beyond your playlists. Your listening habits show you\'re always discovering new sounds and genres.',
+    loyalist: 'You stick close to what you know. Your playlists and listening habits align closely, showing consistent taste preferences.',
+    curator: 'You carefully craft playlists that may differ from your casual listening. You enjoy organizing music thoughtfully.',
+    balanced: 'You strike a balance between exploration and curation. Your playlists and listening habits complement each other well.',
+  };
+  return descriptions[type] || descriptions.balanced;
+}
+
+/**
+ * POST /api/playlists/optimize
+ * Suggest playlist optimizations based on taste profile and listening data
+ */
+app.post('/api/playlists/optimize', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const userId = req.userId;
+    const { playlistId, url } = req.body as { playlistId?: string; url?: string };
+    
+    if (!userToken || !userId || !supabase) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    if (!playlistId && !url) {
+      return res.status(400).json({
+        error: 'Playlist ID or URL is required',
+        code: 'PLAYLIST_REQUIRED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const extractedPlaylistId = playlistId || extractSpotifyId(url || '');
+    
+    if (!extractedPlaylistId) {
+      return res.status(400).json({
+        error: 'Invalid playlist ID or URL',
+        code: 'INVALID_PLAYLIST'
+      });
+    }
+
+    // Get playlist tracks
+    const playlist = await spotifyApi.getPlaylist(extractedPlaylistId);
+    const tracksResponse = await spotifyApi.getPlaylistTracks(extractedPlaylistId, { limit: 100 });
+    const playlistTracks = (tracksResponse.body.items || [])
+      .map((item: any) => item.track)
+      .filter((t: any) => t && t.id);
+    
+    if (playlistTracks.length === 0) {
+      return res.status(400).json({
+        error: 'Playlist has no tracks',
+        code: 'EMPTY_PLAYLIST'
+      });
+    }
+    
+    const playlistTrackIds = playlistTracks.map((t: any) => t.id);
+
+    // Get user's taste profile
+    const [topTracks, topArtists, savedTracks] = await Promise.all([
+      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMySavedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
+    ]);
+
+    // Get audio features for playlist tracks
+    const featuresMap = await fetchTrackAudioFeatures(spotifyApi, playlistTracks);
+    const audioFeaturesList = playlistTrackIds
+      .map((id: string) => featuresMap.get(id))
+      .filter((f: AudioFeatures | undefined): f is AudioFeatures => f !== undefined);
+
+    // Calculate playlist averages (with safety check)
+    if (audioFeaturesList.length === 0) {
+      return res.status(400).json({
+        error: 'No audio features available for playlist',
+        code: 'NO_FEATURES'
+      });
+    }
+    
+    const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
+    const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
+    const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
+
+    // Get user's preferred genres from top artists
+    const userGenres = genreKeySet(
+      (topArtists.body.items || []).flatMap((artist: any) => artist.genres || [])
+    );
+
+    // Get playlist genres
+    const playlistArtistIds = new Set<string>();
+    playlistTracks.forEach((track: any) => {
+      if (track.artists) {
+        track.artists.forEach((artist: any) => {
+          if (artist.id) playlistArtistIds.add(artist.id);
+        });
+      }
+    });
+
+    const playlistArtists = await Promise.all(
+      Array.from(playlistArtistIds).slice(0, 50).map(id => 
+        spotifyApi.getArtist(id).catch(() => ({ body: { genres: [] } }))
+      )
+    );
+
+    const playlistGenres = genreKeySet(
+      playlistArtists.flatMap((response: any) => response.body.genres || [])
+    );
+
+    // Find missing genres
+    const missingGenres = Array.from(userGenres).filter(g => !playlistGenres.has(g)).map(genreDisplayName);
+
+    // Generate recommendations to fill gaps
+    const topTrackIds = (topTracks.body.items || [])
+      .map((track: any) => track.id)
+      .filter((id: any): id is string => typeof id === 'string')
+      .slice(0, 5);
+
+    let suggestions: any[] = [];
+    if (topTrackIds.length > 0) {
+      const recommendations = await spotifyApi.getRecommendations({
+        seed_tracks: topTrackIds,
+        limit: 10,
+        target_energy: avgEnergy,
+        target_valence: avgValence,
+        target_danceability: avgDanceability,
+      });
+      suggestions = recommendations.body.tracks.filter((track: any) => 
+        !playlistTrackIds.includes(track.id)
+      ).slice(0, 5);
+    }
+
+    res.json({
+      playlist: {
+        id: extractedPlaylistId,
+        name: playlist.body.name,
+        trackCount: playlistTracks.length,
+      },
+      analysis: {
+        currentEnergy: Math.round(avgEnergy * 100),
+        currentValence: Math.round(avgValence * 100),
+        currentDanceability: Math.round(avgDanceability * 100),
+        genres: Array.from(playlistGenres).map(genreDisplayName),
+      },
+      optimization: {
+        missingGenres,
+        suggestions: suggestions.map((track) => ({
+          id: track.id,
+          name: track.name,
+          artists: track.artists.map((a: any) => a.name),
+          album: track.album.name,
+          albumArt: track.album.images?.[0]?.url,
+          preview_url: track.preview_url,
+        })),
+        score: calculateOptimizationScore(playlistGenres, userGenres, audioFeaturesList.length),
+      },
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+// Helper function to calculate optimization score
+function calculateOptimizationScore(playlistGenres: Set<string>, userGenres: Set<string>, trackCount: number): number {
+  const overlap = Array.from(playlistGenres).filter(g => userGenres.has(g)).length;
+  const totalUserGenres = userGenres.size;
+  const genreMatch = totalUserGenres > 0 ? (overlap / totalUserGenres) * 100 : 0;
+  const trackCountScore = Math.min(100, (trackCount / 50) * 100);
+  return Math.round((genreMatch * 0.7) + (trackCountScore * 0.3));
+}
+
+/**
+ * POST /api/playlists/generate
+ * Generate smart playlists based on taste profile, mood, or activity
+ */
+app.post('/api/playlists/generate', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const userId = req.userId;
+    const { type, mood, activity, limit = 30 } = req.body as { 
+      type?: string; 
+      mood?: string; 
+      activity?: string; 
+      limit?: number;
+    };
+    
+    if (!userToken || !userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    let recommendationParams: any = { limit: Math.min(limit, 50) };
+
+    // Activity-based playlists
+    if (activity === 'workout') {
+      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 5 })
+        .catch(() => ({ body: { items: [] } }));
+      recommendationParams.seed_tracks = (topTracks.body.items || [])
+        .map((t: any) => t.id)
+        .filter((id: any): id is string => typeof id === 'string')
+        .slice(0, 5);
+      recommendationParams.target_energy = 0.8;
+      recommendationParams.min_energy = 0.7;
+      recommendationParams.target_danceability = 0.8;
+    } else if (activity === 'study') {
+      const savedTracks = await spotifyApi.getMySavedTracks({ limit: 10 })
+        .catch(() => ({ body: { items: [] } }));
+      recommendationParams.seed_tracks = (savedTracks.body.items || [])
+        .map((item: any) => item.track?.id)
+        .filter((id: any): id is string => typeof id === 'string')
+        .slice(0, 5);
+      recommendationParams.target_energy = 0.3;
+      recommendationParams.max_energy = 0.5;
+      recommendationParams.target_instrumentalness = 0.5;
+    } else if (activity === 'party') {
+      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 5 })
+        .catch(() => ({ body: { items: [] } }));
+      recommendationParams.seed_tracks = (topTracks.body.items || [])
+        .map((t: any) => t.id)
+        .filter((id: any): id is string => typeof id === 'string')
+        .slice(0, 5);
+      recommendationParams.target_energy = 0.9;
+      recommendationParams.target_danceability = 0.9;
+      recommendationParams.target_valence = 0.8;
+    } else if (mood) {
+      // Mood-based (reuse mood playlist logic)
+      const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({ limit: 5 })
+        .catch(() => ({ body: { items: [] } }));
+      recommendationParams.seed_tracks = (recentlyPlayed.body.items || [])
+        .map((item: any) => item.track?.id)
+        .filter((id: any): id is string => typeof id === 'string')
+        .slice(0, 5);
+      
+      if (mood === 'happy_energetic') {
+        recommendationParams.target_energy = 0.8;
+        recommendationParams.target_valence = 0.8;
+      } else if (mood === 'chill') {
+        recommendationParams.target_energy = 0.3;
+        recommendationParams.target_tempo = 70;
+      }
+    } else {
+      // Default: taste profile based
+      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 5 })
+        .catch(() => ({ body: { items: [] } }));
+      recommendationParams.seed_tracks = (topTracks.body.items || [])
+        .map((t: any) => t.id)
+        .filter((id: any): id is string => typeof id === 'string')
+        .slice(0, 5);
+    }
+
+    // Fallback to default genres
+    if (!recommendationParams.seed_tracks || recommendationParams.seed_tracks.length === 0) {
+      recommendationParams.seed_genres = ['pop', 'indie', 'rock'];
+    }
+
+    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
+    
+    res.json({
+      type: type || 'taste_profile',
+      mood,
+      activity,
+      tracks: recommendations.body.tracks,
+      total: recommendations.body.tracks.length,
+    });
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
+
+/**
+ * GET /api/discovery/timeline
+ * Generate discovery timeline tracking music discovery and taste evolution
+ */
+app.get('/api/discovery/timeline', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+  try {
+    const userToken = req.spotifyToken;
+    const userId = req.userId;
+    
+    if (!userToken || !userId || !supabase) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+
+    // Get top tracks across different time ranges
+    const [topTracksShort, topTracksMedium, topTracksLong, topArtistsShort, topArtistsLong] = await Promise.all([
+      spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopTracks({ time_range: 'long_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'short_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+      spotifyApi.getMyTopArtists({ time_range: 'long_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+    ]);
+
+    // Get analyses from database (ordered by date)
+    const { data: analyses } = await supabase
+      .from('analyses')
+      .select('created_at, genre_distribution, personality_type, audio_dna, median_release_year, nostalgia_index')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    // Analyze genre evolution
+    const genreEvolution: { [key: string]: { firstSeen: string; frequency: number } } = {};
+    const timelineEvents: any[] = [];
+
+    if (analyses) {
+      analyses.forEach((analysis: any, index: number) => {
+        const date = analysis.created_at;
+        const genres = analysis.genre_distribution || [];
+        
+        genres.forEach((genre: any) => {
+          const genreName = genreDisplayName(genre.name || genre);
+          if (!genreName) return;
+          if (!genreEvolution[genreName]) {
+            genreEvolution[genreName] = {
+              firstSeen: date,
+              frequency: 0,
+            };
+            timelineEvents.push({
+              type: 'genre_discovery',
+              date,
+              genre: genreName,
+              description: `Discovered ${genreName}`,
+            });
+          }
+          genreEvolution[genreName].frequency++;
+        });
+
+        if (index === 0 || index === analyses.length - 1) {
+          timelineEvents.push({
+            type: 'milestone',
+            date,
+            description: index === 0 
+              ? 'First playlist analyzed' 
+              : 'Latest playlist analyzed',
+            personality: analysis.personality_type,
+            medianReleaseYear: analysis.median_release_year ?? null,
+            nostalgiaIndex: analysis.nostalgia_index ?? null,
+          });
+        }
+      });
+    }
+
+    // Compare short-term vs long-term to find new discoveries
+    const shortTermArtists = new Set((topArtistsShort.body.items || []).map((a: any) => a.id));
+    const longTermArtists = new Set((topArtistsLong.body.items || []).map((a: any) => a.id));
+    const newArtists = (topArtistsShort.body.items || [])
+      .filter((a: any) => !longTermArtists.has(a.id))
+      .slice(0, 5);
+
+    newArtists.forEach((artist: any) => {
+      timelineEvents.push({
+        type: 'artist_discovery',
+        date: new Date().toISOString(),
+        artist: {
+          id: artist.id,
+          name: artist.name,
+          genres: artist.genres || [],
+        },
+        description: `New favorite: ${artist.name}`,
       });
-    } else if (strategyType === 'deep_cuts' || strategyType === 'from_library') {
-      // Filter for lower popularity (hidden gems)
-      tracks = tracks.filter((track: any) => (track.popularity || 100) < 50);
-    }
-    
-    res.json(tracks);
+    });
+
+    // Sort timeline by date
+    timelineEvents.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // Calculate taste evolution metrics
+    const shortTermGenres = genreKeySet(
+      (topArtistsShort.body.items || []).flatMap((a: any) => a.genres || [])
+    );
+    const longTermGenres = genreKeySet(
+      (topArtistsLong.body.items || []).flatMap((a: any) => a.genres || [])
+    );
+    const genreExpansion = Array.from(shortTermGenres).filter(g => !longTermGenres.has(g)).length;
+    const genreStability = Array.from(shortTermGenres).filter(g => longTermGenres.has(g)).length;
+
+    res.json({
+      timeline: timelineEvents,
+      evolution: {
+        genreExpansion,
+        genreStability,
+        totalGenresDiscovered: Object.keys(genreEvolution).length,
+        newArtistsCount: newArtists.length,
+        analysesCount: analyses?.length || 0,
+      },
+      genres: Object.entries(genreEvolution)
+        .map(([name, data]) => ({ name, ...data }))
+        .sort((a, b) => b.frequency - a.frequency)
+        .slice(0, 10),
+      periods: {
+        shortTerm: {
+          tracks: topTracksShort.body.items?.length || 0,
+          artists: topArtistsShort.body.items?.length || 0,
+          genres: shortTermGenres.size,
+        },
+        longTerm: {
+          tracks: topTracksLong.body.items?.length || 0,
+          artists: topArtistsLong.body.items?.length || 0,
+          genres: longTermGenres.size,
+        },
+      },
+    });
   } catch (error: unknown) {
     handleSpotifyError(error, res);
   }
 });
 
 /**
- * GET /api/playlists
- * Get user's saved playlists
+ * GET /api/stats
+ * Get user statistics
  */
-app.get('/api/playlists', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+app.get('/api/stats', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
     const userId = req.userId;
     
@@ -2317,1269 +6293,1819 @@ app.get('/api/playlists', extractSupabaseToken, async (req: SupabaseRequest, res
       });
     }
 
-    // Query saved playlists (RLS will automatically filter by user_id)
-    const { data: playlists, error: dbError } = await supabase
-      .from('playlists')
+    // Query user_stats view (RLS will automatically filter by user_id)
+    const { data: stats, error: dbError } = await supabase
+      .from('user_stats')
       .select('*')
       .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .single();
 
     if (dbError) {
       console.error('Database error:', dbError);
       return res.status(500).json({ 
-        error: 'Failed to fetch playlists',
+        error: 'Failed to fetch stats',
         code: 'DB_ERROR'
       });
     }
 
-    res.json(playlists || []);
+    // Return stats with default values if null
+    res.json({
+      analysesCount: stats?.analyses_count || 0,
+      battlesCount: stats?.battles_count || 0,
+      savedPlaylistsCount: stats?.saved_playlists_count || 0,
+      averageRating: stats?.average_rating || 0,
+      averageHealthScore: stats?.average_health_score || 0,
+      lastAnalysisAt: stats?.last_analysis_at || null,
+      lastBattleAt: stats?.last_battle_at || null,
+    });
   } catch (error: unknown) {
     const err = error as Error;
-    console.error('Get playlists endpoint error:', err);
+    console.error('Stats endpoint error:', err);
     res.status(500).json({ error: err.message || 'Internal server error' });
   }
 });
 
+// ============================================================================
+// LIKED TRACKS ENDPOINTS
+// ============================================================================
+
 /**
- * POST /api/playlists
- * Create a playlist
+ * Parse page/limit query parameters with sane bounds
  */
-app.post('/api/playlists', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+function parsePaginationParams(
+  query: express.Request['query'],
+  defaultLimit: number = 50,
+  maxLimit: number = 100
+): { page: number; limit: number; from: number; to: number } {
+  const page = Math.max(1, parseInt(query.page as string) || 1);
+  const limit = Math.min(maxLimit, Math.max(1, parseInt(query.limit as string) || defaultLimit));
+  const from = (page - 1) * limit;
+  return { page, limit, from, to: from + limit - 1 };
+}
+
+/**
+ * Expose PaginationMeta as response headers (list endpoints keep a plain array body)
+ */
+function setPaginationHeaders(res: express.Response, pagination: PaginationMeta): void {
+  res.set({
+    'X-Total-Count': pagination.total,
+    'X-Page': pagination.page,
+    'X-Per-Page': pagination.limit,
+    'X-Total-Pages': pagination.totalPages,
+    'X-Has-More': pagination.hasMore,
+    'X-Has-Previous': pagination.hasPrevious,
+  });
+}
+
+/**
+ * Normalize a liked track identifier to a bare Spotify track ID
+ * Accepts raw IDs, spotify:track:ID URIs and open.spotify.com track URLs
+ */
+function normalizeTrackId(value: string): string {
+  return extractSpotifyId(value) || value.trim();
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/liked-tracks
+ * List the user's liked tracks (newest first)
+ * Query: page (default 1), limit (default 50, max 100); without either, the full list is returned
+ * Pagination metadata is returned in X-Total-Count / X-Page / X-Per-Page / X-Total-Pages / X-Has-More / X-Has-Previous headers
+ */
+app.get('/api/liked-tracks', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const { name, description, tracks, coverUrl } = req.body as {
-      name?: string;
-      description?: string;
-      tracks?: TrackInput[];
-      coverUrl?: string;
-    };
-    const userToken = req.spotifyToken;
-    
-    if (!userToken) {
-      return res.status(401).json({ 
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
-    
-    if (!name || !tracks || !Array.isArray(tracks)) {
-      return res.status(400).json({ 
-        error: 'Name and tracks (array) are required' 
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
-    
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Create playlist (user context is from the access token)
-    const playlistResponse = await spotifyApi.createPlaylist(name, {
-      public: false,
-      description: description,
-    });
-    const playlist = playlistResponse.body;
-    
-    // Add tracks - extract URIs or IDs
-    const trackUris = tracks
-      .map((track: TrackInput) => track.uri || track.id)
-      .filter((uri): uri is string => typeof uri === 'string' && uri.length > 0);
-    
-    if (trackUris.length > 0) {
-      await spotifyApi.addTracksToPlaylist(playlist.id, trackUris);
+
+    // Existing clients fetch the whole list, so paging only applies when asked for
+    if (req.query.page === undefined && req.query.limit === undefined) {
+      const likedTracks: any[] = [];
+      while (true) {
+        const { data, error: dbError } = await supabase
+          .from('liked_tracks')
+          .select('*')
+          .eq('user_id', userId)
+          .order('liked_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(likedTracks.length, likedTracks.length + BATCH_SIZES.DATABASE_SELECT - 1);
+
+        if (dbError) {
+          console.error('Database error:', dbError);
+          return res.status(500).json({
+            error: 'Failed to fetch liked tracks',
+            code: ErrorCodes.DATABASE_ERROR
+          });
+        }
+
+        likedTracks.push(...(data || []));
+        if ((data || []).length < BATCH_SIZES.DATABASE_SELECT) break;
+      }
+
+      setPaginationHeaders(res, createPaginationMeta(1, Math.max(1, likedTracks.length), likedTracks.length));
+      return res.json(likedTracks);
     }
-    
-    res.json({
-      id: playlist.id,
-      name: playlist.name,
-      url: playlist.external_urls.spotify,
-      trackCount: tracks.length,
-    });
+
+    const { page, limit, from, to } = parsePaginationParams(req.query);
+
+    const { data: likedTracks, error: dbError, count } = await supabase
+      .from('liked_tracks')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('liked_at', { ascending: false })
+      .range(from, to);
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch liked tracks',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    setPaginationHeaders(res, createPaginationMeta(page, limit, count || 0));
+
+    res.json(likedTracks || []);
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('Get liked tracks endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * POST /api/playlists/save
- * Save a playlist to user's collection
+ * POST /api/liked-tracks
+ * Like a track
+ * Body: track_id, track_name, artist_name, album_art_url?, preview_url?, spotify_id?, sync_spotify?
+ * When sync_spotify is true and a Spotify token is supplied, the track is also saved to the user's Spotify library
  */
-app.post('/api/playlists/save', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
+app.post('/api/liked-tracks', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
-    const { url, name, description, coverUrl } = req.body as {
-      url?: string;
-      name?: string;
-      description?: string;
-      coverUrl?: string;
-    };
     const userId = req.userId;
     const userToken = req.spotifyToken;
-    
+    const {
+      track_id,
+      track_name,
+      artist_name,
+      album_art_url,
+      preview_url,
+      spotify_id,
+      sync_spotify,
+    } = req.body as {
+      track_id?: string;
+      track_name?: string;
+      artist_name?: string;
+      album_art_url?: string;
+      preview_url?: string;
+      spotify_id?: string;
+      sync_spotify?: boolean;
+    };
+
     if (!userId) {
-      return res.status(401).json({ 
+      return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
-    
-    if (!url) {
-      return res.status(400).json({ 
-        error: 'Playlist URL is required' 
+
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
-    
-    // Extract playlist ID and fetch details if needed
-    const playlistId = extractSpotifyId(url);
-    if (!playlistId) {
-      return res.status(400).json({ 
-        error: 'Invalid playlist URL' 
+
+    const missingFields = Object.entries({ track_id, track_name, artist_name })
+      .filter(([, value]) => typeof value !== 'string' || value.trim().length === 0)
+      .map(([key]) => key);
+
+    if (missingFields.length > 0) {
+      return res.status(400).json({
+        error: `Missing required fields: ${missingFields.join(', ')}`,
+        code: ErrorCodes.MISSING_REQUIRED_FIELD,
+        details: { fields: missingFields }
+      });
+    }
+
+    const spotifyTrackId = normalizeTrackId(spotify_id || track_id!);
+
+    await ensureUserProfile(userId);
+
+    const { data: likedTrack, error: dbError } = await supabase
+      .from('liked_tracks')
+      .insert({
+        user_id: userId,
+        track_id: track_id!.trim(),
+        track_name: track_name!.trim(),
+        artist_name: artist_name!.trim(),
+        album_art_url: album_art_url || null,
+        preview_url: preview_url || null,
+        spotify_id: spotifyTrackId,
+      })
+      .select('*')
+      .single();
+
+    if (dbError) {
+      // unique_user_liked_track (user_id, spotify_id) violation
+      if (dbError.code === '23505') {
+        return res.status(409).json({
+          error: 'Track is already in your liked tracks',
+          code: ErrorCodes.ALREADY_EXISTS
+        });
+      }
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to save liked track',
+        code: ErrorCodes.DATABASE_ERROR
       });
     }
-    
-    let playlistName = name;
-    let playlistOwner = 'Unknown';
-    let playlistCoverUrl = coverUrl || null;
-    let trackCount = 0;
-    
-    // Fetch playlist details from Spotify if token available
-    if (userToken) {
+
+    let syncedToSpotify = false;
+    if (sync_spotify && userToken) {
       try {
         const spotifyApi = createSpotifyApi(userToken);
-        const playlist = await spotifyApi.getPlaylist(playlistId);
-        playlistName = playlistName || playlist.body.name;
-        playlistOwner = playlist.body.owner?.display_name || 'Unknown';
-        playlistCoverUrl = playlistCoverUrl || playlist.body.images?.[0]?.url || null;
-        trackCount = playlist.body.tracks?.total || 0;
+        await spotifyApi.addToMySavedTracks([spotifyTrackId]);
+        syncedToSpotify = true;
       } catch (spotifyError) {
-        // If Spotify fetch fails, use provided data or defaults
-        console.warn('Failed to fetch playlist from Spotify, using provided data');
+        // Liked track is stored even if the Spotify library update fails
+        console.warn('Failed to save track to Spotify library:', spotifyError);
       }
     }
-    
-    if (!playlistName) {
-      return res.status(400).json({ 
-        error: 'Playlist name is required' 
-      });
-    }
-    
-    // Ensure user profile exists
-    await ensureUserProfile(userId);
-    
-    // Save playlist to database
-    const dbPlaylistId = await savePlaylistToDatabase(
-      userId,
-      playlistId,
-      url,
-      playlistName,
-      playlistOwner,
-      playlistCoverUrl,
-      trackCount
-    );
-    
-    if (!dbPlaylistId) {
-      return res.status(500).json({ 
-        error: 'Failed to save playlist',
-        code: 'SAVE_ERROR'
-      });
-    }
-    
-    res.json({
-      id: dbPlaylistId,
-      message: 'Playlist saved successfully',
+
+    res.status(201).json({
+      ...likedTrack,
+      syncedToSpotify,
     });
   } catch (error: unknown) {
     const err = error as Error;
-    console.error('Save playlist endpoint error:', err);
-    res.status(500).json({ error: err.message || 'Internal server error' });
+    console.error('Save liked track endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * DELETE /api/playlists/:id
- * Delete a playlist (if user owns it)
+ * POST /api/liked-tracks/sync
+ * Two-way sync between liked tracks and the user's Spotify library ("Liked Songs")
+ * Body: direction? ('both' | 'pull' | 'push', default 'both'), limit? (max Spotify tracks to pull, default 500)
  */
-app.delete('/api/playlists/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+app.post('/api/liked-tracks/sync', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
-    const { id } = req.params;
     const userId = req.userId;
-    
+    const userToken = req.spotifyToken;
+    const { direction = 'both', limit = 500 } = req.body as {
+      direction?: 'both' | 'pull' | 'push';
+      limit?: number;
+    };
+
     if (!userId) {
-      return res.status(401).json({ 
+      return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
-    
-    // Delete from database (RLS will ensure user can only delete their own playlists)
+
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
+
     if (!supabase) {
-      return res.status(503).json({ 
+      return res.status(503).json({
         error: 'Database not configured',
-        code: 'DB_NOT_CONFIGURED'
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
-    
-    const { error } = await supabase
-      .from('playlists')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', userId);
-    
-    if (error) {
-      return res.status(500).json({ 
-        error: 'Failed to delete playlist',
-        code: 'DELETE_ERROR'
+
+    if (!['both', 'pull', 'push'].includes(direction)) {
+      return res.status(400).json({
+        error: 'Invalid direction. Must be both, pull, or push',
+        code: ErrorCodes.INVALID_INPUT
       });
     }
-    
-    res.json({ success: true, message: 'Playlist deleted successfully' });
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return res.status(400).json({
+        error: 'limit must be a positive integer',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    await ensureUserProfile(userId);
+
+    let pulled = 0;
+    let pushed = 0;
+
+    // Pull: Spotify library -> liked_tracks
+    if (direction === 'both' || direction === 'pull') {
+      const maxTracks = Math.min(limit, DATABASE_LIMITS.MAX_TRACKS_PER_PLAYLIST);
+      const savedItems: any[] = [];
+      let offset = 0;
+
+      while (savedItems.length < maxTracks) {
+        const response = await spotifyApi.getMySavedTracks({ limit: 50, offset });
+        const items = response.body.items || [];
+        if (items.length === 0) break;
+        savedItems.push(...items);
+        offset += items.length;
+        if (items.length < 50) break;
+      }
+
+      const rows = savedItems
+        .slice(0, maxTracks)
+        .filter((item: any) => item.track?.id)
+        .map((item: any) => ({
+          user_id: userId,
+          track_id: item.track.id,
+          track_name: item.track.name || 'Unknown',
+          artist_name: (item.track.artists || []).map((a: any) => a.name).join(', ') || 'Unknown',
+          album_art_url: item.track.album?.images?.[0]?.url || null,
+          preview_url: item.track.preview_url || null,
+          spotify_id: item.track.id,
+          liked_at: item.added_at || new Date().toISOString(),
+        }));
+
+      for (let i = 0; i < rows.length; i += BATCH_SIZES.DATABASE_INSERT) {
+        const batch = rows.slice(i, i + BATCH_SIZES.DATABASE_INSERT);
+        const { data: inserted, error: dbError } = await supabase
+          .from('liked_tracks')
+          .upsert(batch, { onConflict: 'user_id,spotify_id', ignoreDuplicates: true })
+          .select('id');
+
+        if (dbError) {
+          console.error('Error syncing liked tracks batch:', dbError);
+          return res.status(500).json({
+            error: 'Failed to import Spotify library',
+            code: ErrorCodes.DATABASE_ERROR
+          });
+        }
+        pulled += inserted?.length || 0;
+      }
+    }
+
+    // Push: liked_tracks -> Spotify library
+    if (direction === 'both' || direction === 'push') {
+      const { data: likedTracks, error: dbError } = await supabase
+        .from('liked_tracks')
+        .select('spotify_id')
+        .eq('user_id', userId)
+        .not('spotify_id', 'is', null);
+
+      if (dbError) {
+        console.error('Database error:', dbError);
+        return res.status(500).json({
+          error: 'Failed to fetch liked tracks',
+          code: ErrorCodes.DATABASE_ERROR
+        });
+      }
+
+      const spotifyIds = (likedTracks || []).map((t: any) => t.spotify_id as string);
+
+      // Spotify library endpoints accept at most 50 IDs per call
+      for (let i = 0; i < spotifyIds.length; i += 50) {
+        const batch = spotifyIds.slice(i, i + 50);
+        const containsResponse = await spotifyApi.containsMySavedTracks(batch);
+        const missing = batch.filter((_, index) => !containsResponse.body[index]);
+        if (missing.length > 0) {
+          await spotifyApi.addToMySavedTracks(missing);
+          pushed += missing.length;
+        }
+      }
+    }
+
+    res.json({
+      direction,
+      pulled,
+      pushed,
+      syncedAt: new Date().toISOString(),
+    });
   } catch (error: unknown) {
     handleSpotifyError(error, res);
   }
 });
 
 /**
- * GET /api/history
- * Get user's analysis and battle history
+ * DELETE /api/liked-tracks/:id
+ * Unlike a track. :id may be the liked track row ID or the Spotify track ID
+ * Query: sync_spotify=true also removes the track from the user's Spotify library
  */
-app.get('/api/history', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+app.delete('/api/liked-tracks/:id', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
+    const { id } = req.params;
     const userId = req.userId;
-    
+    const userToken = req.spotifyToken;
+    const syncSpotify = req.query.sync_spotify === 'true';
+
     if (!userId) {
-      return res.status(401).json({ 
+      return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
     if (!supabase) {
-      return res.status(503).json({ 
+      return res.status(503).json({
         error: 'Database not configured',
-        code: 'DB_NOT_CONFIGURED'
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
 
-    // Query history view (RLS will automatically filter by user_id)
-    const { data: history, error: dbError } = await supabase
-      .from('history')
-      .select('*')
+    const column = UUID_PATTERN.test(id) ? 'id' : 'spotify_id';
+    const { data: likedTrack, error: findError } = await supabase
+      .from('liked_tracks')
+      .select('id, spotify_id')
       .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(50);
+      .eq(column, column === 'id' ? id : normalizeTrackId(id))
+      .maybeSingle();
 
-    if (dbError) {
-      console.error('Database error:', dbError);
-      return res.status(500).json({ 
-        error: 'Failed to fetch history',
-        code: 'DB_ERROR'
+    if (findError) {
+      console.error('Database error:', findError);
+      return res.status(500).json({
+        error: 'Failed to delete liked track',
+        code: ErrorCodes.DATABASE_ERROR
       });
     }
 
-    res.json(history || []);
+    if (!likedTrack) {
+      return res.status(404).json({
+        error: 'Liked track not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('liked_tracks')
+      .delete()
+      .eq('id', likedTrack.id)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      console.error('Database error:', deleteError);
+      return res.status(500).json({
+        error: 'Failed to delete liked track',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    let removedFromSpotify = false;
+    if (syncSpotify && userToken && likedTrack.spotify_id) {
+      try {
+        const spotifyApi = createSpotifyApi(userToken);
+        await spotifyApi.removeFromMySavedTracks([likedTrack.spotify_id]);
+        removedFromSpotify = true;
+      } catch (spotifyError) {
+        console.warn('Failed to remove track from Spotify library:', spotifyError);
+      }
+    }
+
+    res.json({ success: true, message: 'Liked track removed successfully', removedFromSpotify });
   } catch (error: unknown) {
     const err = error as Error;
-    console.error('History endpoint error:', err);
-    res.status(500).json({ error: err.message || 'Internal server error' });
+    console.error('Delete liked track endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
+// ============================================================================
+// SHARE CARD ENDPOINTS
+// ============================================================================
+
+const COVER_ART_HOSTS = /(^|\.)(scdn\.co|spotifycdn\.com)$/i;
+
 /**
- * GET /api/user/top-tracks
- * Get user's top tracks (short-term, medium-term, or long-term)
+ * Download cover art and inline it as a data URI so cards render without network access
+ * Only Spotify CDN images are fetched; anything else (or a failed fetch) renders a placeholder
  */
-app.get('/api/user/top-tracks', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+async function fetchCoverDataUri(url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+
+  let parsed: URL;
   try {
-    const userToken = req.spotifyToken;
-    const timeRange = (req.query.time_range as string) || 'medium_term'; // short_term, medium_term, long_term
-    
-    if (!userToken) {
-      return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
-      });
-    }
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' || !COVER_ART_HOSTS.test(parsed.hostname)) return null;
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Validate time_range
-    if (!['short_term', 'medium_term', 'long_term'].includes(timeRange)) {
-      return res.status(400).json({
-        error: 'Invalid time_range. Must be short_term, medium_term, or long_term',
-        code: 'INVALID_TIME_RANGE'
-      });
-    }
+  try {
+    const response = await fetch(parsed, { signal: AbortSignal.timeout(SHARE_CARD.COVER_FETCH_TIMEOUT_MS) });
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !/^image\/(jpeg|png|webp)/.test(contentType)) return null;
 
-    const response = await spotifyApi.getMyTopTracks({
-      time_range: timeRange as 'short_term' | 'medium_term' | 'long_term',
-      limit: 50
-    });
+    const image = Buffer.from(await response.arrayBuffer());
+    if (image.length > SHARE_CARD.COVER_MAX_BYTES) return null;
+    return `data:${contentType.split(';')[0]};base64,${image.toString('base64')}`;
+  } catch (error) {
+    console.warn('Failed to fetch cover art for share card:', error);
+    return null;
+  }
+}
 
-    const tracks = (response.body.items || []).map((track: any) => ({
-      id: track.id,
-      name: track.name,
-      artists: track.artists.map((a: any) => ({ id: a.id, name: a.name })),
-      album: {
-        id: track.album.id,
-        name: track.album.name,
-        images: track.album.images,
-      },
-      duration_ms: track.duration_ms,
-      popularity: track.popularity,
-      preview_url: track.preview_url,
-      external_urls: track.external_urls,
-    }));
+/**
+ * Audio DNA (0-100) from a battle audio_data entry (0-1 features, tempo in BPM)
+ */
+function battleAudioDna(entry: any): CardAudioDna | null {
+  if (!entry) return null;
+  const percent = (value: unknown) => Math.round((Number(value) || 0) * 100);
+  return {
+    energy: percent(entry.energy),
+    danceability: percent(entry.danceability),
+    valence: percent(entry.valence),
+    acousticness: percent(entry.acousticness),
+    instrumentalness: percent(entry.instrumentalness),
+    // Same 60-200 BPM scale as the analysis Audio DNA
+    tempo: Math.min(100, Math.max(0, Math.round((((Number(entry.tempo) || 0) - 60) / 140) * 100))),
+  };
+}
 
-    res.json({
-      time_range: timeRange,
-      tracks,
-      total: response.body.total || tracks.length,
-    });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
+/**
+ * Load the card data for a saved analysis (null if it does not exist or belongs to someone else)
+ */
+async function loadAnalysisCardData(analysisId: string, userId: string): Promise<AnalysisCardData | null> {
+  if (!supabase) return null;
+
+  const analysis = await fetchAnalysisWithPlaylist(
+    analysisId,
+    userId,
+    'personality_type, health_score, health_status, audio_dna, genre_distribution',
+    'name, owner, cover_url'
+  );
+  if (!analysis) return null;
+
+  const playlist = analysis.playlist;
+  return {
+    playlistName: playlist?.name || 'Untitled playlist',
+    owner: playlist?.owner || null,
+    coverImage: await fetchCoverDataUri(playlist?.cover_url),
+    personalityType: analysis.personality_type,
+    healthScore: analysis.health_score,
+    healthStatus: analysis.health_status,
+    audioDna: analysis.audio_dna || null,
+    topGenres: (analysis.genre_distribution || [])
+      .filter((genre: any) => genre?.name)
+      .map((genre: any) => ({ name: String(genre.name), value: Number(genre.value) || 0 })),
+  };
+}
+
+/**
+ * Load the card data for a saved battle (null if it does not exist or belongs to someone else)
+ */
+async function loadBattleCardData(battleId: string, userId: string): Promise<BattleCardData | null> {
+  if (!supabase) return null;
+
+  const { data: battle, error } = await supabase
+    .from('battles')
+    .select('compatibility_score, winner, shared_artists, shared_genres, audio_data, playlist1_data, playlist2_data')
+    .eq('id', battleId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!battle) return null;
+
+  const audioData: any[] = Array.isArray(battle.audio_data) ? battle.audio_data : [];
+  const side = async (key: 'playlist1' | 'playlist2', data: any): Promise<BattleCardSide> => ({
+    name: data?.name || (key === 'playlist1' ? 'Playlist 1' : 'Playlist 2'),
+    owner: data?.owner || null,
+    coverImage: await fetchCoverDataUri(data?.image),
+    score: typeof data?.score === 'number' ? data.score : null,
+    audioDna: battleAudioDna(audioData.find(entry => entry?.playlist === key)),
+  });
+
+  const [playlist1, playlist2] = await Promise.all([
+    side('playlist1', battle.playlist1_data),
+    side('playlist2', battle.playlist2_data),
+  ]);
+  return {
+    playlist1,
+    playlist2,
+    winner: battle.winner,
+    compatibilityScore: battle.compatibility_score,
+    sharedArtistCount: (battle.shared_artists || []).length,
+    sharedGenres: battle.shared_genres || [],
+  };
+}
+
+/**
+ * Render the card of a saved analysis or battle owned by `userId` (null if not found)
+ */
+async function renderStoredCard(
+  kind: ShareResourceType,
+  id: string,
+  userId: string,
+  size: ShareCardSize
+): Promise<string | null> {
+  if (kind === 'analysis') {
+    const data = await loadAnalysisCardData(id, userId);
+    return data ? renderAnalysisCard(data, size) : null;
+  }
+  const data = await loadBattleCardData(id, userId);
+  return data ? renderBattleCard(data, size) : null;
+}
+
+/**
+ * Send a rendered card as SVG or PNG
+ * The ETag is a hash of the SVG, so unchanged cards are answered with 304 before rasterizing
+ */
+function sendShareCard(req: express.Request, res: express.Response, svg: string, format: ShareCardFormat): void {
+  const etag = `"${createHash('sha1').update(format).update(svg).digest('hex')}"`;
+  res.set({
+    'ETag': etag,
+    'Cache-Control': `private, max-age=${SHARE_CARD.CACHE_MAX_AGE}`,
+  });
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  if (format === 'svg') {
+    res.type('image/svg+xml').send(svg);
+  } else {
+    res.type('image/png').send(rasterizeCard(svg));
   }
-});
+}
 
 /**
- * GET /api/user/top-artists
- * Get user's top artists (short-term, medium-term, or long-term)
+ * Shared handler for GET /api/analyses/:id/card and GET /api/battles/:id/card
+ * Query: size (landscape | square | story, default landscape), format (png | svg, default png)
  */
-app.get('/api/user/top-artists', extractSpotifyToken, async (req: SpotifyRequest, res) => {
-  try {
-    const userToken = req.spotifyToken;
-    const timeRange = (req.query.time_range as string) || 'medium_term';
-    
-    if (!userToken) {
-      return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
-      });
-    }
+function shareCardHandler(
+  kind: ShareResourceType
+): (req: SupabaseRequest, res: express.Response) => Promise<void> {
+  return async (req, res) => {
+    try {
+      const userId = req.userId;
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    if (!['short_term', 'medium_term', 'long_term'].includes(timeRange)) {
-      return res.status(400).json({
-        error: 'Invalid time_range. Must be short_term, medium_term, or long_term',
-        code: 'INVALID_TIME_RANGE'
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          code: ErrorCodes.AUTH_REQUIRED
+        });
+        return;
+      }
+
+      if (!supabase) {
+        res.status(503).json({
+          error: 'Database not configured',
+          code: ErrorCodes.SERVICE_UNAVAILABLE
+        });
+        return;
+      }
+
+      const size = parseCardSize(req.query.size);
+      const format = parseCardFormat(req.query.format);
+      if (!size || !format) {
+        res.status(400).json({
+          error: `size must be one of ${Object.keys(SHARE_CARD.SIZES).join(', ')} and format must be png or svg`,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+        return;
+      }
+
+      const id = req.params.id;
+      if (!UUID_PATTERN.test(id)) {
+        res.status(400).json({
+          error: `Invalid ${kind} ID`,
+          code: ErrorCodes.INVALID_INPUT
+        });
+        return;
+      }
+
+      const svg = await renderStoredCard(kind, id, userId, size);
+      if (!svg) {
+        res.status(404).json({
+          error: kind === 'analysis' ? 'Analysis not found' : 'Battle not found',
+          code: ErrorCodes.NOT_FOUND
+        });
+        return;
+      }
+
+      sendShareCard(req, res, svg, format);
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error(`Share card (${kind}) endpoint error:`, err);
+      res.status(500).json({
+        error: err.message || 'Internal server error',
+        code: ErrorCodes.INTERNAL_ERROR
       });
     }
+  };
+}
 
-    const response = await spotifyApi.getMyTopArtists({
-      time_range: timeRange as 'short_term' | 'medium_term' | 'long_term',
-      limit: 50
-    });
+/**
+ * GET /api/analyses/:id/card
+ * Share card for a saved analysis: Audio DNA radar, personality, health score, top genres and cover art
+ */
+app.get('/api/analyses/:id/card', extractSupabaseToken, shareCardHandler('analysis'));
 
-    const artists = (response.body.items || []).map((artist: any) => ({
-      id: artist.id,
-      name: artist.name,
-      genres: artist.genres || [],
-      images: artist.images || [],
-      popularity: artist.popularity,
-      external_urls: artist.external_urls,
-    }));
+/**
+ * GET /api/battles/:id/card
+ * Share card for a saved battle: both playlists, scores, overlaid Audio DNA and compatibility
+ */
+app.get('/api/battles/:id/card', extractSupabaseToken, shareCardHandler('battle'));
 
-    res.json({
-      time_range: timeRange,
-      artists,
-      total: response.body.total || artists.length,
-    });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
-  }
+// ============================================================================
+// SHARE LINK ENDPOINTS
+// ============================================================================
+
+const SHARE_LINK_COLUMNS = 'token, user_id, resource_type, analysis_id, battle_id, view_count, expires_at, revoked_at, last_viewed_at, created_at';
+
+// Public share views are limited per IP, separately from the analysis/battle limits
+const rateLimitSharedViews = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: SHARE_LINKS.PUBLIC_RATE_LIMIT,
+  message: 'Too many shared link requests. Please try again in 15 minutes.',
+  keyGenerator: (req) => `shared:${req.ip || req.connection?.remoteAddress || 'unknown'}`,
 });
 
 /**
- * GET /api/user/recently-played
- * Get user's recently played tracks
+ * Look up a share link by token and explain why it cannot be viewed
+ * Returns the link when active, otherwise sends 404 (unknown) or 410 (expired/revoked)
  */
-app.get('/api/user/recently-played', extractSpotifyToken, async (req: SpotifyRequest, res) => {
-  try {
-    const userToken = req.spotifyToken;
-    const limit = parseInt(req.query.limit as string) || 50;
-    
-    if (!userToken) {
-      return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
-      });
-    }
-
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    const response = await spotifyApi.getMyRecentlyPlayedTracks({
-      limit: Math.min(limit, 50) // Spotify API max is 50
+async function resolveShareLink(token: string, res: express.Response): Promise<ShareLinkRow | null> {
+  const { data: link, error } = isShareToken(token)
+    ? await supabase!.from('share_links').select(SHARE_LINK_COLUMNS).eq('token', token).maybeSingle()
+    : { data: null, error: null };
+  if (error) throw error;
+
+  if (!link) {
+    res.status(404).json({
+      error: 'Share link not found',
+      code: ErrorCodes.NOT_FOUND
     });
+    return null;
+  }
 
-    const tracks = (response.body.items || [])
-      .filter((item: any) => item.track && item.track.id)
-      .map((item: any) => ({
-        track: {
-          id: item.track.id,
-          name: item.track.name || 'Unknown',
-          artists: (item.track.artists || []).map((a: any) => ({ id: a.id || '', name: a.name || 'Unknown' })),
-          album: {
-            id: item.track.album?.id || '',
-            name: item.track.album?.name || 'Unknown',
-            images: item.track.album?.images || [],
-          },
-          duration_ms: item.track.duration_ms || 0,
-          popularity: item.track.popularity || 0,
-          preview_url: item.track.preview_url || null,
-          external_urls: item.track.external_urls || {},
-        },
-        played_at: item.played_at || null,
-      }));
-
-    res.json({
-      tracks,
-      total: tracks.length,
+  const status = shareLinkStatus(link as ShareLinkRow);
+  if (status !== 'active') {
+    res.status(410).json({
+      error: status === 'revoked' ? 'This share link has been revoked' : 'This share link has expired',
+      code: status === 'revoked' ? ErrorCodes.LINK_REVOKED : ErrorCodes.LINK_EXPIRED
     });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    return null;
   }
-});
+
+  return link as ShareLinkRow;
+}
 
 /**
- * GET /api/user/saved-tracks
- * Get user's saved/liked tracks
+ * POST /api/shares
+ * Create a public share link for one of the user's analyses or battles
+ * Body: type ('analysis' | 'battle'), id, expires_in_days? (omit for a link that never expires)
  */
-app.get('/api/user/saved-tracks', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+app.post('/api/shares', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
-    const limit = parseInt(req.query.limit as string) || 50;
-    const offset = parseInt(req.query.offset as string) || 0;
-    
-    if (!userToken) {
+    const userId = req.userId;
+    const { type, id, expires_in_days } = req.body as { type?: string; id?: string; expires_in_days?: unknown };
+
+    if (!userId) {
       return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Fetch all saved tracks (handle pagination)
-    const allTracks: any[] = [];
-    let currentOffset = offset;
-    const pageLimit = Math.min(limit, 50); // Spotify API max is 50 per request
-    
-    while (allTracks.length < limit) {
-      const response = await spotifyApi.getMySavedTracks({
-        limit: pageLimit,
-        offset: currentOffset
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
-      
-      const items = response.body.items || [];
-      if (items.length === 0) break;
-      
-      allTracks.push(...items);
-      currentOffset += items.length;
-      
-      if (items.length < pageLimit) break;
     }
 
-    const tracks = allTracks.slice(0, limit).map((item: any) => ({
-      added_at: item.added_at,
-      track: {
-        id: item.track.id,
-        name: item.track.name,
-        artists: item.track.artists.map((a: any) => ({ id: a.id, name: a.name })),
-        album: {
-          id: item.track.album.id,
-          name: item.track.album.name,
-          images: item.track.album.images,
-        },
-        duration_ms: item.track.duration_ms,
-        popularity: item.track.popularity,
-        preview_url: item.track.preview_url,
-        external_urls: item.track.external_urls,
-      },
-    }));
+    if (!type || !SHARE_RESOURCE_TYPES.includes(type as ShareResourceType)) {
+      return res.status(400).json({
+        error: `type must be one of ${SHARE_RESOURCE_TYPES.join(', ')}`,
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
 
-    res.json({
-      tracks,
-      total: tracks.length,
-      offset,
-      limit,
-    });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
-  }
-});
+    if (!id || !UUID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: `A valid ${type} id is required`,
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
 
-/**
- * GET /api/user/saved-albums
- * Get user's saved albums
- */
-app.get('/api/user/saved-albums', extractSpotifyToken, async (req: SpotifyRequest, res) => {
-  try {
-    const userToken = req.spotifyToken;
-    const limit = parseInt(req.query.limit as string) || 50;
-    const offset = parseInt(req.query.offset as string) || 0;
-    
-    if (!userToken) {
-      return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+    const expiry = parseShareExpiry(expires_in_days);
+    if ('error' in expiry) {
+      return res.status(400).json({
+        error: expiry.error,
+        code: ErrorCodes.VALIDATION_ERROR
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Fetch all saved albums (handle pagination)
-    const allAlbums: any[] = [];
-    let currentOffset = offset;
-    const pageLimit = Math.min(limit, 50);
-    
-    while (allAlbums.length < limit) {
-      const response = await spotifyApi.getMySavedAlbums({
-        limit: pageLimit,
-        offset: currentOffset
+    // Only the owner can share an analysis or battle
+    const { data: resource, error: lookupError } = await supabase
+      .from(type === 'analysis' ? 'analyses' : 'battles')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('Database error:', lookupError);
+      return res.status(500).json({
+        error: 'Failed to create share link',
+        code: ErrorCodes.DATABASE_ERROR
       });
-      
-      const items = response.body.items || [];
-      if (items.length === 0) break;
-      
-      allAlbums.push(...items);
-      currentOffset += items.length;
-      
-      if (items.length < pageLimit) break;
     }
 
-    const albums = allAlbums.slice(0, limit).map((item: any) => ({
-      added_at: item.added_at,
-      album: {
-        id: item.album.id,
-        name: item.album.name,
-        artists: item.album.artists.map((a: any) => ({ id: a.id, name: a.name })),
-        images: item.album.images || [],
-        release_date: item.album.release_date,
-        total_tracks: item.album.total_tracks,
-        external_urls: item.album.external_urls,
-      },
-    }));
+    if (!resource) {
+      return res.status(404).json({
+        error: type === 'analysis' ? 'Analysis not found' : 'Battle not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
 
-    res.json({
-      albums,
-      total: albums.length,
-      offset,
-      limit,
-    });
+    const { data: link, error: insertError } = await supabase
+      .from('share_links')
+      .insert({
+        user_id: userId,
+        token: generateShareToken(),
+        resource_type: type,
+        analysis_id: type === 'analysis' ? id : null,
+        battle_id: type === 'battle' ? id : null,
+        expires_at: expiry.expiresAt,
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (insertError || !link) {
+      console.error('Database error:', insertError);
+      return res.status(500).json({
+        error: 'Failed to create share link',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    res.status(201).json(formatShareLink(link as ShareLinkRow));
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('Create share link endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * GET /api/profile/taste
- * Get enhanced taste profile aggregating playlists, top tracks, top artists, and saved tracks
+ * GET /api/shares
+ * List the user's share links (newest first), including revoked and expired ones
+ * Query: type? ('analysis' | 'battle'), id? (links of one analysis or battle), page, limit
+ * Pagination metadata is returned in X-Total-Count / X-Page / X-Per-Page / X-Total-Pages / X-Has-More / X-Has-Previous headers
  */
-app.get('/api/profile/taste', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+app.get('/api/shares', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
     const userId = req.userId;
-    
-    if (!userToken) {
+    const type = req.query.type as string | undefined;
+    const resourceId = req.query.id as string | undefined;
+
+    if (!userId) {
       return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    if (!userId || !supabase) {
-      return res.status(401).json({
-        error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
+    if (type && !SHARE_RESOURCE_TYPES.includes(type as ShareResourceType)) {
+      return res.status(400).json({
+        error: `type must be one of ${SHARE_RESOURCE_TYPES.join(', ')}`,
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
 
-    // Fetch data from multiple sources in parallel
-    const [topTracksShort, topTracksMedium, topTracksLong, 
-           topArtistsShort, topArtistsMedium, topArtistsLong,
-           recentlyPlayed, savedTracksResponse] = await Promise.all([
-      spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopTracks({ time_range: 'long_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'short_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'long_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyRecentlyPlayedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMySavedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
-    ]);
+    if (resourceId && !UUID_PATTERN.test(resourceId)) {
+      return res.status(400).json({
+        error: 'Invalid id',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
 
-    // Get analyzed playlists from database
-    const { data: analyses } = await supabase
-      .from('analyses')
-      .select('audio_dna, genre_distribution, top_tracks, personality_type')
-      .eq('user_id', userId)
+    const { page, limit, from, to } = parsePaginationParams(req.query);
+
+    let query = supabase
+      .from('share_links')
+      .select(SHARE_LINK_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId);
+    if (type) query = query.eq('resource_type', type);
+    if (resourceId) query = query.or(`analysis_id.eq.${resourceId},battle_id.eq.${resourceId}`);
+
+    const { data: links, error: dbError, count } = await query
       .order('created_at', { ascending: false })
-      .limit(50);
+      .range(from, to);
 
-    // Aggregate genres from all sources
-    const genreMap: { [key: string]: number } = {};
-    const artistMap: { [key: string]: number } = {};
-    const audioFeaturesList: any[] = [];
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch share links',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
 
-    // Process top tracks
-    const processTracks = (tracks: any[], weight: number) => {
-      tracks.forEach((item: any) => {
-        const track = item.track || item;
-        if (track.artists) {
-          track.artists.forEach((artist: any) => {
-            const artistName = artist.name || artist;
-            artistMap[artistName] = (artistMap[artistName] || 0) + weight;
-          });
-        }
+    setPaginationHeaders(res, createPaginationMeta(page, limit, count || 0));
+
+    const now = new Date();
+    res.json((links || []).map(link => formatShareLink(link as ShareLinkRow, now)));
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('List share links endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+/**
+ * DELETE /api/shares/:token
+ * Revoke a share link; the public endpoint answers 410 from then on
+ */
+app.delete('/api/shares/:token', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const token = req.params.token;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
-    };
+    }
 
-    processTracks(topTracksShort.body.items || [], 3); // Short-term weighted higher
-    processTracks(topTracksMedium.body.items || [], 2);
-    processTracks(topTracksLong.body.items || [], 1);
-    processTracks((recentlyPlayed.body.items || []).map((i: any) => i.track), 2);
-    processTracks((savedTracksResponse.body.items || []).map((i: any) => i.track), 1.5);
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
 
-    // Process top artists
-    const processArtists = (artists: any[], weight: number) => {
-      artists.forEach((artist: any) => {
-        const artistName = artist.name;
-        artistMap[artistName] = (artistMap[artistName] || 0) + weight;
-        if (artist.genres) {
-          artist.genres.forEach((genre: string) => {
-            genreMap[genre] = (genreMap[genre] || 0) + weight;
-          });
-        }
+    const { data: link, error: lookupError } = isShareToken(token)
+      ? await supabase
+          .from('share_links')
+          .select(SHARE_LINK_COLUMNS)
+          .eq('token', token)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (lookupError) {
+      console.error('Database error:', lookupError);
+      return res.status(500).json({
+        error: 'Failed to revoke share link',
+        code: ErrorCodes.DATABASE_ERROR
       });
-    };
+    }
 
-    processArtists(topArtistsShort.body.items || [], 3);
-    processArtists(topArtistsMedium.body.items || [], 2);
-    processArtists(topArtistsLong.body.items || [], 1);
+    if (!link) {
+      return res.status(404).json({
+        error: 'Share link not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
 
-    // Process analyses from database
-    if (analyses) {
-      analyses.forEach((analysis: any) => {
-        if (analysis.genre_distribution) {
-          analysis.genre_distribution.forEach((genre: any) => {
-            genreMap[genre.name || genre] = (genreMap[genre.name || genre] || 0) + (genre.value || 1);
-          });
-        }
-        if (analysis.audio_dna) {
-          audioFeaturesList.push(analysis.audio_dna);
-        }
+    // Revoking twice keeps the original revocation time
+    if (link.revoked_at) {
+      return res.json({ success: true, link: formatShareLink(link as ShareLinkRow) });
+    }
+
+    const { data: revoked, error: updateError } = await supabase
+      .from('share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('token', token)
+      .eq('user_id', userId)
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (updateError || !revoked) {
+      console.error('Database error:', updateError);
+      return res.status(500).json({
+        error: 'Failed to revoke share link',
+        code: ErrorCodes.DATABASE_ERROR
       });
     }
 
-    // Calculate average audio features
-    const avgAudioFeatures = audioFeaturesList.length > 0
-      ? {
-          energy: audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length,
-          danceability: audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length,
-          valence: audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length,
-          acousticness: audioFeaturesList.reduce((sum, f) => sum + (f.acousticness || 0), 0) / audioFeaturesList.length,
-          instrumentalness: audioFeaturesList.reduce((sum, f) => sum + (f.instrumentalness || 0), 0) / audioFeaturesList.length,
-          tempo: audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length,
-        }
-      : null;
+    res.json({ success: true, link: formatShareLink(revoked as ShareLinkRow) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Revoke share link endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
 
-    // Get top genres and artists
-    const topGenres = Object.entries(genreMap)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 10)
-      .map(([name, value]) => ({ name, value }));
+/**
+ * GET /api/shared/:token
+ * Public, read-only view of a shared analysis or battle (no authentication)
+ * Counts a view; owner and database IDs are never included
+ */
+app.get('/api/shared/:token', rateLimitSharedViews, async (req, res) => {
+  try {
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
 
-    const topArtists = Object.entries(artistMap)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 20)
-      .map(([name, value]) => ({ name, value }));
+    const token = req.params.token;
+
+    // Counts the view and returns the link in one step, only while it is active
+    const { data: viewed, error: viewError } = isShareToken(token)
+      ? await supabase.rpc('record_share_view', { p_token: token })
+      : { data: [], error: null };
+    if (viewError) throw viewError;
+
+    const link: ShareLinkRow | null = (viewed as ShareLinkRow[] | null)?.[0] || null;
+    if (!link) {
+      // Not counted: explain whether the link is unknown, expired or revoked
+      if (await resolveShareLink(token, res)) {
+        res.status(404).json({
+          error: 'Share link not found',
+          code: ErrorCodes.NOT_FOUND
+        });
+      }
+      return;
+    }
 
-    // Analyze listening evolution
-    const shortTermGenres = new Set(
-      (topArtistsShort.body.items || []).flatMap((a: any) => a.genres || [])
-    );
-    const longTermGenres = new Set(
-      (topArtistsLong.body.items || []).flatMap((a: any) => a.genres || [])
-    );
-    const newGenres = Array.from(shortTermGenres).filter(g => !longTermGenres.has(g));
-    const evolvingGenres = Array.from(shortTermGenres).filter(g => longTermGenres.has(g));
+    const isAnalysis = link.resource_type === 'analysis';
+    let resource: any = null;
+    if (isAnalysis) {
+      resource = await fetchAnalysisWithPlaylist(
+        link.analysis_id!,
+        link.user_id,
+        'personality_type, personality_description, health_score, health_status, overall_rating, rating_description, scoring_version, audio_dna, genre_distribution, subgenres, top_tracks, era_breakdown, created_at',
+        'name, owner, cover_url, url, track_count, source_type'
+      );
+    } else {
+      const { data, error: resourceError } = await supabase
+        .from('battles')
+        .select('compatibility_score, compatibility_breakdown, winner, winner_reason, shared_artists, shared_genres, shared_tracks, audio_data, playlist1_data, playlist2_data, created_at')
+        .eq('id', link.battle_id!)
+        .eq('user_id', link.user_id)
+        .maybeSingle();
+      if (resourceError) throw resourceError;
+      resource = data;
+    }
+
+    if (!resource) {
+      return res.status(410).json({
+        error: isAnalysis ? 'The shared analysis has been deleted' : 'The shared battle has been deleted',
+        code: ErrorCodes.RESOURCE_DELETED
+      });
+    }
 
+    res.set('Cache-Control', 'no-store');
     res.json({
-      topGenres,
-      topArtists,
-      audioFeatures: avgAudioFeatures,
-      listeningEvolution: {
-        newGenres,
-        evolvingGenres,
-        shortTermCount: topTracksShort.body.items?.length || 0,
-        mediumTermCount: topTracksMedium.body.items?.length || 0,
-        longTermCount: topTracksLong.body.items?.length || 0,
-      },
-      sources: {
-        topTracks: {
-          short: topTracksShort.body.items?.length || 0,
-          medium: topTracksMedium.body.items?.length || 0,
-          long: topTracksLong.body.items?.length || 0,
-        },
-        topArtists: {
-          short: topArtistsShort.body.items?.length || 0,
-          medium: topArtistsMedium.body.items?.length || 0,
-          long: topArtistsLong.body.items?.length || 0,
-        },
-        recentlyPlayed: recentlyPlayed.body.items?.length || 0,
-        savedTracks: savedTracksResponse.body.items?.length || 0,
-        analyzedPlaylists: analyses?.length || 0,
+      type: link.resource_type,
+      share: {
+        viewCount: link.view_count,
+        expiresAt: link.expires_at,
+        createdAt: link.created_at,
+        cardUrl: `/api/shared/${link.token}/card`,
       },
+      [isAnalysis ? 'analysis' : 'battle']: isAnalysis
+        ? sanitizeSharedAnalysis(resource)
+        : sanitizeSharedBattle(resource),
     });
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('Shared link endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * POST /api/mood/analyze
- * Analyze mood from recently played tracks
+ * GET /api/shared/:token/card
+ * Public share card image for a shared analysis or battle (link previews do not count as views)
+ * Query: size (landscape | square | story, default landscape), format (png | svg, default png)
  */
-app.post('/api/mood/analyze', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+app.get('/api/shared/:token/card', rateLimitSharedViews, async (req, res) => {
   try {
-    const userToken = req.spotifyToken;
-    const { limit = 20 } = req.body as { limit?: number };
-    
-    if (!userToken) {
-      return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Get recently played tracks
-    const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({
-      limit: Math.min(limit, 50)
-    });
-
-    const tracks = (recentlyPlayed.body.items || [])
-      .map((item: any) => item.track)
-      .filter((t: any) => t && t.id);
-    const trackIds = tracks
-      .map((t: any) => t?.id)
-      .filter((id: any): id is string => typeof id === 'string' && id.length > 0);
-
-    if (trackIds.length === 0) {
+    const size = parseCardSize(req.query.size);
+    const format = parseCardFormat(req.query.format);
+    if (!size || !format) {
       return res.status(400).json({
-        error: 'No recently played tracks found',
-        code: 'NO_TRACKS'
+        error: `size must be one of ${Object.keys(SHARE_CARD.SIZES).join(', ')} and format must be png or svg`,
+        code: ErrorCodes.VALIDATION_ERROR
       });
     }
 
-    // Get audio features for recently played tracks
-    const audioFeaturesList: any[] = [];
-    for (let i = 0; i < trackIds.length; i += 100) {
-      const batch = trackIds.slice(i, i + 100);
-      const featuresResponse = await spotifyApi.getAudioFeaturesForTracks(batch);
-      if (featuresResponse.body.audio_features) {
-        audioFeaturesList.push(...featuresResponse.body.audio_features.filter((f: any) => f !== null));
-      }
+    const link = await resolveShareLink(req.params.token, res);
+    if (!link) return;
+
+    const resourceId = link.resource_type === 'analysis' ? link.analysis_id : link.battle_id;
+    const svg = resourceId ? await renderStoredCard(link.resource_type, resourceId, link.user_id, size) : null;
+    if (!svg) {
+      return res.status(410).json({
+        error: 'The shared item has been deleted',
+        code: ErrorCodes.RESOURCE_DELETED
+      });
     }
 
-    if (audioFeaturesList.length === 0) {
-      return res.status(400).json({
-        error: 'Could not fetch audio features',
-        code: 'NO_FEATURES'
+    sendShareCard(req, res, svg, format);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Shared card endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
+
+// ============================================================================
+// WATCHED PLAYLIST ENDPOINTS
+// ============================================================================
+
+const WATCHED_PLAYLIST_COLUMNS = 'id, user_id, playlist_id, spotify_playlist_id, url, name, status, check_interval_minutes, last_snapshot_id, last_analysis_id, last_checked_at, last_changed_at, next_check_at, consecutive_failures, last_error, created_at';
+
+let appSpotifyToken: { accessToken: string; expiresAt: number } | null = null;
+
+/**
+ * Spotify API instance authorized with the app's client credentials
+ * Used by the watch scheduler, which runs without a user token (public playlists only)
+ */
+async function getAppSpotifyApi(): Promise<SpotifyWebApi> {
+  const spotifyApi = new SpotifyWebApi({
+    clientId: process.env.SPOTIFY_CLIENT_ID,
+    clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+  });
+
+  // Refresh a minute before Spotify expires the token
+  if (!appSpotifyToken || appSpotifyToken.expiresAt <= Date.now()) {
+    const grant = await spotifyApi.clientCredentialsGrant();
+    appSpotifyToken = {
+      accessToken: grant.body.access_token,
+      expiresAt: Date.now() + (grant.body.expires_in - 60) * 1000,
+    };
+  }
+  spotifyApi.setAccessToken(appSpotifyToken.accessToken);
+  return spotifyApi;
+}
+
+async function updateWatchedPlaylist(id: string, changes: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase!
+    .from('watched_playlists')
+    .update(changes)
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Scheduler check: compare the Spotify snapshot_id, and on a change re-analyze the
+ * playlist through the same pipeline as /api/analyze and record a change event
+ * Failures back off exponentially and pause the watch after MAX_CONSECUTIVE_FAILURES
+ */
+async function checkWatchedPlaylist(watch: WatchedPlaylist): Promise<void> {
+  const now = new Date();
+
+  try {
+    const spotifyApi = await getAppSpotifyApi();
+    const playlist = await spotifyApi.getPlaylist(watch.spotifyPlaylistId, { fields: 'snapshot_id' });
+
+    if (playlist.body.snapshot_id === watch.lastSnapshotId) {
+      await updateWatchedPlaylist(watch.id, {
+        last_checked_at: now.toISOString(),
+        next_check_at: nextCheckTime(watch.checkIntervalMinutes, 0, now).toISOString(),
+        consecutive_failures: 0,
+        last_error: null,
       });
+      return;
     }
 
-    // Calculate mood indicators
-    const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
-    const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
-    const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
-    const avgTempo = audioFeaturesList.reduce((sum, f) => sum + (f.tempo || 0), 0) / audioFeaturesList.length;
+    // Analyses are saved by URL: reuse the saved playlist row's URL so the re-analysis
+    // lands on that row and shows up in its analysis diffs
+    const { data: savedPlaylist } = watch.playlistId
+      ? await supabase!
+          .from('playlists')
+          .select('url')
+          .eq('id', watch.playlistId)
+          .maybeSingle()
+      : { data: null };
+    const url = savedPlaylist?.url || watch.url;
+
+    const sourceData = await fetchAnalysisSource(spotifyApi, { type: 'playlist', id: watch.spotifyPlaylistId }, url);
+    const output = await runAnalysisPipeline(spotifyApi, sourceData);
+    const analysisId = await persistAnalysis({ id: watch.userId }, sourceData, output);
+    if (!analysisId) {
+      throw new Error('Failed to save the re-analysis');
+    }
 
-    // Determine mood category
-    let moodCategory = 'neutral';
-    let moodDescription = 'Balanced listening mood';
-    
-    if (avgValence > 0.7 && avgEnergy > 0.6) {
-      moodCategory = 'happy_energetic';
-      moodDescription = 'Upbeat and energetic vibes';
-    } else if (avgValence > 0.7 && avgEnergy <= 0.6) {
-      moodCategory = 'happy_calm';
-      moodDescription = 'Positive and relaxed';
-    } else if (avgValence <= 0.4 && avgEnergy > 0.6) {
-      moodCategory = 'intense';
-      moodDescription = 'Intense and powerful';
-    } else if (avgValence <= 0.4 && avgEnergy <= 0.4) {
-      moodCategory = 'melancholic';
-      moodDescription = 'Reflective and somber';
-    } else if (avgDanceability > 0.7) {
-      moodCategory = 'dance';
-      moodDescription = 'Ready to move';
-    } else if (avgTempo < 80) {
-      moodCategory = 'chill';
-      moodDescription = 'Chill and laid-back';
+    // Compare with the analysis the watch last knew about, when there is one
+    const analysisIds = [watch.lastAnalysisId, analysisId].filter((id): id is string => !!id);
+    const { data: analyses, error: analysesError } = await supabase!
+      .from('analyses')
+      .select(`playlist_id, ${DIFFABLE_ANALYSIS_COLUMNS}`)
+      .in('id', analysisIds);
+    if (analysesError) throw analysesError;
+
+    const rowById = new Map((analyses || []).map((row: any) => [row.id, row]));
+    const previousRow = watch.lastAnalysisId ? rowById.get(watch.lastAnalysisId) : null;
+    const currentRow = rowById.get(analysisId);
+    let summary = null;
+    if (previousRow && currentRow) {
+      const snapshots = await fetchAnalysisSnapshots(analysisIds);
+      summary = summarizeAnalysisDiff(diffAnalyses(
+        toDiffableAnalysis(previousRow, snapshots.get(previousRow.id)),
+        toDiffableAnalysis(currentRow, snapshots.get(currentRow.id))
+      ));
     }
 
-    res.json({
-      mood: {
-        category: moodCategory,
-        description: moodDescription,
-        confidence: Math.min(100, Math.round((1 - Math.abs(avgValence - 0.5) - Math.abs(avgEnergy - 0.5)) * 100)),
-      },
-      audioFeatures: {
-        energy: Math.round(avgEnergy * 100),
-        valence: Math.round(avgValence * 100),
-        danceability: Math.round(avgDanceability * 100),
-        // Normalize tempo to 0-100 scale for consistency
-        tempo: Math.min(100, Math.max(0, Math.round(((avgTempo - 60) / 140) * 100))),
-      },
-      tracksAnalyzed: audioFeaturesList.length,
-      timestamp: new Date().toISOString(),
+    const { error: eventError } = await supabase!
+      .from('playlist_change_events')
+      .insert({
+        watch_id: watch.id,
+        user_id: watch.userId,
+        spotify_playlist_id: watch.spotifyPlaylistId,
+        previous_snapshot_id: watch.lastSnapshotId,
+        snapshot_id: sourceData.snapshotId,
+        previous_analysis_id: previousRow ? watch.lastAnalysisId : null,
+        analysis_id: analysisId,
+        summary,
+        detected_at: now.toISOString(),
+      });
+    if (eventError) throw eventError;
+
+    await updateWatchedPlaylist(watch.id, {
+      playlist_id: currentRow?.playlist_id || watch.playlistId,
+      name: sourceData.name,
+      last_snapshot_id: sourceData.snapshotId,
+      last_analysis_id: analysisId,
+      last_checked_at: now.toISOString(),
+      last_changed_at: now.toISOString(),
+      next_check_at: nextCheckTime(watch.checkIntervalMinutes, 0, now).toISOString(),
+      consecutive_failures: 0,
+      last_error: null,
+    });
+  } catch (error) {
+    const { body } = describeAnalysisError(error);
+    const failures = watch.consecutiveFailures + 1;
+    console.error(`Watched playlist ${watch.id} check failed (${failures}):`, body.error);
+
+    await updateWatchedPlaylist(watch.id, {
+      status: failures >= WATCHED_PLAYLISTS.MAX_CONSECUTIVE_FAILURES ? 'paused' : 'active',
+      last_checked_at: now.toISOString(),
+      next_check_at: nextCheckTime(watch.checkIntervalMinutes, failures, now).toISOString(),
+      consecutive_failures: failures,
+      last_error: body.error,
     });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
   }
-});
+}
+
+// Runs inside this process when Supabase and the Spotify client secret are configured;
+// set WATCH_SCHEDULER_ENABLED=false on extra instances to keep a single poller
+const playlistWatchScheduler = supabase && process.env.SPOTIFY_CLIENT_SECRET && process.env.WATCH_SCHEDULER_ENABLED !== 'false'
+  ? new PlaylistWatchScheduler({
+      async listDue(now, limit) {
+        const { data, error } = await supabase!
+          .from('watched_playlists')
+          .select(WATCHED_PLAYLIST_COLUMNS)
+          .eq('status', 'active')
+          .lte('next_check_at', now.toISOString())
+          .order('next_check_at', { ascending: true })
+          .limit(limit);
+        if (error) throw error;
+        return (data || []).map(watchFromRow);
+      },
+      async claim(watch, until) {
+        const { data, error } = await supabase!
+          .from('watched_playlists')
+          .update({ next_check_at: until.toISOString() })
+          .eq('id', watch.id)
+          .eq('next_check_at', watch.nextCheckAt)
+          .select('id');
+        if (error) throw error;
+        return (data || []).length > 0;
+      },
+    }, checkWatchedPlaylist)
+  : null;
 
 /**
- * POST /api/mood/playlist
- * Generate mood-based playlist
+ * GET /api/watched-playlists
+ * List the user's watched playlists (newest first)
+ * Query: page, limit
+ * Pagination metadata is returned in X-Total-Count / X-Page / X-Per-Page / X-Total-Pages / X-Has-More / X-Has-Previous headers
  */
-app.post('/api/mood/playlist', extractSpotifyToken, async (req: SpotifyRequest, res) => {
+app.get('/api/watched-playlists', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
-    const { mood, limit = 20 } = req.body as { mood?: string; limit?: number };
-    
-    if (!userToken) {
+    const userId = req.userId;
+
+    if (!userId) {
       return res.status(401).json({
-        error: 'Spotify token required',
-        code: 'TOKEN_REQUIRED'
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    
-    // Get recently played for seed tracks
-    const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({ limit: 5 });
-    const seedTracks = (recentlyPlayed.body.items || [])
-      .map((item: any) => item.track?.id)
-      .filter((id: any): id is string => typeof id === 'string')
-      .slice(0, 5);
-
-    // Mood-based recommendation parameters
-    const recommendationParams: any = {
-      limit: Math.min(limit, 50),
-      seed_tracks: seedTracks.length > 0 ? seedTracks : undefined,
-    };
-
-    // Adjust parameters based on mood
-    if (mood === 'happy_energetic') {
-      recommendationParams.target_energy = 0.8;
-      recommendationParams.target_valence = 0.8;
-      recommendationParams.min_energy = 0.6;
-      recommendationParams.min_valence = 0.6;
-    } else if (mood === 'happy_calm') {
-      recommendationParams.target_energy = 0.4;
-      recommendationParams.target_valence = 0.7;
-      recommendationParams.max_energy = 0.6;
-      recommendationParams.min_valence = 0.5;
-    } else if (mood === 'intense') {
-      recommendationParams.target_energy = 0.8;
-      recommendationParams.target_valence = 0.3;
-      recommendationParams.min_energy = 0.6;
-      recommendationParams.max_valence = 0.5;
-    } else if (mood === 'melancholic') {
-      recommendationParams.target_energy = 0.3;
-      recommendationParams.target_valence = 0.3;
-      recommendationParams.max_energy = 0.5;
-      recommendationParams.max_valence = 0.5;
-    } else if (mood === 'dance') {
-      recommendationParams.target_danceability = 0.8;
-      recommendationParams.target_energy = 0.7;
-      recommendationParams.min_danceability = 0.6;
-    } else if (mood === 'chill') {
-      recommendationParams.target_energy = 0.3;
-      recommendationParams.target_tempo = 70;
-      recommendationParams.max_energy = 0.5;
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
     }
 
-    // Fallback to default genres if no seed tracks
-    if (!recommendationParams.seed_tracks || recommendationParams.seed_tracks.length === 0) {
-      recommendationParams.seed_genres = ['pop', 'indie', 'alternative'];
+    const { page, limit, from, to } = parsePaginationParams(req.query);
+    const { data: watches, error: dbError, count } = await supabase
+      .from('watched_playlists')
+      .select(WATCHED_PLAYLIST_COLUMNS, { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch watched playlists',
+        code: ErrorCodes.DATABASE_ERROR
+      });
     }
 
-    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
-    
-    res.json({
-      mood,
-      tracks: recommendations.body.tracks,
-      total: recommendations.body.tracks.length,
-    });
+    setPaginationHeaders(res, createPaginationMeta(page, limit, count || 0));
+    res.json((watches || []).map(watchFromRow));
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('List watched playlists endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * GET /api/personality/listening
- * Analyze listening personality comparing playlist curation vs actual listening
+ * POST /api/watched-playlists
+ * Watch a public playlist; it is re-analyzed whenever its Spotify snapshot changes
+ * Body: { url: string, check_interval_minutes?: number }
+ * The latest saved analysis of the playlist (if any) is the baseline for the first change event
  */
-app.get('/api/personality/listening', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+app.post('/api/watched-playlists', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
     const userId = req.userId;
-    
-    if (!userToken || !userId || !supabase) {
+    const userToken = req.spotifyToken;
+    const { url, check_interval_minutes } = req.body as { url?: string; check_interval_minutes?: number };
+
+    if (!userId) {
       return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify access token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
+    }
 
-    // Get top tracks (actual listening)
-    const [topTracks, topArtists] = await Promise.all([
-      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-    ]);
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
 
-    // Get analyzed playlists (curation)
-    const { data: analyses } = await supabase
-      .from('analyses')
-      .select('audio_dna, genre_distribution, personality_type')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(20);
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({
+        error: 'url is required',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
 
-    // Analyze listening vs curation
-    const listeningGenres = new Set(
-      (topArtists.body.items || []).flatMap((a: any) => a.genres || [])
-    );
-    
-    const curationGenres = new Set(
-      (analyses || []).flatMap((a: any) => 
-        (a.genre_distribution || []).map((g: any) => g.name || g)
-      )
-    );
+    const source = detectAnalysisSource(url);
+    if (!source || source.type !== 'playlist') {
+      return res.status(400).json({
+        error: 'Only Spotify playlists can be watched',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
 
-    const overlapGenres = Array.from(listeningGenres).filter(g => curationGenres.has(g));
-    const listeningOnlyGenres = Array.from(listeningGenres).filter(g => !curationGenres.has(g));
-    const curationOnlyGenres = Array.from(curationGenres).filter(g => !listeningGenres.has(g));
+    const interval = parseCheckInterval(check_interval_minutes);
+    if ('error' in interval) {
+      return res.status(400).json({
+        error: interval.error,
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
 
-    // Calculate personality traits
-    const listeningPersonality = {
-      explorer: listeningOnlyGenres.length > overlapGenres.length,
-      loyalist: overlapGenres.length > listeningOnlyGenres.length,
-      curator: curationOnlyGenres.length > 0,
-      balanced: Math.abs(listeningOnlyGenres.length - curationOnlyGenres.length) <= 2,
-    };
+    const { data: existing, count, error: lookupError } = await supabase
+      .from('watched_playlists')
+      .select('spotify_playlist_id', { count: 'exact' })
+      .eq('user_id', userId);
 
-    // Determine primary personality
-    let primaryPersonality = 'balanced';
-    if (listeningPersonality.explorer) primaryPersonality = 'explorer';
-    else if (listeningPersonality.loyalist) primaryPersonality = 'loyalist';
-    else if (listeningPersonality.curator) primaryPersonality = 'curator';
+    if (lookupError) {
+      console.error('Database error:', lookupError);
+      return res.status(500).json({
+        error: 'Failed to watch playlist',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
 
-    res.json({
-      personality: {
-        type: primaryPersonality,
-        traits: listeningPersonality,
-        description: getPersonalityDescription(primaryPersonality),
-      },
-      comparison: {
-        listeningGenres: Array.from(listeningGenres),
-        curationGenres: Array.from(curationGenres),
-        overlap: overlapGenres,
-        listeningOnly: listeningOnlyGenres,
-        curationOnly: curationOnlyGenres,
-      },
-      stats: {
-        topTracksCount: topTracks.body.items?.length || 0,
-        topArtistsCount: topArtists.body.items?.length || 0,
-        analyzedPlaylistsCount: analyses?.length || 0,
-      },
-    });
-  } catch (error: unknown) {
-    handleSpotifyError(error, res);
-  }
-});
+    if ((existing || []).some(w => w.spotify_playlist_id === source.id)) {
+      return res.status(409).json({
+        error: 'This playlist is already being watched',
+        code: ErrorCodes.ALREADY_EXISTS
+      });
+    }
 
-// Helper function for personality descriptions
-function getPersonalityDescription(type: string): string {
-  const descriptions: { [key: string]: string } = {
-    explorer: 'You actively seek new music beyond your playlists. Your listening habits show you\'re always discovering new sounds and genres.',
-    loyalist: 'You stick close to what you know. Your playlists and listening habits align closely, showing consistent taste preferences.',
-    curator: 'You carefully craft playlists that may differ from your casual listening. You enjoy organizing music thoughtfully.',
-    balanced: 'You strike a balance between exploration and curation. Your playlists and listening habits complement each other well.',
-  };
-  return descriptions[type] || descriptions.balanced;
-}
+    if ((count || 0) >= WATCHED_PLAYLISTS.MAX_WATCHES_PER_USER) {
+      return res.status(400).json({
+        error: `You can watch at most ${WATCHED_PLAYLISTS.MAX_WATCHES_PER_USER} playlists`,
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    const spotifyApi = createSpotifyApi(userToken);
+    const playlist = await spotifyApi.getPlaylist(source.id!, { fields: 'name,public,snapshot_id' });
+
+    // Background checks use the app's credentials, which cannot read private playlists
+    if (playlist.body.public === false) {
+      return res.status(400).json({
+        error: 'Only public playlists can be watched',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const { data: savedPlaylists } = await supabase
+      .from('playlists')
+      .select('id, url')
+      .eq('user_id', userId)
+      .eq('spotify_id', source.id!);
+    const savedIds = (savedPlaylists || []).map(p => p.id);
+    const { data: baseline } = savedIds.length > 0
+      ? await supabase
+          .from('analyses')
+          .select('id, playlist_id')
+          .eq('user_id', userId)
+          .in('playlist_id', savedIds)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      : { data: null };
+
+    // Re-analyses are saved by URL, so keep the baseline's URL (which may carry ?si=...)
+    // for them to land on the same playlist row as the user's own analyses
+    const baselinePlaylist = (savedPlaylists || []).find(p => p.id === baseline?.playlist_id);
+
+    const now = new Date();
+    const { data: watch, error: insertError } = await supabase
+      .from('watched_playlists')
+      .insert({
+        user_id: userId,
+        playlist_id: baseline?.playlist_id || null,
+        spotify_playlist_id: source.id,
+        url: baselinePlaylist?.url || `https://open.spotify.com/playlist/${source.id}`,
+        name: playlist.body.name,
+        check_interval_minutes: interval.minutes,
+        last_snapshot_id: playlist.body.snapshot_id,
+        last_analysis_id: baseline?.id || null,
+        last_checked_at: now.toISOString(),
+        next_check_at: nextCheckTime(interval.minutes, 0, now).toISOString(),
+      })
+      .select(WATCHED_PLAYLIST_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error('Database error:', insertError);
+      // Unique violation: watched concurrently
+      const alreadyWatched = insertError.code === '23505';
+      return res.status(alreadyWatched ? 409 : 500).json({
+        error: alreadyWatched ? 'This playlist is already being watched' : 'Failed to watch playlist',
+        code: alreadyWatched ? ErrorCodes.ALREADY_EXISTS : ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    res.status(201).json(watchFromRow(watch));
+  } catch (error: unknown) {
+    handleSpotifyError(error, res);
+  }
+});
 
 /**
- * POST /api/playlists/optimize
- * Suggest playlist optimizations based on taste profile and listening data
+ * DELETE /api/watched-playlists/:id
+ * Stop watching a playlist (its change events are deleted; analyses are kept)
  */
-app.post('/api/playlists/optimize', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+app.delete('/api/watched-playlists/:id', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
     const userId = req.userId;
-    const { playlistId, url } = req.body as { playlistId?: string; url?: string };
-    
-    if (!userToken || !userId || !supabase) {
+    const { id } = req.params;
+
+    if (!userId) {
       return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    if (!playlistId && !url) {
-      return res.status(400).json({
-        error: 'Playlist ID or URL is required',
-        code: 'PLAYLIST_REQUIRED'
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    const extractedPlaylistId = playlistId || extractSpotifyId(url || '');
-    
-    if (!extractedPlaylistId) {
-      return res.status(400).json({
-        error: 'Invalid playlist ID or URL',
-        code: 'INVALID_PLAYLIST'
+    const { data: deleted, error: dbError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('watched_playlists')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId)
+          .select('id')
+      : { data: [], error: null };
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to remove watched playlist',
+        code: ErrorCodes.DATABASE_ERROR
       });
     }
 
-    // Get playlist tracks
-    const playlist = await spotifyApi.getPlaylist(extractedPlaylistId);
-    const tracksResponse = await spotifyApi.getPlaylistTracks(extractedPlaylistId, { limit: 100 });
-    const playlistTracks = (tracksResponse.body.items || [])
-      .map((item: any) => item.track)
-      .filter((t: any) => t && t.id);
-    
-    if (playlistTracks.length === 0) {
-      return res.status(400).json({
-        error: 'Playlist has no tracks',
-        code: 'EMPTY_PLAYLIST'
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({
+        error: 'Watched playlist not found',
+        code: ErrorCodes.NOT_FOUND
       });
     }
-    
-    const playlistTrackIds = playlistTracks.map((t: any) => t.id);
 
-    // Get user's taste profile
-    const [topTracks, topArtists, savedTracks] = await Promise.all([
-      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'medium_term', limit: 50 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMySavedTracks({ limit: 50 }).catch(() => ({ body: { items: [] } })),
-    ]);
+    res.json({ success: true, message: 'Playlist is no longer watched' });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Remove watched playlist endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
 
-    // Get audio features for playlist tracks
-    const audioFeaturesList: any[] = [];
-    for (let i = 0; i < playlistTrackIds.length; i += 100) {
-      const batch = playlistTrackIds.slice(i, i + 100);
-      const featuresResponse = await spotifyApi.getAudioFeaturesForTracks(batch);
-      if (featuresResponse.body.audio_features) {
-        audioFeaturesList.push(...featuresResponse.body.audio_features.filter((f: any) => f !== null));
-      }
-    }
+/**
+ * GET /api/watched-playlists/:id/events
+ * Change events recorded for a watched playlist (newest first)
+ * Query: page, limit
+ * Pagination metadata is returned in X-Total-Count / X-Page / X-Per-Page / X-Total-Pages / X-Has-More / X-Has-Previous headers
+ */
+app.get('/api/watched-playlists/:id/events', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { id } = req.params;
 
-    // Calculate playlist averages (with safety check)
-    if (audioFeaturesList.length === 0) {
-      return res.status(400).json({
-        error: 'No audio features available for playlist',
-        code: 'NO_FEATURES'
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
-    
-    const avgEnergy = audioFeaturesList.reduce((sum, f) => sum + (f.energy || 0), 0) / audioFeaturesList.length;
-    const avgValence = audioFeaturesList.reduce((sum, f) => sum + (f.valence || 0), 0) / audioFeaturesList.length;
-    const avgDanceability = audioFeaturesList.reduce((sum, f) => sum + (f.danceability || 0), 0) / audioFeaturesList.length;
 
-    // Get user's preferred genres from top artists
-    const userGenres = new Set<string>();
-    (topArtists.body.items || []).forEach((artist: any) => {
-      if (artist.genres) {
-        artist.genres.forEach((g: string) => userGenres.add(g));
-      }
-    });
-
-    // Get playlist genres
-    const playlistArtistIds = new Set<string>();
-    playlistTracks.forEach((track: any) => {
-      if (track.artists) {
-        track.artists.forEach((artist: any) => {
-          if (artist.id) playlistArtistIds.add(artist.id);
-        });
-      }
-    });
-
-    const playlistArtists = await Promise.all(
-      Array.from(playlistArtistIds).slice(0, 50).map(id => 
-        spotifyApi.getArtist(id).catch(() => ({ body: { genres: [] } }))
-      )
-    );
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
 
-    const playlistGenres = new Set<string>();
-    playlistArtists.forEach((response: any) => {
-      if (response.body.genres) {
-        response.body.genres.forEach((g: string) => playlistGenres.add(g));
-      }
-    });
+    const { data: watch, error: watchError } = UUID_PATTERN.test(id)
+      ? await supabase
+          .from('watched_playlists')
+          .select('id')
+          .eq('id', id)
+          .eq('user_id', userId)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (watchError) {
+      console.error('Database error:', watchError);
+      return res.status(500).json({
+        error: 'Failed to fetch change events',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
 
-    // Find missing genres
-    const missingGenres = Array.from(userGenres).filter(g => !playlistGenres.has(g));
+    if (!watch) {
+      return res.status(404).json({
+        error: 'Watched playlist not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
 
-    // Generate recommendations to fill gaps
-    const topTrackIds = (topTracks.body.items || [])
-      .map((track: any) => track.id)
-      .filter((id: any): id is string => typeof id === 'string')
-      .slice(0, 5);
+    const { page, limit, from, to } = parsePaginationParams(req.query);
+    const { data: events, error: dbError, count } = await supabase
+      .from('playlist_change_events')
+      .select('id, previous_snapshot_id, snapshot_id, previous_analysis_id, analysis_id, summary, detected_at', { count: 'exact' })
+      .eq('watch_id', watch.id)
+      .order('detected_at', { ascending: false })
+      .range(from, to);
 
-    let suggestions: any[] = [];
-    if (topTrackIds.length > 0) {
-      const recommendations = await spotifyApi.getRecommendations({
-        seed_tracks: topTrackIds,
-        limit: 10,
-        target_energy: avgEnergy,
-        target_valence: avgValence,
-        target_danceability: avgDanceability,
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to fetch change events',
+        code: ErrorCodes.DATABASE_ERROR
       });
-      suggestions = recommendations.body.tracks.filter((track: any) => 
-        !playlistTrackIds.includes(track.id)
-      ).slice(0, 5);
     }
 
-    res.json({
-      playlist: {
-        id: extractedPlaylistId,
-        name: playlist.body.name,
-        trackCount: playlistTracks.length,
-      },
-      analysis: {
-        currentEnergy: Math.round(avgEnergy * 100),
-        currentValence: Math.round(avgValence * 100),
-        currentDanceability: Math.round(avgDanceability * 100),
-        genres: Array.from(playlistGenres),
-      },
-      optimization: {
-        missingGenres,
-        suggestions: suggestions.map((track) => ({
-          id: track.id,
-          name: track.name,
-          artists: track.artists.map((a: any) => a.name),
-          album: track.album.name,
-          albumArt: track.album.images?.[0]?.url,
-          preview_url: track.preview_url,
-        })),
-        score: calculateOptimizationScore(playlistGenres, userGenres, audioFeaturesList.length),
-      },
-    });
+    setPaginationHeaders(res, createPaginationMeta(page, limit, count || 0));
+    res.json((events || []).map(event => ({
+      id: event.id,
+      previousSnapshotId: event.previous_snapshot_id,
+      snapshotId: event.snapshot_id,
+      previousAnalysisId: event.previous_analysis_id,
+      analysisId: event.analysis_id,
+      summary: event.summary,
+      detectedAt: event.detected_at,
+    })));
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('Watched playlist events endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
-// Helper function to calculate optimization score
-function calculateOptimizationScore(playlistGenres: Set<string>, userGenres: Set<string>, trackCount: number): number {
-  const overlap = Array.from(playlistGenres).filter(g => userGenres.has(g)).length;
-  const totalUserGenres = userGenres.size;
-  const genreMatch = totalUserGenres > 0 ? (overlap / totalUserGenres) * 100 : 0;
-  const trackCountScore = Math.min(100, (trackCount / 50) * 100);
-  return Math.round((genreMatch * 0.7) + (trackCountScore * 0.3));
+// ============================================================================
+// TASTE COMPATIBILITY ENDPOINTS
+// ============================================================================
+
+const COMPAT_USER_COLUMNS = 'id, username, display_name, avatar_url';
+const COMPAT_CONSENT_COLUMNS = 'id, user_id, taste_snapshot, snapshot_at';
+
+function compatUserView(row: any) {
+  return {
+    id: row.id,
+    username: row.username || null,
+    displayName: row.display_name || null,
+    avatarUrl: row.avatar_url || null,
+  };
 }
 
 /**
- * POST /api/playlists/generate
- * Generate smart playlists based on taste profile, mood, or activity
+ * The other user of a comparison, by user ID or username (null if not found)
  */
-app.post('/api/playlists/generate', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+async function findCompatUser(identifier: string) {
+  const { data, error } = await supabase!
+    .from('users')
+    .select(COMPAT_USER_COLUMNS)
+    .eq(UUID_PATTERN.test(identifier) ? 'id' : 'username', identifier)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The user's top tracks and artists for every time range (as /api/profile/taste gathers them)
+ * Spotify errors are not swallowed: an expired token must not look like an empty history
+ */
+async function fetchTasteSnapshot(spotifyApi: SpotifyWebApi): Promise<TasteSnapshot> {
+  const limit = TASTE_COMPAT.TOP_ITEMS_LIMIT;
+  const [tracks, artists] = await Promise.all([
+    Promise.all(TASTE_TIME_RANGES.map(time_range => spotifyApi.getMyTopTracks({ time_range, limit }))),
+    Promise.all(TASTE_TIME_RANGES.map(time_range => spotifyApi.getMyTopArtists({ time_range, limit }))),
+  ]);
+  const byRange = (responses: { body: { items: any[] } }[]) =>
+    Object.fromEntries(TASTE_TIME_RANGES.map((range, i) => [range, responses[i].body.items || []])) as Record<TasteTimeRange, any[]>;
+  return buildTasteSnapshot(byRange(tracks), byRange(artists));
+}
+
+/**
+ * POST /api/compat/consents
+ * Agree to compare tastes with another user; stores a snapshot of your top tracks and
+ * artists (all time ranges) that only that user's comparisons can use
+ * Body: { user: string } (user ID or username)
+ * Posting again refreshes the snapshot
+ */
+app.post('/api/compat/consents', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
     const userId = req.userId;
-    const { type, mood, activity, limit = 30 } = req.body as { 
-      type?: string; 
-      mood?: string; 
-      activity?: string; 
-      limit?: number;
-    };
-    
-    if (!userToken || !userId) {
+    const userToken = req.spotifyToken;
+    const { user } = req.body as { user?: string };
+
+    if (!userId) {
       return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
-    let recommendationParams: any = { limit: Math.min(limit, 50) };
-
-    // Activity-based playlists
-    if (activity === 'workout') {
-      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 5 })
-        .catch(() => ({ body: { items: [] } }));
-      recommendationParams.seed_tracks = (topTracks.body.items || [])
-        .map((t: any) => t.id)
-        .filter((id: any): id is string => typeof id === 'string')
-        .slice(0, 5);
-      recommendationParams.target_energy = 0.8;
-      recommendationParams.min_energy = 0.7;
-      recommendationParams.target_danceability = 0.8;
-    } else if (activity === 'study') {
-      const savedTracks = await spotifyApi.getMySavedTracks({ limit: 10 })
-        .catch(() => ({ body: { items: [] } }));
-      recommendationParams.seed_tracks = (savedTracks.body.items || [])
-        .map((item: any) => item.track?.id)
-        .filter((id: any): id is string => typeof id === 'string')
-        .slice(0, 5);
-      recommendationParams.target_energy = 0.3;
-      recommendationParams.max_energy = 0.5;
-      recommendationParams.target_instrumentalness = 0.5;
-    } else if (activity === 'party') {
-      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 5 })
-        .catch(() => ({ body: { items: [] } }));
-      recommendationParams.seed_tracks = (topTracks.body.items || [])
-        .map((t: any) => t.id)
-        .filter((id: any): id is string => typeof id === 'string')
-        .slice(0, 5);
-      recommendationParams.target_energy = 0.9;
-      recommendationParams.target_danceability = 0.9;
-      recommendationParams.target_valence = 0.8;
-    } else if (mood) {
-      // Mood-based (reuse mood playlist logic)
-      const recentlyPlayed = await spotifyApi.getMyRecentlyPlayedTracks({ limit: 5 })
-        .catch(() => ({ body: { items: [] } }));
-      recommendationParams.seed_tracks = (recentlyPlayed.body.items || [])
-        .map((item: any) => item.track?.id)
-        .filter((id: any): id is string => typeof id === 'string')
-        .slice(0, 5);
-      
-      if (mood === 'happy_energetic') {
-        recommendationParams.target_energy = 0.8;
-        recommendationParams.target_valence = 0.8;
-      } else if (mood === 'chill') {
-        recommendationParams.target_energy = 0.3;
-        recommendationParams.target_tempo = 70;
-      }
-    } else {
-      // Default: taste profile based
-      const topTracks = await spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 5 })
-        .catch(() => ({ body: { items: [] } }));
-      recommendationParams.seed_tracks = (topTracks.body.items || [])
-        .map((t: any) => t.id)
-        .filter((id: any): id is string => typeof id === 'string')
-        .slice(0, 5);
+    if (!userToken) {
+      return res.status(401).json({
+        error: 'Spotify access token required',
+        code: ErrorCodes.TOKEN_REQUIRED
+      });
     }
 
-    // Fallback to default genres
-    if (!recommendationParams.seed_tracks || recommendationParams.seed_tracks.length === 0) {
-      recommendationParams.seed_genres = ['pop', 'indie', 'rock'];
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
     }
 
-    const recommendations = await spotifyApi.getRecommendations(recommendationParams);
-    
-    res.json({
-      type: type || 'taste_profile',
-      mood,
-      activity,
-      tracks: recommendations.body.tracks,
-      total: recommendations.body.tracks.length,
+    if (!user || typeof user !== 'string' || !user.trim()) {
+      return res.status(400).json({
+        error: 'user is required (user ID or username)',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
+
+    const target = await findCompatUser(user.trim());
+    if (!target) {
+      return res.status(404).json({
+        error: 'User not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    if (target.id === userId) {
+      return res.status(400).json({
+        error: 'You cannot compare tastes with yourself',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const snapshot = await fetchTasteSnapshot(createSpotifyApi(userToken));
+    if (isEmptyTasteSnapshot(snapshot)) {
+      return res.status(400).json({
+        error: 'Spotify has no top tracks or artists for your account yet',
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+
+    const { data: consent, error: dbError } = await supabase
+      .from('taste_compat_consents')
+      .upsert({
+        user_id: userId,
+        target_user_id: target.id,
+        taste_snapshot: snapshot,
+        snapshot_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,target_user_id' })
+      .select('snapshot_at, created_at')
+      .single();
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to save consent',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    const { data: reverse } = await supabase
+      .from('taste_compat_consents')
+      .select('id')
+      .eq('user_id', target.id)
+      .eq('target_user_id', userId)
+      .maybeSingle();
+
+    res.status(201).json({
+      user: compatUserView(target),
+      snapshotAt: consent.snapshot_at,
+      createdAt: consent.created_at,
+      mutual: !!reverse,
     });
   } catch (error: unknown) {
     handleSpotifyError(error, res);
@@ -3587,193 +8113,295 @@ app.post('/api/playlists/generate', extractSpotifyToken, extractSupabaseToken, a
 });
 
 /**
- * GET /api/discovery/timeline
- * Generate discovery timeline tracking music discovery and taste evolution
+ * GET /api/compat/consents
+ * Consents you have given and received; a pair can be compared once both are in place
  */
-app.get('/api/discovery/timeline', extractSpotifyToken, extractSupabaseToken, async (req: SpotifyRequest & SupabaseRequest, res) => {
+app.get('/api/compat/consents', extractSupabaseToken, async (req: SupabaseRequest, res) => {
   try {
-    const userToken = req.spotifyToken;
     const userId = req.userId;
-    
-    if (!userToken || !userId || !supabase) {
+
+    if (!userId) {
       return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    const spotifyApi = createSpotifyApi(userToken);
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
+      });
+    }
 
-    // Get top tracks across different time ranges
-    const [topTracksShort, topTracksMedium, topTracksLong, topArtistsShort, topArtistsLong] = await Promise.all([
-      spotifyApi.getMyTopTracks({ time_range: 'short_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopTracks({ time_range: 'medium_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopTracks({ time_range: 'long_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'short_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
-      spotifyApi.getMyTopArtists({ time_range: 'long_term', limit: 20 }).catch(() => ({ body: { items: [] } })),
+    const [granted, received] = await Promise.all([
+      supabase
+        .from('taste_compat_consents')
+        .select('target_user_id, snapshot_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('taste_compat_consents')
+        .select('user_id, created_at')
+        .eq('target_user_id', userId)
+        .order('created_at', { ascending: false }),
     ]);
 
-    // Get analyses from database (ordered by date)
-    const { data: analyses } = await supabase
-      .from('analyses')
-      .select('created_at, genre_distribution, personality_type, audio_dna')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: true });
+    if (granted.error || received.error) {
+      console.error('Database error:', granted.error || received.error);
+      return res.status(500).json({
+        error: 'Failed to fetch consents',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
 
-    // Analyze genre evolution
-    const genreEvolution: { [key: string]: { firstSeen: string; frequency: number } } = {};
-    const timelineEvents: any[] = [];
+    const grantedTo = new Set((granted.data || []).map(c => c.target_user_id));
+    const receivedFrom = new Set((received.data || []).map(c => c.user_id));
+    const userIds = Array.from(new Set([...grantedTo, ...receivedFrom]));
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('users').select(COMPAT_USER_COLUMNS).in('id', userIds)
+      : { data: [] };
+    const usersById = new Map((users || []).map((u: any) => [u.id, u]));
 
-    if (analyses) {
-      analyses.forEach((analysis: any, index: number) => {
-        const date = analysis.created_at;
-        const genres = analysis.genre_distribution || [];
-        
-        genres.forEach((genre: any) => {
-          const genreName = genre.name || genre;
-          if (!genreEvolution[genreName]) {
-            genreEvolution[genreName] = {
-              firstSeen: date,
-              frequency: 0,
-            };
-            timelineEvents.push({
-              type: 'genre_discovery',
-              date,
-              genre: genreName,
-              description: `Discovered ${genreName}`,
-            });
-          }
-          genreEvolution[genreName].frequency++;
-        });
+    res.json({
+      granted: (granted.data || []).map(c => ({
+        user: compatUserView(usersById.get(c.target_user_id) || { id: c.target_user_id }),
+        snapshotAt: c.snapshot_at,
+        createdAt: c.created_at,
+        mutual: receivedFrom.has(c.target_user_id),
+      })),
+      received: (received.data || []).map(c => ({
+        user: compatUserView(usersById.get(c.user_id) || { id: c.user_id }),
+        createdAt: c.created_at,
+        mutual: grantedTo.has(c.user_id),
+      })),
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('List compat consents endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
+  }
+});
 
-        if (index === 0 || index === analyses.length - 1) {
-          timelineEvents.push({
-            type: 'milestone',
-            date,
-            description: index === 0 
-              ? 'First playlist analyzed' 
-              : 'Latest playlist analyzed',
-            personality: analysis.personality_type,
-          });
-        }
+/**
+ * DELETE /api/compat/consents/:userId
+ * Revoke the consent you gave a user; your snapshot and every cached comparison of the
+ * pair (in both directions) are deleted with it
+ */
+app.delete('/api/compat/consents/:userId', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+  try {
+    const userId = req.userId;
+    const { userId: targetUserId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
-    // Compare short-term vs long-term to find new discoveries
-    const shortTermArtists = new Set((topArtistsShort.body.items || []).map((a: any) => a.id));
-    const longTermArtists = new Set((topArtistsLong.body.items || []).map((a: any) => a.id));
-    const newArtists = (topArtistsShort.body.items || [])
-      .filter((a: any) => !longTermArtists.has(a.id))
-      .slice(0, 5);
-
-    newArtists.forEach((artist: any) => {
-      timelineEvents.push({
-        type: 'artist_discovery',
-        date: new Date().toISOString(),
-        artist: {
-          id: artist.id,
-          name: artist.name,
-          genres: artist.genres || [],
-        },
-        description: `New favorite: ${artist.name}`,
+    if (!supabase) {
+      return res.status(503).json({
+        error: 'Database not configured',
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
-    });
+    }
 
-    // Sort timeline by date
-    timelineEvents.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    // Cached results reference both consents and cascade with them
+    const { data: deleted, error: dbError } = UUID_PATTERN.test(targetUserId)
+      ? await supabase
+          .from('taste_compat_consents')
+          .delete()
+          .eq('user_id', userId)
+          .eq('target_user_id', targetUserId)
+          .select('id')
+      : { data: [], error: null };
 
-    // Calculate taste evolution metrics
-    const shortTermGenres = new Set(
-      (topArtistsShort.body.items || []).flatMap((a: any) => a.genres || [])
-    );
-    const longTermGenres = new Set(
-      (topArtistsLong.body.items || []).flatMap((a: any) => a.genres || [])
-    );
-    const genreExpansion = Array.from(shortTermGenres).filter(g => !longTermGenres.has(g)).length;
-    const genreStability = Array.from(shortTermGenres).filter(g => longTermGenres.has(g)).length;
+    if (dbError) {
+      console.error('Database error:', dbError);
+      return res.status(500).json({
+        error: 'Failed to revoke consent',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
 
-    res.json({
-      timeline: timelineEvents,
-      evolution: {
-        genreExpansion,
-        genreStability,
-        totalGenresDiscovered: Object.keys(genreEvolution).length,
-        newArtistsCount: newArtists.length,
-        analysesCount: analyses?.length || 0,
-      },
-      genres: Object.entries(genreEvolution)
-        .map(([name, data]) => ({ name, ...data }))
-        .sort((a, b) => b.frequency - a.frequency)
-        .slice(0, 10),
-      periods: {
-        shortTerm: {
-          tracks: topTracksShort.body.items?.length || 0,
-          artists: topArtistsShort.body.items?.length || 0,
-          genres: shortTermGenres.size,
-        },
-        longTerm: {
-          tracks: topTracksLong.body.items?.length || 0,
-          artists: topArtistsLong.body.items?.length || 0,
-          genres: longTermGenres.size,
-        },
-      },
-    });
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({
+        error: 'Consent not found',
+        code: ErrorCodes.NOT_FOUND
+      });
+    }
+
+    res.json({ success: true, message: 'Consent revoked' });
   } catch (error: unknown) {
-    handleSpotifyError(error, res);
+    const err = error as Error;
+    console.error('Revoke compat consent endpoint error:', err);
+    res.status(500).json({
+      error: err.message || 'Internal server error',
+      code: ErrorCodes.INTERNAL_ERROR
+    });
   }
 });
 
 /**
- * GET /api/stats
- * Get user statistics
+ * POST /api/compat/users
+ * Taste compatibility with another user: score, shared artists/tracks/genres and the
+ * biggest differences, from both users' consent snapshots
+ * Body: { user: string } (user ID or username)
+ * Both users must have given consent to each other. Results are cached until either
+ * snapshot changes (or RESULT_TTL_HOURS pass); with a Spotify token, your own snapshot
+ * is refreshed first once it is older than SNAPSHOT_MAX_AGE_HOURS
  */
-app.get('/api/stats', extractSupabaseToken, async (req: SupabaseRequest, res) => {
+app.post('/api/compat/users', extractSupabaseToken, extractSpotifyToken, async (req: SupabaseRequest & SpotifyRequest, res) => {
   try {
     const userId = req.userId;
-    
+    const { user } = req.body as { user?: string };
+
     if (!userId) {
-      return res.status(401).json({ 
+      return res.status(401).json({
         error: 'Authentication required',
-        code: 'UNAUTHORIZED'
+        code: ErrorCodes.AUTH_REQUIRED
       });
     }
 
     if (!supabase) {
-      return res.status(503).json({ 
+      return res.status(503).json({
         error: 'Database not configured',
-        code: 'DB_NOT_CONFIGURED'
+        code: ErrorCodes.SERVICE_UNAVAILABLE
       });
     }
 
-    // Query user_stats view (RLS will automatically filter by user_id)
-    const { data: stats, error: dbError } = await supabase
-      .from('user_stats')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
+    if (!user || typeof user !== 'string' || !user.trim()) {
+      return res.status(400).json({
+        error: 'user is required (user ID or username)',
+        code: ErrorCodes.MISSING_REQUIRED_FIELD
+      });
+    }
 
-    if (dbError) {
-      console.error('Database error:', dbError);
-      return res.status(500).json({ 
-        error: 'Failed to fetch stats',
-        code: 'DB_ERROR'
+    const other = await findCompatUser(user.trim());
+    if (!other) {
+      return res.status(404).json({
+        error: 'User not found',
+        code: ErrorCodes.NOT_FOUND
       });
     }
 
-    // Return stats with default values if null
-    res.json({
-      analysesCount: stats?.analyses_count || 0,
-      battlesCount: stats?.battles_count || 0,
-      savedPlaylistsCount: stats?.saved_playlists_count || 0,
-      averageRating: stats?.average_rating || 0,
-      averageHealthScore: stats?.average_health_score || 0,
-      lastAnalysisAt: stats?.last_analysis_at || null,
-      lastBattleAt: stats?.last_battle_at || null,
+    if (other.id === userId) {
+      return res.status(400).json({
+        error: 'You cannot compare tastes with yourself',
+        code: ErrorCodes.INVALID_INPUT
+      });
+    }
+
+    const { data: consents, error: consentError } = await supabase
+      .from('taste_compat_consents')
+      .select(COMPAT_CONSENT_COLUMNS)
+      .or(`and(user_id.eq.${userId},target_user_id.eq.${other.id}),and(user_id.eq.${other.id},target_user_id.eq.${userId})`);
+
+    if (consentError) {
+      console.error('Database error:', consentError);
+      return res.status(500).json({
+        error: 'Failed to check consent',
+        code: ErrorCodes.DATABASE_ERROR
+      });
+    }
+
+    let ownConsent = (consents || []).find(c => c.user_id === userId);
+    const otherConsent = (consents || []).find(c => c.user_id === other.id);
+
+    if (!ownConsent) {
+      return res.status(403).json({
+        error: 'Give consent to compare with this user first (POST /api/compat/consents)',
+        code: ErrorCodes.CONSENT_REQUIRED
+      });
+    }
+
+    if (!otherConsent) {
+      return res.status(403).json({
+        error: `${other.display_name || other.username || 'This user'} has not agreed to compare tastes with you`,
+        code: ErrorCodes.CONSENT_REQUIRED
+      });
+    }
+
+    const now = new Date();
+    const snapshotAgeMs = now.getTime() - new Date(ownConsent.snapshot_at).getTime();
+    if (req.spotifyToken && snapshotAgeMs > TASTE_COMPAT.SNAPSHOT_MAX_AGE_HOURS * 60 * 60 * 1000) {
+      // Best effort: the stored snapshot still works if Spotify can't be reached
+      // (e.g. an expired or under-scoped token)
+      try {
+        const snapshot = await fetchTasteSnapshot(createSpotifyApi(req.spotifyToken));
+        if (!isEmptyTasteSnapshot(snapshot)) {
+          const { data: refreshed, error: refreshError } = await supabase
+            .from('taste_compat_consents')
+            .update({ taste_snapshot: snapshot, snapshot_at: now.toISOString() })
+            .eq('id', ownConsent.id)
+            .select(COMPAT_CONSENT_COLUMNS)
+            .single();
+          if (refreshError) {
+            console.warn('Failed to refresh taste snapshot:', refreshError);
+          } else {
+            ownConsent = refreshed;
+          }
+        }
+      } catch (refreshError) {
+        console.warn('Failed to refresh taste snapshot:', refreshError);
+      }
+    }
+
+    const sameInstant = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+    const { data: cached, error: cacheError } = await supabase
+      .from('taste_compat_results')
+      .select('result, user_snapshot_at, other_snapshot_at, computed_at, expires_at')
+      .eq('user_id', userId)
+      .eq('other_user_id', other.id)
+      .maybeSingle();
+    if (cacheError) {
+      // A cache miss only costs recomputing
+      console.warn('Failed to load cached taste compatibility:', cacheError);
+    }
+
+    const snapshots = { user: ownConsent.snapshot_at, other: otherConsent.snapshot_at };
+    const respond = (result: TasteCompatibility, computedAt: string, fromCache: boolean) => res.json({
+      user: compatUserView(other),
+      ...result,
+      snapshots,
+      computedAt,
+      cached: fromCache,
     });
+
+    if (
+      cached &&
+      sameInstant(cached.user_snapshot_at, ownConsent.snapshot_at) &&
+      sameInstant(cached.other_snapshot_at, otherConsent.snapshot_at) &&
+      new Date(cached.expires_at).getTime() > now.getTime()
+    ) {
+      return respond(cached.result, cached.computed_at, true);
+    }
+
+    const result = compareTastes(ownConsent.taste_snapshot, otherConsent.taste_snapshot);
+    const { error: saveError } = await supabase
+      .from('taste_compat_results')
+      .upsert({
+        user_id: userId,
+        other_user_id: other.id,
+        user_consent_id: ownConsent.id,
+        other_consent_id: otherConsent.id,
+        user_snapshot_at: ownConsent.snapshot_at,
+        other_snapshot_at: otherConsent.snapshot_at,
+        result,
+        computed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + TASTE_COMPAT.RESULT_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      }, { onConflict: 'user_id,other_user_id' });
+    if (saveError) {
+      console.error('Error caching taste compatibility:', saveError);
+    }
+
+    respond(result, now.toISOString(), false);
   } catch (error: unknown) {
-    const err = error as Error;
-    console.error('Stats endpoint error:', err);
-    res.status(500).json({ error: err.message || 'Internal server error' });
+    handleSpotifyError(error, res);
   }
 });
 
@@ -3833,6 +8461,11 @@ app.listen(PORT, () => {
   console.log(`📝 Spotify Client ID: ${process.env.SPOTIFY_CLIENT_ID ? '✅ Configured' : '❌ Missing'}`);
   console.log(`🔐 Client Secret: ${process.env.SPOTIFY_CLIENT_SECRET ? '⚠️  Still configured (should be removed)' : '✅ Removed (correct)'}`);
   console.log(`🗄️  Supabase: ${supabase ? '✅ Connected' : '❌ Not configured'}`);
+
+  if (playlistWatchScheduler) {
+    playlistWatchScheduler.start();
+  }
+  console.log(`👀 Playlist watcher: ${playlistWatchScheduler ? '✅ Running' : '❌ Disabled'}`);
   
   // Log URL for local development
   if (process.env.NODE_ENV !== 'production') {
@@ -0,0 +1,214 @@
+// Analysis diffs
+// How a playlist changed between two of its analyses: added and removed tracks
+// (from the per-analysis snapshots), Audio DNA deltas, genre shifts and the
+// health-score trend over the analyses in between
+
+import { ANALYSIS_DIFF } from '../constants/analysis';
+import { genreDisplayName, genreKey } from './genreTaxonomy';
+
+export interface SnapshotTrack {
+  id: string;
+  name: string;
+  artists: string[];
+}
+
+export interface AnalysisSnapshot {
+  spotifySnapshotId: string | null;
+  trackIds: string[];
+  tracks: SnapshotTrack[];
+}
+
+export interface DiffableAnalysis {
+  id: string;
+  createdAt: string;
+  healthScore: number | null;
+  overallRating: number | null;
+  personalityType: string | null;
+  audioDna: Record<string, number> | null;
+  genreDistribution: { name: string; value: number }[];
+  snapshot: AnalysisSnapshot | null; // null for analyses saved before snapshots existed
+}
+
+export interface ValueChange {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface GenreShift {
+  name: string;
+  from: number; // % share, 0 when absent
+  to: number;
+  delta: number; // Percentage points
+}
+
+export interface AnalysisDiff {
+  from: AnalysisDiffEndpoint;
+  to: AnalysisDiffEndpoint;
+  tracks: {
+    added: SnapshotTrack[];
+    removed: SnapshotTrack[];
+    addedCount: number;
+    removedCount: number;
+    keptCount: number;
+    truncated: boolean; // added/removed lists capped at MAX_LISTED_TRACKS
+  } | null; // null when either analysis has no snapshot
+  unchanged: boolean | null; // Same Spotify snapshot_id (null when unknown)
+  audioDna: Record<string, ValueChange>;
+  genres: {
+    shifts: GenreShift[]; // Largest change first
+    entered: string[];
+    left: string[];
+  };
+  healthScore: ValueChange & {
+    timeline: { analysisId: string; createdAt: string; healthScore: number | null; overallRating: number | null }[];
+  };
+  overallRating: ValueChange;
+  personalityType: { from: string | null; to: string | null; changed: boolean };
+}
+
+interface AnalysisDiffEndpoint {
+  analysisId: string;
+  createdAt: string;
+  trackCount: number | null;
+  spotifySnapshotId: string | null;
+}
+
+const round = (value: number, digits: number = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function valueChange(from: number | null | undefined, to: number | null | undefined): ValueChange {
+  const a = typeof from === 'number' ? from : null;
+  const b = typeof to === 'number' ? to : null;
+  return { from: a, to: b, delta: a !== null && b !== null ? round(b - a, 2) : null };
+}
+
+function endpoint(analysis: DiffableAnalysis): AnalysisDiffEndpoint {
+  return {
+    analysisId: analysis.id,
+    createdAt: analysis.createdAt,
+    trackCount: analysis.snapshot ? analysis.snapshot.trackIds.length : null,
+    spotifySnapshotId: analysis.snapshot?.spotifySnapshotId || null,
+  };
+}
+
+/**
+ * Tracks in `to` but not `from` and vice versa (by track ID, ignoring order and duplicates)
+ */
+export function diffTrackLists(from: AnalysisSnapshot, to: AnalysisSnapshot): NonNullable<AnalysisDiff['tracks']> {
+  const fromIds = new Set(from.trackIds);
+  const toIds = new Set(to.trackIds);
+  const details = new Map<string, SnapshotTrack>();
+  [...from.tracks, ...to.tracks].forEach(track => details.set(track.id, track));
+  const describe = (id: string): SnapshotTrack => details.get(id) || { id, name: 'Unknown', artists: [] };
+
+  const added = Array.from(toIds).filter(id => !fromIds.has(id));
+  const removed = Array.from(fromIds).filter(id => !toIds.has(id));
+  const max = ANALYSIS_DIFF.MAX_LISTED_TRACKS;
+
+  return {
+    added: added.slice(0, max).map(describe),
+    removed: removed.slice(0, max).map(describe),
+    addedCount: added.length,
+    removedCount: removed.length,
+    keptCount: Array.from(toIds).filter(id => fromIds.has(id)).length,
+    truncated: added.length > max || removed.length > max,
+  };
+}
+
+/**
+ * Genre share changes between two genre distributions (matched by genreKey)
+ */
+export function diffGenreDistributions(
+  from: { name: string; value: number }[],
+  to: { name: string; value: number }[]
+): AnalysisDiff['genres'] {
+  const shares = new Map<string, { from: number; to: number }>();
+  from.forEach(g => {
+    const key = genreKey(g.name);
+    if (key) shares.set(key, { from: (shares.get(key)?.from || 0) + g.value, to: 0 });
+  });
+  to.forEach(g => {
+    const key = genreKey(g.name);
+    if (!key) return;
+    const entry = shares.get(key) || { from: 0, to: 0 };
+    entry.to += g.value;
+    shares.set(key, entry);
+  });
+
+  const shifts: GenreShift[] = Array.from(shares.entries())
+    .map(([key, share]) => ({
+      name: genreDisplayName(key),
+      from: round(share.from),
+      to: round(share.to),
+      delta: round(share.to - share.from),
+    }))
+    .filter(shift => Math.abs(shift.delta) >= ANALYSIS_DIFF.MIN_GENRE_SHIFT)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name));
+
+  return {
+    shifts,
+    entered: shifts.filter(s => s.from === 0 && s.to > 0).map(s => s.name),
+    left: shifts.filter(s => s.to === 0 && s.from > 0).map(s => s.name),
+  };
+}
+
+/**
+ * Compare two analyses of the same playlist
+ * `between` holds every analysis of the playlist from `from` to `to` (inclusive), oldest first
+ */
+export function diffAnalyses(
+  from: DiffableAnalysis,
+  to: DiffableAnalysis,
+  between: DiffableAnalysis[] = [from, to]
+): AnalysisDiff {
+  const dnaKeys = Array.from(new Set([
+    ...Object.keys(from.audioDna || {}),
+    ...Object.keys(to.audioDna || {}),
+  ]));
+  const audioDna: Record<string, ValueChange> = {};
+  dnaKeys.forEach(key => {
+    audioDna[key] = valueChange(from.audioDna?.[key], to.audioDna?.[key]);
+  });
+
+  const fromSnapshotId = from.snapshot?.spotifySnapshotId || null;
+  const toSnapshotId = to.snapshot?.spotifySnapshotId || null;
+
+  return {
+    from: endpoint(from),
+    to: endpoint(to),
+    tracks: from.snapshot && to.snapshot ? diffTrackLists(from.snapshot, to.snapshot) : null,
+    unchanged: fromSnapshotId && toSnapshotId ? fromSnapshotId === toSnapshotId : null,
+    audioDna,
+    genres: diffGenreDistributions(from.genreDistribution || [], to.genreDistribution || []),
+    healthScore: {
+      ...valueChange(from.healthScore, to.healthScore),
+      timeline: between.map(analysis => ({
+        analysisId: analysis.id,
+        createdAt: analysis.createdAt,
+        healthScore: analysis.healthScore,
+        overallRating: analysis.overallRating,
+      })),
+    },
+    overallRating: valueChange(from.overallRating, to.overallRating),
+    personalityType: {
+      from: from.personalityType,
+      to: to.personalityType,
+      changed: from.personalityType !== to.personalityType,
+    },
+  };
+}
+
+/**
+ * Compact summary of a diff, stored with playlist change events
+ */
+export function summarizeAnalysisDiff(diff: AnalysisDiff) {
+  return {
+    addedCount: diff.tracks?.addedCount ?? null,
+    removedCount: diff.tracks?.removedCount ?? null,
+    trackCount: diff.to.trackCount,
+    healthScore: { from: diff.healthScore.from, to: diff.healthScore.to, delta: diff.healthScore.delta },
+    personalityType: diff.personalityType,
+    topGenreShifts: diff.genres.shifts.slice(0, 3),
+  };
+}
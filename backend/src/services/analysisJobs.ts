@@ -0,0 +1,184 @@
+// Analysis job store
+// Tracks background analyses (status, stage, percent) in memory, notifies
+// progress listeners (SSE streams) and mirrors every change to persistence
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ErrorCodes } from '../types/api';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  userId: string | null;
+  sourceUrl: string;
+  sourceType: string;
+  status: AnalysisJobStatus;
+  stage: string;
+  percent: number;
+  result: any | null;
+  error: { error: string; code: string } | null;
+  analysisId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface AnalysisJobPersistence {
+  save(job: AnalysisJob): Promise<void>;
+  load(id: string): Promise<AnalysisJob | null>;
+}
+
+export type AnalysisJobListener = (job: AnalysisJob) => void;
+
+// Minimum progress change within a stage before it is written to persistence
+const PERSIST_PERCENT_STEP = 5;
+
+// Finished jobs are kept in memory for 30 minutes, then only in persistence
+const FINISHED_JOB_TTL_MS = 30 * 60 * 1000;
+
+export const isFinishedJob = (job: AnalysisJob) =>
+  job.status === 'completed' || job.status === 'failed';
+
+export class AnalysisJobStore {
+  private jobs = new Map<string, AnalysisJob>();
+  private events = new EventEmitter();
+  private persistence: AnalysisJobPersistence | null;
+  // Writes are chained per job so a slow progress write can't land after the final one
+  private writes = new Map<string, Promise<void>>();
+  private lastPersisted = new Map<string, { stage: string; percent: number }>();
+
+  constructor(persistence: AnalysisJobPersistence | null = null) {
+    this.persistence = persistence;
+    // One listener per open SSE stream
+    this.events.setMaxListeners(0);
+
+    // Clean up finished jobs every 5 minutes
+    setInterval(() => {
+      const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+      this.jobs.forEach((job, id) => {
+        if (isFinishedJob(job) && new Date(job.updatedAt).getTime() < cutoff) {
+          this.jobs.delete(id);
+          this.lastPersisted.delete(id);
+        }
+      });
+    }, 5 * 60 * 1000).unref();
+  }
+
+  async create(input: { userId: string | null; sourceUrl: string; sourceType: string }): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      userId: input.userId,
+      sourceUrl: input.sourceUrl,
+      sourceType: input.sourceType,
+      status: 'queued',
+      stage: 'queued',
+      percent: 0,
+      result: null,
+      error: null,
+      analysisId: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist(job);
+    return job;
+  }
+
+  /**
+   * Apply changes to a job, notify listeners and persist
+   * Percent never moves backwards
+   */
+  async update(id: string, changes: Partial<Omit<AnalysisJob, 'id' | 'createdAt'>>): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const previousPercent = job.percent;
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    if (changes.percent !== undefined) {
+      job.percent = Math.max(previousPercent, Math.min(100, Math.round(changes.percent)));
+    }
+    if (isFinishedJob(job) && !job.completedAt) {
+      job.completedAt = job.updatedAt;
+    }
+
+    this.events.emit(id, { ...job });
+
+    // Progress within a stage is only persisted in steps of PERSIST_PERCENT_STEP
+    const last = this.lastPersisted.get(id);
+    if (!isFinishedJob(job) && last && last.stage === job.stage && job.percent - last.percent < PERSIST_PERCENT_STEP) {
+      return job;
+    }
+    await this.persist(job);
+    return job;
+  }
+
+  /**
+   * Get a job from memory, falling back to persistence
+   * Unfinished jobs that are only in persistence were interrupted by a restart
+   */
+  async get(id: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    if (job) return { ...job };
+    if (!this.persistence) return null;
+
+    try {
+      const stored = await this.persistence.load(id);
+      if (stored && !isFinishedJob(stored)) {
+        return {
+          ...stored,
+          status: 'failed',
+          error: { error: 'Analysis was interrupted. Please start a new job.', code: ErrorCodes.JOB_INTERRUPTED },
+        };
+      }
+      return stored;
+    } catch (error) {
+      console.error('Error loading analysis job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a job only if it is still held in memory
+   */
+  getCached(id: string): AnalysisJob | null {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  /**
+   * Subscribe to progress updates for a job
+   * Returns an unsubscribe function
+   */
+  subscribe(id: string, listener: AnalysisJobListener): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private persist(job: AnalysisJob): Promise<void> {
+    if (!this.persistence) return Promise.resolve();
+
+    const persistence = this.persistence;
+    const snapshot = { ...job };
+    this.lastPersisted.set(job.id, { stage: job.stage, percent: job.percent });
+
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous
+      .then(() => persistence.save(snapshot))
+      .catch(error => {
+        // Persistence failures never fail the job itself
+        console.error('Error saving analysis job:', error);
+      });
+
+    this.writes.set(job.id, write);
+    write.then(() => {
+      if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+    });
+    return write;
+  }
+}
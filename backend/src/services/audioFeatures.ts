@@ -0,0 +1,235 @@
+// Audio features providers
+// A cache layer (memory, then the tracks table) in front of the Spotify audio-features
+// endpoint, with a local fallback that estimates features from genres when Spotify
+// has no data or the endpoint is restricted for the app
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import { AUDIO_FEATURES_CACHE, BATCH_SIZES, CACHE_TTL } from '../constants/analysis';
+import { GenreFamily, classifyGenre, genreRankWeight } from './genreTaxonomy';
+
+export interface AudioFeatures {
+  id: string;
+  energy: number;
+  danceability: number;
+  valence: number;
+  acousticness: number;
+  instrumentalness: number;
+  tempo: number;
+  key?: number;
+  mode?: number;
+  estimated?: boolean; // Set by the local fallback; never served from the cache
+  [feature: string]: any;
+}
+
+export interface AudioFeaturesRequest {
+  id: string;
+  genres?: string[][]; // Genre list of each of the track's artists (used by the local fallback)
+  durationMs?: number;
+}
+
+export interface AudioFeaturesProvider {
+  readonly name: string;
+  // Returns features for the tracks it knows; missing tracks are left out
+  getFeatures(requests: AudioFeaturesRequest[]): Promise<Map<string, AudioFeatures>>;
+}
+
+export interface AudioFeaturesPersistence {
+  // Stored features no older than maxAgeSeconds, keyed by track ID
+  load(trackIds: string[], maxAgeSeconds: number): Promise<Map<string, AudioFeatures>>;
+}
+
+type FeatureProfile = Pick<AudioFeatures, 'energy' | 'danceability' | 'valence' | 'acousticness' | 'instrumentalness' | 'tempo'>;
+
+// Typical audio profile per genre family, used when a track has no measured features
+const FAMILY_PROFILES: Record<GenreFamily, FeatureProfile> = {
+  'Pop': { energy: 0.65, danceability: 0.65, valence: 0.55, acousticness: 0.2, instrumentalness: 0.02, tempo: 118 },
+  'Rock': { energy: 0.75, danceability: 0.5, valence: 0.5, acousticness: 0.1, instrumentalness: 0.05, tempo: 125 },
+  'Metal': { energy: 0.9, danceability: 0.4, valence: 0.35, acousticness: 0.02, instrumentalness: 0.1, tempo: 130 },
+  'Hip Hop': { energy: 0.65, danceability: 0.75, valence: 0.5, acousticness: 0.12, instrumentalness: 0.01, tempo: 110 },
+  'R&B & Soul': { energy: 0.55, danceability: 0.68, valence: 0.5, acousticness: 0.25, instrumentalness: 0.02, tempo: 105 },
+  'Electronic': { energy: 0.78, danceability: 0.68, valence: 0.45, acousticness: 0.06, instrumentalness: 0.45, tempo: 124 },
+  'Latin': { energy: 0.75, danceability: 0.75, valence: 0.68, acousticness: 0.18, instrumentalness: 0.01, tempo: 110 },
+  'Country & Folk': { energy: 0.5, danceability: 0.55, valence: 0.55, acousticness: 0.5, instrumentalness: 0.02, tempo: 115 },
+  'Jazz & Blues': { energy: 0.4, danceability: 0.55, valence: 0.5, acousticness: 0.6, instrumentalness: 0.35, tempo: 110 },
+  'Classical': { energy: 0.2, danceability: 0.3, valence: 0.25, acousticness: 0.9, instrumentalness: 0.85, tempo: 100 },
+  'Reggae': { energy: 0.6, danceability: 0.75, valence: 0.68, acousticness: 0.15, instrumentalness: 0.02, tempo: 100 },
+  'World': { energy: 0.65, danceability: 0.65, valence: 0.6, acousticness: 0.3, instrumentalness: 0.1, tempo: 112 },
+  'Other': { energy: 0.55, danceability: 0.58, valence: 0.5, acousticness: 0.3, instrumentalness: 0.1, tempo: 118 },
+};
+
+const isRestrictedError = (error: any) =>
+  error?.statusCode === 403 || error?.body?.error?.status === 403;
+
+/**
+ * Spotify's audio-features endpoint (100 tracks per request)
+ * A 403 (endpoint restricted for the app) ends the lookup without failing the request
+ */
+export class SpotifyAudioFeaturesProvider implements AudioFeaturesProvider {
+  readonly name = 'spotify';
+
+  constructor(private readonly spotifyApi: SpotifyWebApi) {}
+
+  async getFeatures(requests: AudioFeaturesRequest[]): Promise<Map<string, AudioFeatures>> {
+    const featuresMap = new Map<string, AudioFeatures>();
+    const trackIds = Array.from(new Set(requests.map(r => r.id)));
+
+    for (let i = 0; i < trackIds.length; i += BATCH_SIZES.SPOTIFY_TRACKS) {
+      const batch = trackIds.slice(i, i + BATCH_SIZES.SPOTIFY_TRACKS);
+      try {
+        const response = await this.spotifyApi.getAudioFeaturesForTracks(batch);
+        (response.body.audio_features || []).forEach((features: any) => {
+          if (features?.id) featuresMap.set(features.id, features);
+        });
+      } catch (error: any) {
+        if (!isRestrictedError(error)) throw error;
+        console.warn('Spotify audio features endpoint is restricted, falling back to estimates');
+        break;
+      }
+    }
+    return featuresMap;
+  }
+}
+
+/**
+ * Estimates features from the track's artist genres (GENRE_WEIGHTS by genre rank)
+ * Tracks without any known genre are left out rather than given a made-up profile
+ */
+export class LocalAudioFeaturesProvider implements AudioFeaturesProvider {
+  readonly name = 'local';
+
+  async getFeatures(requests: AudioFeaturesRequest[]): Promise<Map<string, AudioFeatures>> {
+    const featuresMap = new Map<string, AudioFeatures>();
+    requests.forEach(request => {
+      if (featuresMap.has(request.id)) return;
+      const estimate = estimateFeatures(request);
+      if (estimate) featuresMap.set(request.id, estimate);
+    });
+    return featuresMap;
+  }
+}
+
+/**
+ * Weighted blend of the family profiles of a track's genres
+ * null without any genre; key and mode stay unknown (-1)
+ */
+export function estimateFeatures(request: AudioFeaturesRequest): AudioFeatures | null {
+  const familyWeights = new Map<GenreFamily, number>();
+  (request.genres || []).forEach(genres => {
+    genres.forEach((genre, index) => {
+      const family = classifyGenre(genre).family;
+      familyWeights.set(family, (familyWeights.get(family) || 0) + genreRankWeight(index));
+    });
+  });
+  if (familyWeights.size === 0) return null;
+
+  const totalWeight = Array.from(familyWeights.values()).reduce((sum, w) => sum + w, 0);
+  const blend = (feature: keyof FeatureProfile) =>
+    Array.from(familyWeights.entries())
+      .reduce((sum, [family, weight]) => sum + FAMILY_PROFILES[family][feature] * weight, 0) / totalWeight;
+
+  return {
+    id: request.id,
+    energy: blend('energy'),
+    danceability: blend('danceability'),
+    valence: blend('valence'),
+    acousticness: blend('acousticness'),
+    instrumentalness: blend('instrumentalness'),
+    tempo: blend('tempo'),
+    key: -1,
+    mode: -1,
+    duration_ms: request.durationMs,
+    estimated: true,
+  };
+}
+
+/**
+ * Measured features in memory, backed by persistence (the tracks table)
+ * Shared by every request; entries expire after CACHE_TTL.TRACK_FEATURES
+ */
+export class AudioFeaturesCache {
+  private memory = new Map<string, { features: AudioFeatures; expiresAt: number }>();
+
+  constructor(
+    private readonly persistence: AudioFeaturesPersistence | null = null,
+    private readonly ttlSeconds: number = CACHE_TTL.TRACK_FEATURES
+  ) {}
+
+  /**
+   * Cached features for the given tracks: memory first, then persistence
+   */
+  async lookup(trackIds: string[]): Promise<Map<string, AudioFeatures>> {
+    const featuresMap = new Map<string, AudioFeatures>();
+    const now = Date.now();
+
+    trackIds.forEach(id => {
+      const cached = this.memory.get(id);
+      if (cached && cached.expiresAt > now) {
+        featuresMap.set(id, cached.features);
+      }
+    });
+
+    const missing = Array.from(new Set(trackIds.filter(id => !featuresMap.has(id))));
+    if (missing.length > 0 && this.persistence) {
+      try {
+        const stored = await this.persistence.load(missing, this.ttlSeconds);
+        stored.forEach((features, id) => {
+          if (features.estimated) return;
+          featuresMap.set(id, features);
+          this.remember(features);
+        });
+      } catch (error) {
+        // A cache miss only costs an upstream lookup
+        console.warn('Failed to load cached audio features:', error);
+      }
+    }
+
+    return featuresMap;
+  }
+
+  /**
+   * Keep measured features in memory (estimates are never cached)
+   */
+  remember(features: AudioFeatures): void {
+    if (!features?.id || features.estimated) return;
+
+    if (this.memory.size >= AUDIO_FEATURES_CACHE.MAX_MEMORY_ENTRIES) {
+      const now = Date.now();
+      this.memory.forEach((entry, key) => {
+        if (entry.expiresAt <= now) this.memory.delete(key);
+      });
+      // Still full: drop the oldest entries (Map keeps insertion order)
+      const excess = this.memory.size - AUDIO_FEATURES_CACHE.MAX_MEMORY_ENTRIES + 1;
+      Array.from(this.memory.keys()).slice(0, Math.max(0, excess)).forEach(key => this.memory.delete(key));
+    }
+    this.memory.set(features.id, { features, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+  }
+}
+
+/**
+ * Serves features from the cache and asks the upstream providers in order for the rest
+ */
+export class CachedAudioFeaturesProvider implements AudioFeaturesProvider {
+  readonly name = 'cache';
+
+  constructor(
+    private readonly cache: AudioFeaturesCache,
+    private readonly upstream: AudioFeaturesProvider[]
+  ) {}
+
+  async getFeatures(requests: AudioFeaturesRequest[]): Promise<Map<string, AudioFeatures>> {
+    const featuresMap = await this.cache.lookup(requests.map(r => r.id));
+    let missing = requests.filter(r => !featuresMap.has(r.id));
+
+    for (const provider of this.upstream) {
+      if (missing.length === 0) break;
+      const found = await provider.getFeatures(missing);
+      found.forEach((features, id) => {
+        featuresMap.set(id, features);
+        this.cache.remember(features);
+      });
+      missing = missing.filter(r => !featuresMap.has(r.id));
+    }
+
+    return featuresMap;
+  }
+}
@@ -0,0 +1,203 @@
+// Battle comparison
+// Audio compatibility (weighted cosine similarity of average features), genre overlap
+// and genre distributions of two playlists. Winners are decided by the category rounds
+// (battleRounds.ts)
+
+import { BATTLE_COMPATIBILITY } from '../constants/analysis';
+import { GenreFamily, GenreShare, classifyGenre, summarizeGenres } from './genreTaxonomy';
+
+export type BattleWinner = 'playlist1' | 'playlist2' | 'tie';
+
+export interface AudioAverages {
+  energy: number;
+  danceability: number;
+  valence: number;
+  acousticness: number;
+  instrumentalness: number;
+  tempo: number;
+}
+
+export interface GenreOverlap {
+  jaccard: number; // 0-1, genres on both sides / genres on either side
+  weightedJaccard: number; // 0-1, same over each genre's share of its playlist's genre weight
+  familyOverlap: number; // 0-1, weighted Jaccard over genre families
+  similarity: number; // 0-100, blend of the weighted micro-genre and family overlaps
+  sharedGenres: string[]; // Display names, largest shared weight first
+  uniqueTo1: string[];
+  uniqueTo2: string[];
+}
+
+export interface GenreDistribution {
+  genres: GenreShare[]; // Top micro-genres, value = % of total genre weight
+  families: GenreShare[];
+}
+
+export interface CompatibilityBreakdown {
+  audio: number | null; // 0-100, null when either side has no audio features
+  genre: number | null; // 0-100, null when either side has no artist genres
+  weights: { audio: number; genre: number }; // Applied weights (a missing component gets 0)
+  genreOverlap: { jaccard: number; weightedJaccard: number; familyOverlap: number } | null;
+}
+
+// Feature weights of the compatibility similarity
+const COMPATIBILITY_WEIGHTS = { energy: 0.25, danceability: 0.20, valence: 0.20, acousticness: 0.15, instrumentalness: 0.20 };
+
+/**
+ * Average of each audio feature (0 for every feature when there are no tracks)
+ */
+export function averageAudioFeatures(features: Partial<AudioAverages>[]): AudioAverages {
+  const avg = (key: keyof AudioAverages) =>
+    features.length > 0 ? features.reduce((sum, f) => sum + (f[key] || 0), 0) / features.length : 0;
+  return {
+    energy: avg('energy'),
+    danceability: avg('danceability'),
+    valence: avg('valence'),
+    acousticness: avg('acousticness'),
+    instrumentalness: avg('instrumentalness'),
+    tempo: avg('tempo'),
+  };
+}
+
+/**
+ * Compatibility (0-100) of two playlists' audio: weighted cosine similarity of their
+ * average features, spread out with a sigmoid centred on 0.5
+ */
+export function audioCompatibility(features1: Partial<AudioAverages>[], features2: Partial<AudioAverages>[]): number {
+  if (features1.length === 0 || features2.length === 0) return 0;
+
+  const avg1 = averageAudioFeatures(features1);
+  const avg2 = averageAudioFeatures(features2);
+
+  let dotProduct = 0;
+  let mag1 = 0;
+  let mag2 = 0;
+
+  Object.entries(COMPATIBILITY_WEIGHTS).forEach(([key, weight]) => {
+    const val1 = avg1[key as keyof AudioAverages];
+    const val2 = avg2[key as keyof AudioAverages];
+    dotProduct += val1 * val2 * weight;
+    mag1 += val1 * val1 * weight;
+    mag2 += val2 * val2 * weight;
+  });
+
+  if (mag1 === 0 || mag2 === 0) return 0;
+
+  const similarity = dotProduct / (Math.sqrt(mag1) * Math.sqrt(mag2));
+  const sigmoid = 1 / (1 + Math.exp(-5 * (similarity - 0.5)));
+  return Math.round(sigmoid * 100);
+}
+
+const round = (value: number, digits: number = 3) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Each key's share of the total weight (shares sum to 1; non-positive weights are dropped)
+ */
+export function normalizeWeights<K>(totals: Map<K, number>): Map<K, number> {
+  const total = Array.from(totals.values()).reduce((sum, w) => sum + w, 0);
+  const shares = new Map<K, number>();
+  if (total <= 0) return shares;
+  totals.forEach((weight, key) => {
+    if (weight > 0) shares.set(key, weight / total);
+  });
+  return shares;
+}
+
+// Sum of the smaller share over the sum of the larger share, across both sides' keys
+function weightedJaccard<K>(shares1: Map<K, number>, shares2: Map<K, number>): number {
+  let minSum = 0;
+  let maxSum = 0;
+  new Set([...shares1.keys(), ...shares2.keys()]).forEach(key => {
+    const a = shares1.get(key) || 0;
+    const b = shares2.get(key) || 0;
+    minSum += Math.min(a, b);
+    maxSum += Math.max(a, b);
+  });
+  return maxSum > 0 ? minSum / maxSum : 0;
+}
+
+function familyTotals(totals: Map<string, number>): Map<GenreFamily, number> {
+  const families = new Map<GenreFamily, number>();
+  totals.forEach((weight, key) => {
+    const family = classifyGenre(key).family;
+    families.set(family, (families.get(family) || 0) + weight);
+  });
+  return families;
+}
+
+/**
+ * Genre overlap of two playlists from their weighted genre totals (keyed by genreKey())
+ * Micro-genres rarely match exactly between similar playlists, so the similarity also
+ * credits shared genre families (BATTLE_COMPATIBILITY.FAMILY_WEIGHT)
+ * Returns null when either side has no artist genres
+ */
+export function genreOverlap(totals1: Map<string, number>, totals2: Map<string, number>): GenreOverlap | null {
+  const shares1 = normalizeWeights(totals1);
+  const shares2 = normalizeWeights(totals2);
+  if (shares1.size === 0 || shares2.size === 0) return null;
+
+  const sharedWeight = (key: string) => Math.min(shares1.get(key) || 0, shares2.get(key) || 0);
+  const shared = Array.from(shares1.keys())
+    .filter(key => shares2.has(key))
+    .sort((a, b) => sharedWeight(b) - sharedWeight(a) || a.localeCompare(b));
+  const uniqueTo = (own: Map<string, number>, other: Map<string, number>) =>
+    Array.from(own.entries())
+      .filter(([key]) => !other.has(key))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, BATTLE_COMPATIBILITY.MAX_LISTED_GENRES)
+      .map(([key]) => classifyGenre(key).name);
+
+  const jaccard = shared.length / (shares1.size + shares2.size - shared.length);
+  const weighted = weightedJaccard(shares1, shares2);
+  const family = weightedJaccard(normalizeWeights(familyTotals(totals1)), normalizeWeights(familyTotals(totals2)));
+  const similarity = weighted * (1 - BATTLE_COMPATIBILITY.FAMILY_WEIGHT) + family * BATTLE_COMPATIBILITY.FAMILY_WEIGHT;
+
+  return {
+    jaccard: round(jaccard),
+    weightedJaccard: round(weighted),
+    familyOverlap: round(family),
+    similarity: Math.round(similarity * 100),
+    sharedGenres: shared.slice(0, BATTLE_COMPATIBILITY.MAX_LISTED_GENRES).map(key => classifyGenre(key).name),
+    uniqueTo1: uniqueTo(shares1, shares2),
+    uniqueTo2: uniqueTo(shares2, shares1),
+  };
+}
+
+/**
+ * Top micro-genres and the genre families of one playlist
+ */
+export function genreDistribution(totals: Map<string, number>): GenreDistribution {
+  const summary = summarizeGenres(totals);
+  const totalWeight = summary.genres.reduce((sum, genre) => sum + genre.weight, 0);
+  return {
+    genres: summary.genres
+      .slice(0, BATTLE_COMPATIBILITY.DISTRIBUTION_GENRES)
+      .map(genre => ({ name: genre.name, value: round((genre.weight / totalWeight) * 100, 1) })),
+    families: summary.families,
+  };
+}
+
+/**
+ * Compatibility score (0-100): audio similarity blended with genre similarity
+ * (BATTLE_COMPATIBILITY.GENRE_WEIGHT); a missing component leaves the other one alone
+ */
+export function battleCompatibility(
+  audio: number | null,
+  genres: GenreOverlap | null
+): { score: number; breakdown: CompatibilityBreakdown } {
+  const genre = genres ? genres.similarity : null;
+  const genreWeight = genre === null ? 0 : audio === null ? 1 : BATTLE_COMPATIBILITY.GENRE_WEIGHT;
+  const audioWeight = audio === null ? 0 : 1 - genreWeight;
+
+  return {
+    score: Math.round((audio ?? 0) * audioWeight + (genre ?? 0) * genreWeight),
+    breakdown: {
+      audio,
+      genre,
+      weights: { audio: audioWeight, genre: genreWeight },
+      genreOverlap: genres
+        ? { jaccard: genres.jaccard, weightedJaccard: genres.weightedJaccard, familyOverlap: genres.familyOverlap }
+        : null,
+    },
+  };
+}
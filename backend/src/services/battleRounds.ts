@@ -0,0 +1,214 @@
+// Battle rounds
+// Category-by-category comparison of two playlists (energy, danceability, mood,
+// diversity, flow, obscurity, cohesion). Each round has a winner, a margin and a short
+// explanation; the battle goes to whoever wins more rounds or more round weight
+
+import { BATTLE_ROUNDS } from '../constants/analysis';
+import { BattleWinner } from './battle';
+
+export const BATTLE_CATEGORIES = ['energy', 'danceability', 'mood', 'diversity', 'flow', 'obscurity', 'cohesion'] as const;
+
+export type BattleCategory = typeof BATTLE_CATEGORIES[number];
+
+export type BattleDecisionMode = 'rounds' | 'weighted';
+
+export const BATTLE_DECISION_MODES: BattleDecisionMode[] = ['rounds', 'weighted'];
+
+export interface BattleRoundSide {
+  name: string;
+  values: Record<BattleCategory, number | null>; // 0-100, null when the data is missing
+}
+
+export interface BattleRound {
+  category: BattleCategory;
+  label: string;
+  winner: BattleWinner | null; // null = not contested (data missing on a side)
+  values: { playlist1: number | null; playlist2: number | null };
+  margin: number | null; // Absolute difference, 0-100
+  weight: number; // Share of the total weight of contested rounds (0-1)
+  explanation: string;
+}
+
+export interface BattleRoundsResult {
+  decideBy: BattleDecisionMode;
+  rounds: BattleRound[];
+  tally: { playlist1: number; playlist2: number; tie: number }; // Rounds won
+  points: { playlist1: number; playlist2: number }; // % of contested round weight won (ties split)
+  winner: BattleWinner;
+  reason: string;
+}
+
+const CATEGORY_LABELS: Record<BattleCategory, { label: string; win: string }> = {
+  energy: { label: 'Energy', win: 'brings more energy' },
+  danceability: { label: 'Danceability', win: 'is more danceable' },
+  mood: { label: 'Mood', win: 'has a brighter, more upbeat mood' },
+  diversity: { label: 'Diversity', win: 'has more artist and genre variety' },
+  flow: { label: 'Flow', win: 'has smoother energy flow' },
+  obscurity: { label: 'Obscurity', win: 'digs deeper into underground artists' },
+  cohesion: { label: 'Cohesion', win: 'has a more consistent sound' },
+};
+
+// Features whose spread measures cohesion (all 0-1)
+const COHESION_FEATURES = ['energy', 'danceability', 'valence', 'acousticness'] as const;
+
+const round = (value: number, digits: number = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/**
+ * Cohesion (0-100): 100 when every track sounds alike, 0 at the largest possible spread
+ * Mean standard deviation of the COHESION_FEATURES (0.5 is the maximum for 0-1 values)
+ * null without features
+ */
+export function cohesionScore(features: Partial<Record<typeof COHESION_FEATURES[number], number>>[]): number | null {
+  if (features.length === 0) return null;
+  const spreads = COHESION_FEATURES.map(feature => {
+    const values = features.map(f => f[feature] || 0);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  });
+  const meanSpread = spreads.reduce((sum, s) => sum + s, 0) / spreads.length;
+  return round(Math.max(0, 1 - meanSpread / 0.5) * 100);
+}
+
+/**
+ * Round weights from a request body value merged over BATTLE_ROUNDS.DEFAULT_WEIGHTS
+ * A weight of 0 leaves the category out; returns an error message for invalid values
+ */
+export function parseRoundWeights(input: unknown): { weights: Record<BattleCategory, number> } | { error: string } {
+  const weights: Record<BattleCategory, number> = { ...BATTLE_ROUNDS.DEFAULT_WEIGHTS };
+  if (input === undefined || input === null) return { weights };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'weights must be an object of category weights' };
+  }
+
+  for (const [category, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(BATTLE_CATEGORIES as readonly string[]).includes(category)) {
+      return { error: `Unknown category "${category}". Use one of: ${BATTLE_CATEGORIES.join(', ')}` };
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { error: `Weight for "${category}" must be a non-negative number` };
+    }
+    weights[category as BattleCategory] = value;
+  }
+
+  if (BATTLE_CATEGORIES.every(category => weights[category] === 0)) {
+    return { error: 'At least one category weight must be greater than 0' };
+  }
+  return { weights };
+}
+
+function explainRound(
+  category: BattleCategory,
+  winner: BattleWinner | null,
+  margin: number | null,
+  side1: BattleRoundSide,
+  side2: BattleRoundSide
+): string {
+  const { label, win } = CATEGORY_LABELS[category];
+  const value1 = side1.values[category];
+  const value2 = side2.values[category];
+  if (winner === null || margin === null || value1 === null || value2 === null) {
+    return `Not enough data to compare ${label.toLowerCase()}`;
+  }
+  if (winner === 'tie') {
+    return `${side1.name} and ${side2.name} are neck and neck on ${label.toLowerCase()} (${Math.round(value1)} vs ${Math.round(value2)})`;
+  }
+
+  const [won, wonValue, lostValue] = winner === 'playlist1' ? [side1, value1, value2] : [side2, value2, value1];
+  const qualifier = margin < BATTLE_ROUNDS.NARROW_MARGIN ? 'narrowly ' : margin >= BATTLE_ROUNDS.CLEAR_MARGIN ? 'clearly ' : '';
+  return `${won.name} ${qualifier}${win} (${Math.round(wonValue)} vs ${Math.round(lostValue)})`;
+}
+
+function explainDecision(result: Omit<BattleRoundsResult, 'reason'>, side1: BattleRoundSide, side2: BattleRoundSide): string {
+  const { tally, points, winner, decideBy } = result;
+  const tied = tally.tie > 0 ? ` (${tally.tie} tied)` : '';
+
+  if (winner === 'tie') {
+    return decideBy === 'weighted'
+      ? `${side1.name} and ${side2.name} split the weighted rounds ${points.playlist1}-${points.playlist2}`
+      : `${side1.name} and ${side2.name} split the rounds ${tally.playlist1}-${tally.playlist2}${tied}`;
+  }
+
+  const [won, lost] = winner === 'playlist1' ? [side1, side2] : [side2, side1];
+  const taken = result.rounds
+    .filter(r => r.winner === winner)
+    .map(r => CATEGORY_LABELS[r.category].label.toLowerCase());
+  const score = decideBy === 'weighted'
+    ? `${points[winner]}-${points[winner === 'playlist1' ? 'playlist2' : 'playlist1']} on weighted rounds`
+    : `${tally[winner]}-${tally[winner === 'playlist1' ? 'playlist2' : 'playlist1']} on rounds${tied}`;
+  return taken.length > 0
+    ? `${won.name} beats ${lost.name} ${score}, taking ${formatList(taken)}`
+    : `${won.name} beats ${lost.name} ${score}`;
+}
+
+/**
+ * Play every category round and decide the battle
+ * - rounds: most rounds won
+ * - weighted: most round weight won (tied rounds split their weight)
+ * Categories with a weight of 0 or missing data on either side are not contested
+ */
+export function scoreBattleRounds(
+  side1: BattleRoundSide,
+  side2: BattleRoundSide,
+  decideBy: BattleDecisionMode = 'rounds',
+  weights: Record<BattleCategory, number> = { ...BATTLE_ROUNDS.DEFAULT_WEIGHTS }
+): BattleRoundsResult {
+  const contested = (category: BattleCategory) =>
+    weights[category] > 0 && side1.values[category] !== null && side2.values[category] !== null;
+  const totalWeight = BATTLE_CATEGORIES
+    .filter(contested)
+    .reduce((sum, category) => sum + weights[category], 0);
+
+  const rounds: BattleRound[] = BATTLE_CATEGORIES.map(category => {
+    const value1 = side1.values[category];
+    const value2 = side2.values[category];
+    let winner: BattleWinner | null = null;
+    let margin: number | null = null;
+
+    if (contested(category)) {
+      margin = round(Math.abs(value1! - value2!));
+      winner = margin < BATTLE_ROUNDS.TIE_MARGIN ? 'tie' : value1! > value2! ? 'playlist1' : 'playlist2';
+    }
+
+    return {
+      category,
+      label: CATEGORY_LABELS[category].label,
+      winner,
+      values: {
+        playlist1: value1 === null ? null : round(value1),
+        playlist2: value2 === null ? null : round(value2),
+      },
+      margin,
+      weight: winner !== null && totalWeight > 0 ? round(weights[category] / totalWeight, 3) : 0,
+      explanation: explainRound(category, winner, margin, side1, side2),
+    };
+  });
+
+  const tally = { playlist1: 0, playlist2: 0, tie: 0 };
+  let weight1 = 0;
+  let weight2 = 0;
+  rounds.forEach(r => {
+    if (r.winner === null) return;
+    tally[r.winner]++;
+    const weight = weights[r.category];
+    if (r.winner === 'playlist1') weight1 += weight;
+    else if (r.winner === 'playlist2') weight2 += weight;
+    else {
+      weight1 += weight / 2;
+      weight2 += weight / 2;
+    }
+  });
+  const share = (weight: number) => (totalWeight > 0 ? round((weight / totalWeight) * 100) : 0);
+  const points = { playlist1: share(weight1), playlist2: share(weight2) };
+
+  const [lead1, lead2] = decideBy === 'weighted'
+    ? [points.playlist1, points.playlist2]
+    : [tally.playlist1, tally.playlist2];
+  const winner: BattleWinner = lead1 > lead2 ? 'playlist1' : lead2 > lead1 ? 'playlist2' : 'tie';
+
+  const result = { decideBy, rounds, tally, points, winner };
+  return { ...result, reason: explainDecision(result, side1, side2) };
+}
@@ -0,0 +1,146 @@
+// Bridge playlists
+// Picks tracks that sit between two playlists' audio centroids and orders them so the
+// sound moves gradually from the first playlist's style to the second's
+// (POST /api/battles/:id/bridge)
+
+import { BRIDGE_PLAYLIST } from '../constants/analysis';
+import { AudioAverages } from './battle';
+
+export type BridgeSource = 'playlist1' | 'playlist2' | 'both' | 'recommendation';
+
+export interface BridgeCandidate {
+  id: string;
+  uri: string;
+  name: string;
+  artists: { id?: string; name: string }[];
+  features: Partial<AudioAverages>;
+  source: BridgeSource;
+}
+
+export interface BridgeTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: string[];
+  source: BridgeSource;
+  position: number; // 0 = playlist1's centroid, 1 = playlist2's
+  distance: number; // From the straight path between the centroids (normalized feature space)
+  sharedArtist: boolean;
+}
+
+// Dimensions of the bridge space; tempo is scaled to 0-1 with BRIDGE_PLAYLIST.TEMPO_RANGE
+const BRIDGE_FEATURES: (keyof AudioAverages)[] = ['energy', 'danceability', 'valence', 'acousticness', 'instrumentalness', 'tempo'];
+
+const round = (value: number, digits: number = 3) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function toVector(features: Partial<AudioAverages>): number[] {
+  const { MIN, MAX } = BRIDGE_PLAYLIST.TEMPO_RANGE;
+  return BRIDGE_FEATURES.map(feature => {
+    const value = features[feature] || 0;
+    return feature === 'tempo' ? Math.min(1, Math.max(0, (value - MIN) / (MAX - MIN))) : value;
+  });
+}
+
+/**
+ * Where a track sits relative to the path from centroid1 to centroid2
+ * position: projection onto the path clamped to 0-1; distance: from the nearest point on it
+ */
+export function bridgePosition(
+  features: Partial<AudioAverages>,
+  centroid1: AudioAverages,
+  centroid2: AudioAverages
+): { position: number; distance: number } {
+  const x = toVector(features);
+  const a = toVector(centroid1);
+  const b = toVector(centroid2);
+  const path = b.map((value, i) => value - a[i]);
+  const pathLengthSq = path.reduce((sum, v) => sum + v * v, 0);
+
+  // Identical centroids: every track sits mid-way and only its distance matters
+  const position = pathLengthSq === 0
+    ? 0.5
+    : Math.min(1, Math.max(0, x.reduce((sum, v, i) => sum + (v - a[i]) * path[i], 0) / pathLengthSq));
+  const distance = Math.sqrt(x.reduce((sum, v, i) => sum + (v - (a[i] + position * path[i])) ** 2, 0));
+  return { position, distance };
+}
+
+/**
+ * Choose `length` tracks spread evenly along the path between the centroids
+ * Each slot takes the unused candidate with the lowest cost: distance from the path, plus
+ * POSITION_WEIGHT x how far it sits from the slot, minus SHARED_ARTIST_BONUS for artists
+ * both playlists feature. At most MAX_TRACKS_PER_ARTIST tracks per primary artist;
+ * the result is ordered by position
+ */
+export function planBridge(
+  candidates: BridgeCandidate[],
+  centroid1: AudioAverages,
+  centroid2: AudioAverages,
+  length: number,
+  sharedArtistIds: Set<string> = new Set()
+): BridgeTrack[] {
+  const placed = candidates.map(candidate => ({
+    candidate,
+    ...bridgePosition(candidate.features, centroid1, centroid2),
+    sharedArtist: candidate.artists.some(a => a.id && sharedArtistIds.has(a.id)),
+  }));
+
+  const used = new Set<number>();
+  const artistCounts = new Map<string, number>();
+  const chosen: typeof placed = [];
+  const slots = Math.min(length, candidates.length);
+
+  for (let slot = 0; slot < slots; slot++) {
+    const target = slots === 1 ? 0.5 : slot / (slots - 1);
+    let best = -1;
+    let bestCost = Infinity;
+
+    placed.forEach((entry, index) => {
+      if (used.has(index)) return;
+      const artistKey = entry.candidate.artists[0]?.id || entry.candidate.artists[0]?.name || '';
+      if ((artistCounts.get(artistKey) || 0) >= BRIDGE_PLAYLIST.MAX_TRACKS_PER_ARTIST) return;
+
+      const cost = entry.distance +
+        BRIDGE_PLAYLIST.POSITION_WEIGHT * Math.abs(entry.position - target) -
+        (entry.sharedArtist ? BRIDGE_PLAYLIST.SHARED_ARTIST_BONUS : 0);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = index;
+      }
+    });
+
+    if (best === -1) break;
+    used.add(best);
+    const artistKey = placed[best].candidate.artists[0]?.id || placed[best].candidate.artists[0]?.name || '';
+    artistCounts.set(artistKey, (artistCounts.get(artistKey) || 0) + 1);
+    chosen.push(placed[best]);
+  }
+
+  return chosen
+    .sort((a, b) => a.position - b.position || a.distance - b.distance)
+    .map(({ candidate, position, distance, sharedArtist }) => ({
+      id: candidate.id,
+      uri: candidate.uri,
+      name: candidate.name,
+      artists: candidate.artists.map(a => a.name),
+      source: candidate.source,
+      position: round(position),
+      distance: round(distance),
+      sharedArtist,
+    }));
+}
+
+/**
+ * Mid-point of the two centroids, used as recommendation targets
+ */
+export function bridgeMidpoint(centroid1: AudioAverages, centroid2: AudioAverages): AudioAverages {
+  const mid = (feature: keyof AudioAverages) => (centroid1[feature] + centroid2[feature]) / 2;
+  return {
+    energy: mid('energy'),
+    danceability: mid('danceability'),
+    valence: mid('valence'),
+    acousticness: mid('acousticness'),
+    instrumentalness: mid('instrumentalness'),
+    tempo: mid('tempo'),
+  };
+}
@@ -0,0 +1,122 @@
+// Diversity metrics
+// Shannon entropy, Gini coefficient and effective counts over artists and genres,
+// combined into the variety score used by the health score
+
+import { DIVERSITY_METRICS } from '../constants/analysis';
+import { weightedGenreTotals } from './genreTaxonomy';
+
+export interface DiversityInputTrack {
+  artistKey: string; // Primary artist ID (or name when there is no ID)
+  artistName: string;
+  artistGenres: string[][]; // Genre list of each of the track's artists, most relevant first
+}
+
+export interface DistributionStats {
+  uniqueCount: number;
+  entropy: number; // Shannon entropy in nats
+  normalizedEntropy: number; // 0-1, entropy relative to an even spread
+  effectiveCount: number; // exp(entropy): number of equally common items with the same entropy
+  gini: number; // 0 = perfectly even, 1 = a single item dominates
+}
+
+export interface DiversityProfile {
+  artists: DistributionStats & {
+    topArtist: { name: string; trackCount: number; share: number } | null; // share in %
+  };
+  genres: DistributionStats | null; // null when no artist genres are known
+  varietyScore: number; // 0-100
+  components: { artistVariety: number; genreVariety: number | null }; // 0-100 each
+}
+
+const round = (value: number, digits: number = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Shannon entropy (nats) of a list of non-negative weights
+ */
+export function shannonEntropy(weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return 0;
+  return weights.reduce((sum, w) => {
+    if (w <= 0) return sum;
+    const p = w / total;
+    return sum - p * Math.log(p);
+  }, 0);
+}
+
+/**
+ * Gini coefficient of a list of non-negative weights
+ */
+export function giniCoefficient(weights: number[]): number {
+  const sorted = weights.filter(w => w > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, w) => sum + w, 0);
+  if (n < 2 || total === 0) return 0;
+  const weightedSum = sorted.reduce((sum, w, index) => sum + (index + 1) * w, 0);
+  return (2 * weightedSum) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Entropy, evenness and Gini for a set of weights
+ * `maxCategories` bounds the normalized entropy (e.g. the track count for artists)
+ */
+export function distributionStats(weights: number[], maxCategories: number = weights.length): DistributionStats {
+  const entropy = shannonEntropy(weights);
+  const maxEntropy = Math.log(Math.max(1, maxCategories));
+  return {
+    uniqueCount: weights.filter(w => w > 0).length,
+    entropy: round(entropy, 3),
+    normalizedEntropy: maxEntropy > 0 ? round(entropy / maxEntropy, 3) : 0,
+    effectiveCount: round(Math.exp(entropy), 1),
+    gini: round(giniCoefficient(weights), 3),
+  };
+}
+
+/**
+ * Artist and genre diversity of a list of tracks
+ * - Artist variety: artist entropy relative to one artist per track
+ * - Genre variety: half evenness, half breadth (effective genres vs. TARGET_EFFECTIVE_GENRES)
+ */
+export function analyzeDiversity(tracks: DiversityInputTrack[]): DiversityProfile {
+  const artistCounts = new Map<string, { name: string; count: number }>();
+  tracks.forEach(track => {
+    const entry = artistCounts.get(track.artistKey) || { name: track.artistName, count: 0 };
+    entry.count++;
+    artistCounts.set(track.artistKey, entry);
+  });
+
+  const counts = Array.from(artistCounts.values());
+  const artistStats = distributionStats(counts.map(c => c.count), tracks.length);
+  const top = counts.reduce<{ name: string; count: number } | null>(
+    (best, entry) => (!best || entry.count > best.count ? entry : best),
+    null
+  );
+
+  const genreTotals = weightedGenreTotals(tracks.flatMap(track => track.artistGenres));
+  const genreStats = genreTotals.size > 0 ? distributionStats(Array.from(genreTotals.values())) : null;
+
+  const artistVariety = tracks.length > 1 ? artistStats.normalizedEntropy * 100 : 0;
+  const genreVariety = genreStats === null
+    ? null
+    : (genreStats.normalizedEntropy * 0.5 +
+      Math.min(1, genreStats.effectiveCount / DIVERSITY_METRICS.TARGET_EFFECTIVE_GENRES) * 0.5) * 100;
+
+  const varietyScore = genreVariety === null
+    ? artistVariety
+    : artistVariety * DIVERSITY_METRICS.ARTIST_WEIGHT + genreVariety * (1 - DIVERSITY_METRICS.ARTIST_WEIGHT);
+
+  return {
+    artists: {
+      ...artistStats,
+      topArtist: top && tracks.length > 0
+        ? { name: top.name, trackCount: top.count, share: round((top.count / tracks.length) * 100, 1) }
+        : null,
+    },
+    genres: genreStats,
+    varietyScore: Math.round(varietyScore),
+    components: {
+      artistVariety: Math.round(artistVariety),
+      genreVariety: genreVariety === null ? null : Math.round(genreVariety),
+    },
+  };
+}
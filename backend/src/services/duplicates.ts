@@ -0,0 +1,207 @@
+// Duplicate detection
+// Clusters playlist tracks that are the same song under different Spotify track IDs
+// (ISRC, normalized title/artist and duration) and plans their removal
+
+import { DUPLICATE_DETECTION } from '../constants/analysis';
+import { isAlternateVersion, normalizeArtist, normalizeBaseTitle, songKey } from '../utils/trackIdentity';
+
+export type DuplicateReason =
+  | 'same_track_id'        // Exact same track added more than once
+  | 'same_isrc'            // Same recording released under different IDs
+  | 'same_title_and_artist' // Remaster or single/album release of similar length
+  | 'alternate_version';   // Live, acoustic, demo or a differently edited cut
+
+export type DuplicateConfidence = 'high' | 'medium';
+
+export interface DuplicateInputTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artist: string;
+  isrc: string | null;
+  durationMs: number;
+  popularity: number;
+  position: number; // Index in the playlist
+}
+
+export interface DuplicateEntry {
+  id: string;
+  uri: string;
+  name: string;
+  artist: string;
+  position: number;
+  durationMs: number;
+  reason: DuplicateReason;
+  confidence: DuplicateConfidence;
+}
+
+export interface DuplicateCluster {
+  keep: Omit<DuplicateEntry, 'reason' | 'confidence'>;
+  duplicates: DuplicateEntry[];
+  confidence: DuplicateConfidence; // Lowest confidence of the cluster's duplicates
+}
+
+export interface DuplicateReport {
+  clusterCount: number;
+  duplicateTrackCount: number;
+  highConfidenceCount: number;
+  clusters: DuplicateCluster[];
+}
+
+export interface DuplicateRemovalPlan {
+  removeUris: string[]; // Every occurrence of these URIs is removed...
+  reinsert: { uri: string; position: number }[]; // ...then kept occurrences are re-added, in ascending order
+  removedPositions: number[];
+}
+
+const REASON_CONFIDENCE: Record<DuplicateReason, DuplicateConfidence> = {
+  same_track_id: 'high',
+  same_isrc: 'high',
+  same_title_and_artist: 'high',
+  alternate_version: 'medium',
+};
+
+// Like songKey, empty when the title or artist normalizes to nothing (never matched)
+function baseSongKey(track: DuplicateInputTrack): string {
+  const artist = normalizeArtist(track.artist);
+  const title = normalizeBaseTitle(track.name);
+  return artist && title ? `${artist}::${title}` : '';
+}
+
+/**
+ * Strongest reason two tracks are duplicates, or null if they are not
+ * Tracks whose title or artist normalizes to nothing only match by ID or ISRC
+ */
+export function duplicateReason(a: DuplicateInputTrack, b: DuplicateInputTrack): DuplicateReason | null {
+  if (a.id === b.id) return 'same_track_id';
+  if (a.isrc && b.isrc && a.isrc.toUpperCase() === b.isrc.toUpperCase()) return 'same_isrc';
+  const songKeyA = songKey(a.name, a.artist);
+  if (
+    songKeyA &&
+    songKeyA === songKey(b.name, b.artist) &&
+    isAlternateVersion(a.name) === isAlternateVersion(b.name) &&
+    Math.abs(a.durationMs - b.durationMs) <= DUPLICATE_DETECTION.DURATION_TOLERANCE_MS
+  ) {
+    return 'same_title_and_artist';
+  }
+  const baseKeyA = baseSongKey(a);
+  if (baseKeyA && baseKeyA === baseSongKey(b)) return 'alternate_version';
+  return null;
+}
+
+/**
+ * Group tracks into duplicate clusters
+ * Within a cluster the studio version is kept over alternate versions, then the most
+ * popular release, then the earliest position
+ */
+export function detectDuplicates(tracks: DuplicateInputTrack[]): DuplicateReport {
+  // Union-find over track indices; tracks sharing an ID, ISRC or base song key are linked
+  const parent = tracks.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const buckets = new Map<string, number[]>();
+  tracks.forEach((track, index) => {
+    const keys = [`id:${track.id}`];
+    const baseKey = baseSongKey(track);
+    if (baseKey) keys.push(`base:${baseKey}`);
+    if (track.isrc) keys.push(`isrc:${track.isrc.toUpperCase()}`);
+    keys.forEach(key => {
+      const bucket = buckets.get(key) || [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    });
+  });
+
+  buckets.forEach(bucket => {
+    bucket.slice(1).forEach(index => {
+      parent[find(index)] = find(bucket[0]);
+    });
+  });
+
+  const groups = new Map<number, DuplicateInputTrack[]>();
+  tracks.forEach((track, index) => {
+    const group = groups.get(find(index)) || [];
+    group.push(track);
+    groups.set(find(index), group);
+  });
+
+  const summarize = (track: DuplicateInputTrack) => ({
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artist: track.artist,
+    position: track.position,
+    durationMs: track.durationMs,
+  });
+
+  const clusters: DuplicateCluster[] = Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const [keep, ...rest] = [...group].sort((a, b) =>
+        Number(isAlternateVersion(a.name)) - Number(isAlternateVersion(b.name)) ||
+        b.popularity - a.popularity ||
+        a.position - b.position
+      );
+
+      const duplicates: DuplicateEntry[] = rest
+        .map(track => {
+          // Tracks only linked through another member are treated as alternate versions
+          const reason = duplicateReason(keep, track) || 'alternate_version';
+          return { ...summarize(track), reason, confidence: REASON_CONFIDENCE[reason] };
+        })
+        .sort((a, b) => a.position - b.position);
+
+      return {
+        keep: summarize(keep),
+        duplicates,
+        confidence: duplicates.some(d => d.confidence === 'medium') ? 'medium' as const : 'high' as const,
+      };
+    })
+    .sort((a, b) => a.keep.position - b.keep.position);
+
+  const allDuplicates = clusters.flatMap(cluster => cluster.duplicates);
+
+  return {
+    clusterCount: clusters.length,
+    duplicateTrackCount: allDuplicates.length,
+    highConfidenceCount: allDuplicates.filter(d => d.confidence === 'high').length,
+    clusters,
+  };
+}
+
+/**
+ * Plan removing the items at `removePositions` using URI-based removal
+ * Spotify removes every occurrence of a URI, so occurrences that should stay are
+ * re-added at their final index afterwards
+ */
+export function planDuplicateRemoval(
+  uris: (string | null)[],
+  removePositions: Set<number>
+): DuplicateRemovalPlan {
+  const removeUris = Array.from(new Set(
+    uris.filter((uri, position): uri is string => uri !== null && removePositions.has(position))
+  ));
+  const affected = new Set(removeUris);
+
+  const reinsert: DuplicateRemovalPlan['reinsert'] = [];
+  let finalIndex = 0;
+  uris.forEach((uri, position) => {
+    if (removePositions.has(position)) return;
+    if (uri !== null && affected.has(uri)) {
+      reinsert.push({ uri, position: finalIndex });
+    }
+    finalIndex++;
+  });
+
+  return {
+    removeUris,
+    reinsert,
+    removedPositions: Array.from(removePositions).filter(p => p >= 0 && p < uris.length).sort((a, b) => a - b),
+  };
+}
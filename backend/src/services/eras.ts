@@ -0,0 +1,141 @@
+// Era analysis
+// Release decade and era distribution, median release year and a nostalgia index
+// computed from each track's album release date
+
+import { ERA_ANALYSIS, RELEASE_ERAS } from '../constants/analysis';
+
+export interface EraInputTrack {
+  id: string;
+  name: string;
+  artist: string;
+  releaseDate: string | null; // "YYYY", "YYYY-MM" or "YYYY-MM-DD"
+}
+
+export interface DatedTrack {
+  id: string;
+  name: string;
+  artist: string;
+  releaseDate: string;
+  year: number;
+}
+
+export interface EraBreakdown {
+  datedTrackCount: number;
+  decades: { decade: string; startYear: number; count: number; percentage: number }[];
+  eras: { name: string; from: number; to: number | null; count: number; percentage: number }[];
+  medianReleaseYear: number | null;
+  yearSpan: { from: number; to: number } | null;
+  nostalgiaIndex: number | null; // % of dated tracks older than NOSTALGIA_AGE_YEARS
+  newest: DatedTrack | null;
+  oldest: DatedTrack | null;
+}
+
+const percentage = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+
+/**
+ * Parse a Spotify release date of any precision, or null if unknown
+ * Missing month/day default to the start of the period
+ */
+export function parseReleaseDate(releaseDate: string | null | undefined): Date | null {
+  const match = (releaseDate || '').match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  if (year < ERA_ANALYSIS.MIN_VALID_YEAR) return null;
+
+  const month = match[2] ? parseInt(match[2], 10) - 1 : 0;
+  const day = match[3] ? parseInt(match[3], 10) : 1;
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Median of a sorted list, rounded to a whole year
+ */
+function medianYear(sortedYears: number[]): number | null {
+  if (sortedYears.length === 0) return null;
+  const middle = Math.floor(sortedYears.length / 2);
+  return sortedYears.length % 2 === 1
+    ? sortedYears[middle]
+    : Math.round((sortedYears[middle - 1] + sortedYears[middle]) / 2);
+}
+
+/**
+ * Break down a playlist by release decade and era
+ * `now` is the reference date for the nostalgia index
+ */
+export function analyzeEras(tracks: EraInputTrack[], now: Date = new Date()): EraBreakdown {
+  const dated = tracks
+    .map(track => ({ track, date: parseReleaseDate(track.releaseDate) }))
+    .filter((entry): entry is { track: EraInputTrack; date: Date } => entry.date !== null);
+
+  const summarize = ({ track, date }: { track: EraInputTrack; date: Date }): DatedTrack => ({
+    id: track.id,
+    name: track.name,
+    artist: track.artist,
+    releaseDate: track.releaseDate as string,
+    year: date.getUTCFullYear(),
+  });
+
+  if (dated.length === 0) {
+    return {
+      datedTrackCount: 0,
+      decades: [],
+      eras: [],
+      medianReleaseYear: null,
+      yearSpan: null,
+      nostalgiaIndex: null,
+      newest: null,
+      oldest: null,
+    };
+  }
+
+  const total = dated.length;
+  const years = dated.map(entry => entry.date.getUTCFullYear()).sort((a, b) => a - b);
+
+  const decadeCounts = new Map<number, number>();
+  years.forEach(year => {
+    const startYear = Math.floor(year / 10) * 10;
+    decadeCounts.set(startYear, (decadeCounts.get(startYear) || 0) + 1);
+  });
+  const decades = Array.from(decadeCounts.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([startYear, count]) => ({
+      decade: `${startYear}s`,
+      startYear,
+      count,
+      percentage: percentage(count, total),
+    }));
+
+  const eras = RELEASE_ERAS
+    .map(era => {
+      const count = years.filter(year => year >= era.from && year <= era.to).length;
+      return {
+        name: era.name,
+        from: era.from,
+        to: Number.isFinite(era.to) ? era.to : null,
+        count,
+        percentage: percentage(count, total),
+      };
+    })
+    .filter(era => era.count > 0);
+
+  const cutoff = new Date(now);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - ERA_ANALYSIS.NOSTALGIA_AGE_YEARS);
+  const nostalgic = dated.filter(entry => entry.date < cutoff).length;
+
+  // Stable sorts keep playlist order for tracks released on the same date
+  const byDate = [...dated].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const newestDate = byDate[byDate.length - 1].date.getTime();
+
+  return {
+    datedTrackCount: total,
+    decades,
+    eras,
+    medianReleaseYear: medianYear(years),
+    yearSpan: { from: years[0], to: years[years.length - 1] },
+    nostalgiaIndex: percentage(nostalgic, total),
+    newest: summarize(byDate.find(entry => entry.date.getTime() === newestDate)!),
+    oldest: summarize(byDate[0]),
+  };
+}
@@ -0,0 +1,215 @@
+// Genre taxonomy
+// Maps Spotify micro-genres ("bedroom pop", "uk drill") to parent genres and families,
+// and aggregates artist genres with GENRE_WEIGHTS. Every route that compares or
+// aggregates genres goes through genreKey() so casing never causes silent misses
+
+import { GENRE_WEIGHTS } from '../constants/analysis';
+
+export const GENRE_FAMILIES = [
+  'Pop',
+  'Rock',
+  'Metal',
+  'Hip Hop',
+  'R&B & Soul',
+  'Electronic',
+  'Latin',
+  'Country & Folk',
+  'Jazz & Blues',
+  'Classical',
+  'Reggae',
+  'World',
+  'Other',
+] as const;
+
+export type GenreFamily = typeof GENRE_FAMILIES[number];
+
+export interface GenreClassification {
+  key: string; // Normalized micro-genre, e.g. "uk drill"
+  name: string; // Display name, e.g. "UK Drill"
+  parent: string; // e.g. "Drill"
+  family: GenreFamily; // e.g. "Hip Hop"
+}
+
+export interface GenreShare {
+  name: string;
+  value: number;
+}
+
+export interface GenreSummary {
+  genres: (GenreClassification & { weight: number })[]; // Sorted by weight
+  parents: (GenreShare & { family: GenreFamily })[]; // value = % of total genre weight
+  families: GenreShare[]; // value = % of total genre weight
+}
+
+// First matching rule wins, so compound genres come before the words they contain
+// (e.g. "latin trap" before "trap", "post punk" before "punk", "pop rap" before "pop")
+const TAXONOMY_RULES: { parent: string; family: GenreFamily; pattern: RegExp }[] = [
+  { parent: 'Reggaeton', family: 'Latin', pattern: /\b(reggaeton|urbano latino|latin trap|trap latino|latin hip hop)\b/ },
+  { parent: 'Drill', family: 'Hip Hop', pattern: /\bdrill\b/ },
+  { parent: 'Grime', family: 'Hip Hop', pattern: /\bgrime\b/ },
+  { parent: 'Trap', family: 'Hip Hop', pattern: /\btrap\b/ },
+  { parent: 'Hip Hop', family: 'Hip Hop', pattern: /\b(hip hop|rap|boom bap|phonk|crunk|horrorcore)\b/ },
+  { parent: 'Brazilian', family: 'Latin', pattern: /\b(mpb|sertanejo|bossa nova|samba|forro|pagode|funk carioca|baile funk|brazilian)\b/ },
+  { parent: 'Regional Mexican', family: 'Latin', pattern: /\b(regional mexican|corridos?|banda|norteno|mariachi|ranchera)\b/ },
+  { parent: 'Latin Pop', family: 'Latin', pattern: /\blatin pop\b/ },
+  { parent: 'Latin', family: 'Latin', pattern: /\b(latin|latino|salsa|bachata|merengue|cumbia|tropical|tango)\b/ },
+  { parent: 'Drum and Bass', family: 'Electronic', pattern: /\b(drum and bass|dnb|jungle|liquid funk|neurofunk)\b/ },
+  { parent: 'Dubstep', family: 'Electronic', pattern: /\b(dubstep|brostep|riddim)\b/ },
+  { parent: 'Hardstyle', family: 'Electronic', pattern: /\b(hardstyle|happy hardcore|hardcore techno|gabber)\b/ },
+  { parent: 'House', family: 'Electronic', pattern: /\bhouse\b/ },
+  { parent: 'Techno', family: 'Electronic', pattern: /\btechno\b/ },
+  { parent: 'Trance', family: 'Electronic', pattern: /\btrance\b/ },
+  { parent: 'Afrobeats', family: 'World', pattern: /\b(afrobeats?|afropop|afro|amapiano|highlife|azonto)\b/ },
+  { parent: 'K-Pop', family: 'Pop', pattern: /\bk pop\b/ },
+  { parent: 'J-Pop', family: 'Pop', pattern: /\b(j pop|anime|city pop)\b/ },
+  { parent: 'Indie Pop', family: 'Pop', pattern: /\b(indie pop|bedroom pop|dream pop|chamber pop|art pop|twee|indietronica)\b/ },
+  { parent: 'Synthpop', family: 'Pop', pattern: /\b(synthpop|synth pop|electropop|new wave)\b/ },
+  { parent: 'Dance Pop', family: 'Pop', pattern: /\b(dance pop|europop|eurodance)\b/ },
+  { parent: 'Lo-Fi', family: 'Electronic', pattern: /\b(lo fi|chillhop)\b/ },
+  { parent: 'Ambient', family: 'Electronic', pattern: /\b(ambient|drone|new age)\b/ },
+  { parent: 'Electronic', family: 'Electronic', pattern: /\b(edm|electronic|electronica|electro|idm|synthwave|downtempo|trip hop|breakbeat|uk garage|big room|dance)\b/ },
+  { parent: 'Neo Soul', family: 'R&B & Soul', pattern: /\bneo soul\b/ },
+  { parent: 'Soul', family: 'R&B & Soul', pattern: /\b(soul|motown)\b/ },
+  { parent: 'R&B', family: 'R&B & Soul', pattern: /(\br&b\b|\brnb\b|\burban contemporary\b|\bnew jack swing\b)/ },
+  { parent: 'Funk', family: 'R&B & Soul', pattern: /\b(funk|disco)\b/ },
+  { parent: 'Gospel', family: 'R&B & Soul', pattern: /\b(gospel|worship|ccm)\b/ },
+  { parent: 'Indie Rock', family: 'Rock', pattern: /\b(indie rock|garage rock|post punk|shoegaze|math rock|noise rock|slowcore)\b/ },
+  { parent: 'Punk', family: 'Rock', pattern: /\b(punk|emo|screamo|post hardcore|hardcore)\b/ },
+  { parent: 'Metal', family: 'Metal', pattern: /(metal|metalcore|deathcore|grindcore|djent)\b/ },
+  { parent: 'Country', family: 'Country & Folk', pattern: /\b(country|americana|bluegrass|honky tonk|outlaw)\b/ },
+  { parent: 'Folk', family: 'Country & Folk', pattern: /\b(folk|singer songwriter|acoustic(?! pop))\b/ },
+  { parent: 'Jazz', family: 'Jazz & Blues', pattern: /\b(jazz|bebop|swing|big band)\b/ },
+  { parent: 'Blues', family: 'Jazz & Blues', pattern: /\bblues\b/ },
+  { parent: 'Soundtrack', family: 'Classical', pattern: /\b(soundtrack|score|video game music|broadway|show tunes)\b/ },
+  { parent: 'Classical', family: 'Classical', pattern: /\b(classical|orchestra|orchestral|baroque|opera|choral|chamber|string quartet|compositional)\b/ },
+  { parent: 'Reggae', family: 'Reggae', pattern: /\b(reggae|dancehall|dub|ska|rocksteady)\b/ },
+  { parent: 'Pop', family: 'Pop', pattern: /\bpop\b/ },
+  { parent: 'Alternative', family: 'Rock', pattern: /\b(alternative|alt|grunge|britpop|post rock|indie)\b/ },
+  { parent: 'Rock', family: 'Rock', pattern: /\b(rock|rockabilly|psychedelic|prog)\b/ },
+  { parent: 'World', family: 'World', pattern: /\b(bollywood|desi|filmi|arabic|turkish|celtic|flamenco|fado|world)\b/ },
+];
+
+// Words kept upper-case in display names
+const ACRONYMS = new Set(['uk', 'us', 'edm', 'idm', 'r&b', 'dnb', 'mpb', 'ccm', 'ebm', 'nz']);
+
+const classificationCache = new Map<string, GenreClassification>();
+
+const round = (value: number, digits: number = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Canonical key for comparing genres: lowercase, no accents, single spaces
+ * "Indie Pop", "indie pop" and "indie  pop" all map to "indie pop"
+ */
+export function genreKey(genre: string): string {
+  return (genre || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Title-cased display name, e.g. "uk drill" -> "UK Drill", "r&b" -> "R&B"
+ */
+export function genreDisplayName(genre: string): string {
+  return genreKey(genre)
+    .split(' ')
+    .map(word => (ACRONYMS.has(word) ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+/**
+ * Parent genre and family of a (micro-)genre
+ * Unknown genres are their own parent in the 'Other' family
+ */
+export function classifyGenre(genre: string): GenreClassification {
+  const key = genreKey(genre);
+  const cached = classificationCache.get(key);
+  if (cached) return cached;
+
+  // Hyphens only matter for matching ("hip-hop", "k-pop", "lo-fi")
+  const matchable = key.replace(/-/g, ' ');
+  const rule = TAXONOMY_RULES.find(r => r.pattern.test(matchable));
+  const classification: GenreClassification = {
+    key,
+    name: genreDisplayName(key),
+    parent: rule ? rule.parent : genreDisplayName(key),
+    family: rule ? rule.family : 'Other',
+  };
+  classificationCache.set(key, classification);
+  return classification;
+}
+
+/**
+ * GENRE_WEIGHTS factor for a genre's position in an artist's genre list
+ */
+export function genreRankWeight(index: number): number {
+  if (index === 0) return GENRE_WEIGHTS.PRIMARY_GENRE;
+  if (index === 1) return GENRE_WEIGHTS.SECONDARY_GENRE;
+  return GENRE_WEIGHTS.TERTIARY_GENRE;
+}
+
+/**
+ * Weighted genre totals keyed by genreKey()
+ * Each artist's first genre counts fully, the second at SECONDARY_GENRE, the rest at TERTIARY_GENRE;
+ * `scale` multiplies every weight (e.g. to favour short-term top artists) and `totals` accumulates
+ */
+export function weightedGenreTotals(
+  artistGenres: string[][],
+  scale: number = 1,
+  totals: Map<string, number> = new Map()
+): Map<string, number> {
+  artistGenres.forEach(genres => {
+    genres.forEach((genre, index) => {
+      const key = genreKey(genre);
+      if (!key) return;
+      totals.set(key, (totals.get(key) || 0) + genreRankWeight(index) * scale);
+    });
+  });
+  return totals;
+}
+
+/**
+ * Roll weighted genre totals up into micro-genres, parent genres and families
+ */
+export function summarizeGenres(totals: Map<string, number>): GenreSummary {
+  const totalWeight = Array.from(totals.values()).reduce((sum, w) => sum + w, 0);
+  const share = (weight: number) => (totalWeight > 0 ? round((weight / totalWeight) * 100) : 0);
+
+  const genres = Array.from(totals.entries())
+    .map(([key, weight]) => ({ ...classifyGenre(key), weight }))
+    .sort((a, b) => b.weight - a.weight || a.key.localeCompare(b.key));
+
+  const parentWeights = new Map<string, { family: GenreFamily; weight: number }>();
+  const familyWeights = new Map<GenreFamily, number>();
+  genres.forEach(genre => {
+    const parent = parentWeights.get(genre.parent) || { family: genre.family, weight: 0 };
+    parent.weight += genre.weight;
+    parentWeights.set(genre.parent, parent);
+    familyWeights.set(genre.family, (familyWeights.get(genre.family) || 0) + genre.weight);
+  });
+
+  return {
+    genres,
+    parents: Array.from(parentWeights.entries())
+      .sort((a, b) => b[1].weight - a[1].weight || a[0].localeCompare(b[0]))
+      .map(([name, { family, weight }]) => ({ name, family, value: share(weight) })),
+    families: Array.from(familyWeights.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([name, weight]) => ({ name, value: share(weight) })),
+  };
+}
+
+/**
+ * Set of genre keys, for overlap checks between sources with different casing
+ */
+export function genreKeySet(genres: Iterable<string>): Set<string> {
+  const keys = new Set<string>();
+  for (const genre of genres) {
+    const key = genreKey(genre);
+    if (key) keys.add(key);
+  }
+  return keys;
+}
@@ -0,0 +1,147 @@
+// Obscurity profile
+// Mainstream vs. underground index from track popularity and the popularity and
+// follower counts of each track's primary artist
+
+import { OBSCURITY_ANALYSIS } from '../constants/analysis';
+
+export interface ObscurityInputTrack {
+  id: string;
+  name: string;
+  artist: string;
+  popularity: number | null; // 0-100
+  artistPopularity: number | null; // 0-100
+  artistFollowers: number | null;
+}
+
+export interface ObscurityProfile {
+  hipsterScore: number | null; // 0 = chart toppers only, 100 = deep underground
+  label: string;
+  averagePopularity: number | null;
+  medianPopularity: number | null;
+  averageArtistPopularity: number | null;
+  obscureShare: number | null; // % of tracks below OBSCURE_POPULARITY
+  histogram: { range: string; min: number; max: number; count: number; percentage: number }[];
+  components: {
+    trackObscurity: number | null;
+    artistObscurity: number | null;
+    followerObscurity: number | null;
+  };
+  obscureGems: { id: string; name: string; artist: string; popularity: number; artistFollowers: number | null }[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const round = (value: number | null, digits: number = 1) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+const isNumber = (value: number | null): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export function obscurityLabelFor(hipsterScore: number | null): string {
+  if (hipsterScore === null) return 'Unknown';
+  if (hipsterScore >= 75) return 'Deep Underground';
+  if (hipsterScore >= 60) return 'Crate Digger';
+  if (hipsterScore >= 45) return 'Indie Leaning';
+  if (hipsterScore >= 30) return 'Balanced';
+  if (hipsterScore >= 15) return 'Mainstream';
+  return 'Chart Topper';
+}
+
+/**
+ * Follower obscurity on a log scale: 0 followers -> 100, 10^MAX_FOLLOWERS_LOG10 or more -> 0
+ */
+export function followerObscurity(followers: number): number {
+  const scaled = Math.log10(Math.max(0, followers) + 1) / OBSCURITY_ANALYSIS.MAX_FOLLOWERS_LOG10;
+  return Math.max(0, Math.min(1, 1 - scaled)) * 100;
+}
+
+/**
+ * Build the obscurity profile of a list of tracks
+ * Components without data (e.g. artist lookups failed) are left out and the
+ * remaining weights renormalized
+ */
+export function analyzeObscurity(tracks: ObscurityInputTrack[]): ObscurityProfile {
+  const popularities = tracks.map(t => t.popularity).filter(isNumber);
+  const artistPopularities = tracks.map(t => t.artistPopularity).filter(isNumber);
+  const followers = tracks.map(t => t.artistFollowers).filter(isNumber);
+
+  const averagePopularity = average(popularities);
+  const averageArtistPopularity = average(artistPopularities);
+  const averageFollowerObscurity = average(followers.map(followerObscurity));
+
+  const components = {
+    trackObscurity: averagePopularity === null ? null : 100 - averagePopularity,
+    artistObscurity: averageArtistPopularity === null ? null : 100 - averageArtistPopularity,
+    followerObscurity: averageFollowerObscurity,
+  };
+
+  const weighted: [number | null, number][] = [
+    [components.trackObscurity, OBSCURITY_ANALYSIS.WEIGHTS.TRACK_POPULARITY],
+    [components.artistObscurity, OBSCURITY_ANALYSIS.WEIGHTS.ARTIST_POPULARITY],
+    [components.followerObscurity, OBSCURITY_ANALYSIS.WEIGHTS.ARTIST_FOLLOWERS],
+  ];
+  const known = weighted.filter((part): part is [number, number] => part[0] !== null);
+  const totalWeight = known.reduce((sum, [, weight]) => sum + weight, 0);
+  const hipsterScore = totalWeight > 0
+    ? Math.round(known.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight)
+    : null;
+
+  const bucketSize = OBSCURITY_ANALYSIS.HISTOGRAM_BUCKET_SIZE;
+  const bucketCount = Math.ceil(100 / bucketSize);
+  const histogram = Array.from({ length: bucketCount }, (_, index) => {
+    const min = index * bucketSize;
+    // The last bucket also holds popularity 100
+    const max = index === bucketCount - 1 ? 100 : min + bucketSize - 1;
+    const count = popularities.filter(p => p >= min && p <= max).length;
+    return {
+      range: `${min}-${max}`,
+      min,
+      max,
+      count,
+      percentage: popularities.length > 0 ? Math.round((count / popularities.length) * 100) : 0,
+    };
+  });
+
+  const sorted = [...popularities].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const medianPopularity = sorted.length === 0
+    ? null
+    : sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  const obscureCount = popularities.filter(p => p < OBSCURITY_ANALYSIS.OBSCURE_POPULARITY).length;
+
+  // Least popular tracks first; lesser-known artists break ties
+  const seen = new Set<string>();
+  const obscureGems = tracks
+    .filter(t => isNumber(t.popularity) && t.popularity < OBSCURITY_ANALYSIS.OBSCURE_POPULARITY)
+    .sort((a, b) =>
+      (a.popularity as number) - (b.popularity as number) ||
+      (a.artistFollowers ?? Infinity) - (b.artistFollowers ?? Infinity)
+    )
+    .filter(t => !seen.has(t.id) && seen.add(t.id))
+    .slice(0, OBSCURITY_ANALYSIS.MAX_GEMS)
+    .map(t => ({
+      id: t.id,
+      name: t.name,
+      artist: t.artist,
+      popularity: t.popularity as number,
+      artistFollowers: t.artistFollowers,
+    }));
+
+  return {
+    hipsterScore,
+    label: obscurityLabelFor(hipsterScore),
+    averagePopularity: round(averagePopularity),
+    medianPopularity,
+    averageArtistPopularity: round(averageArtistPopularity),
+    obscureShare: popularities.length > 0 ? round((obscureCount / popularities.length) * 100) : null,
+    histogram,
+    components: {
+      trackObscurity: round(components.trackObscurity),
+      artistObscurity: round(components.artistObscurity),
+      followerObscurity: round(components.followerObscurity),
+    },
+    obscureGems,
+  };
+}
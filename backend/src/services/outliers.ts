@@ -0,0 +1,200 @@
+// Outlier detection
+// Per-track z-scores across audio features and genre distance, used to flag
+// tracks that break a playlist's cohesion and to suggest removals
+
+import { AUDIO_ANALYSIS_THRESHOLDS } from '../constants/analysis';
+import { genreKey } from './genreTaxonomy';
+
+export const OUTLIER_DIMENSIONS = ['energy', 'valence', 'tempo', 'acousticness', 'genreDistance'] as const;
+
+export type OutlierDimension = typeof OUTLIER_DIMENSIONS[number];
+
+export interface OutlierInputTrack {
+  id: string;
+  name: string;
+  artist: string;
+  features: { energy?: number; valence?: number; tempo?: number; acousticness?: number } | null;
+  genres: string[]; // Genres of all the track's artists
+}
+
+export interface TrackOutlier {
+  id: string;
+  name: string;
+  artist: string;
+  zScores: Record<OutlierDimension, number | null>;
+  outlierScore: number; // Largest |z| across dimensions
+  flagged: boolean;
+  reasons: string[];
+}
+
+export interface RemovalSuggestion {
+  trackIds: string[];
+  count: number;
+  currentHealthScore: number;
+  projectedHealthScore: number;
+  improvement: number;
+}
+
+export interface OutlierReport {
+  threshold: number;
+  tracks: TrackOutlier[];
+  flagged: TrackOutlier[];
+  suggestion: RemovalSuggestion | null;
+}
+
+const DIMENSION_LABELS: Record<OutlierDimension, { high: string; low: string }> = {
+  energy: { high: 'Much more energetic than the rest of the playlist', low: 'Much calmer than the rest of the playlist' },
+  valence: { high: 'Much more upbeat than the rest of the playlist', low: 'Much darker in mood than the rest of the playlist' },
+  tempo: { high: 'Much faster than the rest of the playlist', low: 'Much slower than the rest of the playlist' },
+  acousticness: { high: 'Much more acoustic than the rest of the playlist', low: 'Much more produced/electronic than the rest of the playlist' },
+  genreDistance: { high: 'Genre is far from the playlist\'s main sound', low: 'Genre is unusually close to the playlist\'s core' },
+};
+
+const round = (value: number, digits: number = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * z-scores for a list of values (null entries stay null)
+ * A dimension with no spread yields 0 for every track
+ */
+function zScores(values: (number | null)[]): (number | null)[] {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 2) return values.map(v => (v === null ? null : 0));
+
+  const mean = present.reduce((sum, v) => sum + v, 0) / present.length;
+  const std = Math.sqrt(present.reduce((sum, v) => sum + (v - mean) ** 2, 0) / present.length);
+  return values.map(v => (v === null ? null : std === 0 ? 0 : (v - mean) / std));
+}
+
+/**
+ * Cosine distance between each track's genre set and the playlist's genre frequencies
+ * 0 = the track's genres are the playlist's most common ones, 1 = no genre in common
+ */
+export function genreDistances(tracks: { genres: string[] }[]): (number | null)[] {
+  const frequencies = new Map<string, number>();
+  tracks.forEach(track => {
+    new Set(track.genres.map(genreKey)).forEach(genre => {
+      frequencies.set(genre, (frequencies.get(genre) || 0) + 1);
+    });
+  });
+
+  const centroidNorm = Math.sqrt(
+    Array.from(frequencies.values()).reduce((sum, count) => sum + count * count, 0)
+  );
+  if (centroidNorm === 0) return tracks.map(() => null);
+
+  return tracks.map(track => {
+    const genres = new Set(track.genres.map(genreKey));
+    if (genres.size === 0) return null;
+    let dot = 0;
+    genres.forEach(genre => {
+      dot += frequencies.get(genre) || 0;
+    });
+    return 1 - dot / (centroidNorm * Math.sqrt(genres.size));
+  });
+}
+
+/**
+ * Compute per-track z-scores and flag outliers
+ * scoreHealth recomputes the playlist health score for a subset of tracks, so
+ * removal suggestions use exactly the same formula as the analysis itself
+ */
+export function detectOutliers<T extends OutlierInputTrack>(
+  tracks: T[],
+  scoreHealth: (remaining: T[]) => number,
+  threshold: number = AUDIO_ANALYSIS_THRESHOLDS.OUTLIERS.Z_SCORE
+): OutlierReport {
+  if (tracks.length < AUDIO_ANALYSIS_THRESHOLDS.OUTLIERS.MIN_TRACKS) {
+    return { threshold, tracks: [], flagged: [], suggestion: null };
+  }
+
+  const feature = (key: 'energy' | 'valence' | 'tempo' | 'acousticness') =>
+    tracks.map(t => (typeof t.features?.[key] === 'number' ? (t.features[key] as number) : null));
+
+  const scores: Record<OutlierDimension, (number | null)[]> = {
+    energy: zScores(feature('energy')),
+    valence: zScores(feature('valence')),
+    tempo: zScores(feature('tempo')),
+    acousticness: zScores(feature('acousticness')),
+    genreDistance: zScores(genreDistances(tracks)),
+  };
+
+  const results: TrackOutlier[] = tracks.map((track, index) => {
+    const trackScores = {} as Record<OutlierDimension, number | null>;
+    const reasons: string[] = [];
+    let outlierScore = 0;
+
+    OUTLIER_DIMENSIONS.forEach(dimension => {
+      const z = scores[dimension][index];
+      trackScores[dimension] = z === null ? null : round(z);
+      if (z === null) return;
+
+      // Being closer than usual to the core genres is never a problem
+      const relevant = dimension === 'genreDistance' ? Math.max(0, z) : Math.abs(z);
+      outlierScore = Math.max(outlierScore, relevant);
+
+      if (relevant >= threshold) {
+        const label = z > 0 ? DIMENSION_LABELS[dimension].high : DIMENSION_LABELS[dimension].low;
+        reasons.push(`${label} (z = ${round(z, 1)})`);
+      }
+    });
+
+    return {
+      id: track.id,
+      name: track.name,
+      artist: track.artist,
+      zScores: trackScores,
+      outlierScore: round(outlierScore),
+      flagged: reasons.length > 0,
+      reasons,
+    };
+  });
+
+  const flagged = results
+    .filter(r => r.flagged)
+    .sort((a, b) => b.outlierScore - a.outlierScore);
+
+  return {
+    threshold,
+    tracks: results,
+    flagged,
+    suggestion: suggestRemovals(tracks, flagged, scoreHealth),
+  };
+}
+
+/**
+ * Greedily remove flagged tracks (worst first) and keep the prefix that
+ * raises the health score the most
+ */
+function suggestRemovals<T extends OutlierInputTrack>(
+  tracks: T[],
+  flagged: TrackOutlier[],
+  scoreHealth: (remaining: T[]) => number
+): RemovalSuggestion | null {
+  if (flagged.length === 0) return null;
+
+  const currentHealthScore = scoreHealth(tracks);
+  const candidates = flagged.slice(0, AUDIO_ANALYSIS_THRESHOLDS.OUTLIERS.MAX_SUGGESTED_REMOVALS);
+  const removed = new Set<string>();
+
+  let best: RemovalSuggestion | null = null;
+  candidates.forEach(candidate => {
+    removed.add(candidate.id);
+    const remaining = tracks.filter(t => !removed.has(t.id));
+    if (remaining.length < AUDIO_ANALYSIS_THRESHOLDS.OUTLIERS.MIN_TRACKS) return;
+
+    const projectedHealthScore = scoreHealth(remaining);
+    const improvement = projectedHealthScore - currentHealthScore;
+    if (improvement > 0 && (!best || improvement > best.improvement)) {
+      best = {
+        trackIds: Array.from(removed),
+        count: removed.size,
+        currentHealthScore,
+        projectedHealthScore,
+        improvement,
+      };
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,162 @@
+// Personality classifier
+// Scores every PERSONALITY_TYPES entry against a playlist's audio profile using
+// AUDIO_ANALYSIS_THRESHOLDS, and weights artist genres by GENRE_WEIGHTS for diversity
+
+import { AUDIO_ANALYSIS_THRESHOLDS, PERSONALITY_TYPES, PersonalityType } from '../constants/analysis';
+import { shannonEntropy } from './diversity';
+import { weightedGenreTotals } from './genreTaxonomy';
+
+export interface PersonalityInput {
+  averages: {
+    energy: number;
+    danceability: number;
+    valence: number;
+    acousticness: number;
+    instrumentalness: number;
+    tempo: number; // BPM
+  };
+  energyStdDev: number;
+  artistGenres: string[][]; // Genre list of each artist appearance, most relevant first
+}
+
+export interface PersonalityMatch {
+  type: PersonalityType;
+  confidence: number; // 0-100
+  description: string;
+  traits: string[];
+}
+
+export interface PersonalityResult {
+  primary: PersonalityMatch;
+  secondary: PersonalityMatch[];
+  traits: string[];
+  signals: {
+    genreDiversity: number; // Effective number of genres (weighted)
+    energySpread: number;
+  };
+}
+
+// Secondary types below this confidence are not reported
+const MIN_SECONDARY_CONFIDENCE = 25;
+// Secondary types at or above this confidence contribute their traits
+const TRAIT_CONFIDENCE = 60;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Soft threshold: 0 at threshold - width, 0.5 at threshold, 1 at threshold + width
+ */
+const above = (value: number, threshold: number, width: number) =>
+  clamp01((value - (threshold - width)) / (2 * width));
+
+const below = (value: number, threshold: number, width: number) =>
+  1 - above(value, threshold, width);
+
+const between = (value: number, min: number, max: number, width: number) =>
+  Math.min(above(value, min, width), below(value, max, width));
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Effective number of genres: exp(Shannon entropy) of the weighted genre distribution
+ * Each artist's first genre counts fully, the second at SECONDARY_GENRE, the rest at TERTIARY_GENRE
+ */
+export function weightedGenreDiversity(artistGenres: string[][]): number {
+  const weights = Array.from(weightedGenreTotals(artistGenres).values());
+  if (weights.length === 0) return 0;
+  return Math.exp(shannonEntropy(weights));
+}
+
+/**
+ * Fit (0-1) of each personality type
+ */
+function scoreTypes(input: PersonalityInput, genreDiversity: number): Record<PersonalityType, number> {
+  const { energy, danceability, valence, acousticness, instrumentalness, tempo } = input.averages;
+  const t = AUDIO_ANALYSIS_THRESHOLDS;
+
+  const experimentalist = Math.max(
+    above(instrumentalness, t.EXPERIMENTALIST.MIN_INSTRUMENTALNESS, 0.15),
+    Math.min(
+      above(energy, t.EXPERIMENTALIST.HIGH_ENERGY, 0.1),
+      below(danceability, t.EXPERIMENTALIST.LOW_DANCEABILITY, 0.1)
+    )
+  );
+
+  const moodDriven = Math.max(
+    above(acousticness, t.MOOD_DRIVEN.MIN_ACOUSTICNESS, 0.15),
+    below(valence, t.MOOD_DRIVEN.LOW_VALENCE, 0.1),
+    above(valence, t.MOOD_DRIVEN.HIGH_VALENCE, 0.1)
+  );
+
+  const partyStarter =
+    mean([
+      above(energy, t.PARTY_STARTER.MIN_ENERGY, 0.1),
+      above(danceability, t.PARTY_STARTER.MIN_DANCEABILITY, 0.1),
+    ]) * 0.8 +
+    above(tempo, t.PARTY_STARTER.HIGH_TEMPO, 20) * 0.2;
+
+  const chillCurator = mean([
+    below(energy, t.CHILL_CURATOR.MAX_ENERGY, 0.1),
+    above(acousticness, t.CHILL_CURATOR.MIN_ACOUSTICNESS, 0.1),
+    between(valence, t.CHILL_CURATOR.MID_VALENCE_MIN, t.CHILL_CURATOR.MID_VALENCE_MAX, 0.1),
+  ]);
+
+  // Genre diversity is the main signal; a wide energy spread adds to it
+  const eclecticExplorer =
+    above(genreDiversity, t.ECLECTIC_EXPLORER.MIN_GENRE_DIVERSITY, t.ECLECTIC_EXPLORER.MIN_GENRE_DIVERSITY / 2) * 0.7 +
+    above(input.energyStdDev, t.ECLECTIC_EXPLORER.MIN_ENERGY_VARIANCE, 0.1) * 0.3;
+
+  const scores = {
+    'The Experimentalist': experimentalist,
+    'The Mood Driven': moodDriven,
+    'The Party Starter': partyStarter,
+    'The Chill Curator': chillCurator,
+    'The Eclectic Explorer': eclecticExplorer,
+  };
+
+  // Balanced: features near the middle and no strong pull towards another type
+  const centrality = 1 - mean(
+    [energy, danceability, valence, acousticness].map(v => Math.abs(v - 0.5) * 2)
+  );
+  const strongestOther = Math.max(...Object.values(scores));
+
+  return {
+    ...scores,
+    'The Balanced Listener': centrality * 0.5 + (1 - strongestOther) * 0.5,
+  };
+}
+
+/**
+ * Classify a playlist: primary type, ranked secondary types and combined traits
+ */
+export function classifyPersonality(input: PersonalityInput): PersonalityResult {
+  const genreDiversity = weightedGenreDiversity(input.artistGenres);
+  const scores = scoreTypes(input, genreDiversity);
+
+  const ranked: PersonalityMatch[] = (Object.keys(scores) as PersonalityType[])
+    .map(type => ({
+      type,
+      confidence: Math.round(scores[type] * 100),
+      description: PERSONALITY_TYPES[type].description,
+      traits: [...PERSONALITY_TYPES[type].traits],
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [primary, ...rest] = ranked;
+  const secondary = rest.filter(match => match.confidence >= MIN_SECONDARY_CONFIDENCE);
+
+  const traits = Array.from(new Set([
+    ...primary.traits,
+    ...secondary.filter(match => match.confidence >= TRAIT_CONFIDENCE).flatMap(match => match.traits),
+  ]));
+
+  return {
+    primary,
+    secondary,
+    traits,
+    signals: {
+      genreDiversity: Math.round(genreDiversity * 10) / 10,
+      energySpread: Math.round(input.energyStdDev * 100) / 100,
+    },
+  };
+}
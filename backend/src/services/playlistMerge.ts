@@ -0,0 +1,198 @@
+// Playlist merge helpers
+// Deduplication and ordering strategies for POST /api/playlists/merge
+
+import { songKey } from '../utils/trackIdentity';
+
+export const MERGE_ORDER_MODES = ['source', 'interleave', 'energy', 'shuffle'] as const;
+
+export type MergeOrderMode = typeof MERGE_ORDER_MODES[number];
+
+export interface MergeTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: { id?: string; name: string }[];
+  isrc?: string | null;
+  durationMs?: number;
+  sourceIndex: number; // Index of the source (playlist URL or the track_ids list)
+  position: number; // Position within its source
+  energy?: number | null;
+}
+
+export interface MergeDuplicate {
+  kept: { id: string; name: string; artist: string };
+  removed: { id: string; name: string; artist: string };
+  reason: 'same_track_id' | 'same_isrc' | 'same_title_and_artist';
+}
+
+const summarize = (track: MergeTrack) => ({
+  id: track.id,
+  name: track.name,
+  artist: track.artists[0]?.name || 'Unknown',
+});
+
+/**
+ * Remove duplicate tracks, keeping the first occurrence
+ * Matches on track ID, then ISRC, then normalized title + primary artist
+ * (same song released under different track IDs, e.g. single vs. album);
+ * tracks without a usable title or artist are only matched by ID or ISRC
+ */
+export function dedupeMergeTracks(tracks: MergeTrack[]): {
+  tracks: MergeTrack[];
+  duplicates: MergeDuplicate[];
+} {
+  const byId = new Map<string, MergeTrack>();
+  const byIsrc = new Map<string, MergeTrack>();
+  const bySong = new Map<string, MergeTrack>();
+  const unique: MergeTrack[] = [];
+  const duplicates: MergeDuplicate[] = [];
+
+  tracks.forEach(track => {
+    const isrc = track.isrc ? track.isrc.toUpperCase() : null;
+    const key = songKey(track.name, track.artists[0]);
+
+    let existing: MergeTrack | undefined;
+    let reason: MergeDuplicate['reason'] | undefined;
+
+    if (byId.has(track.id)) {
+      existing = byId.get(track.id);
+      reason = 'same_track_id';
+    } else if (isrc && byIsrc.has(isrc)) {
+      existing = byIsrc.get(isrc);
+      reason = 'same_isrc';
+    } else if (key && bySong.has(key)) {
+      existing = bySong.get(key);
+      reason = 'same_title_and_artist';
+    }
+
+    if (existing && reason) {
+      duplicates.push({ kept: summarize(existing), removed: summarize(track), reason });
+      return;
+    }
+
+    byId.set(track.id, track);
+    if (isrc) byIsrc.set(isrc, track);
+    if (key) bySong.set(key, track);
+    unique.push(track);
+  });
+
+  return { tracks: unique, duplicates };
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so shuffles can be reproduced with a seed
+ */
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined || !Number.isFinite(seed)) {
+    return Math.random;
+  }
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Round-robin across sources: A1, B1, C1, A2, B2, ...
+ */
+function interleave(tracks: MergeTrack[]): MergeTrack[] {
+  const groups = new Map<number, MergeTrack[]>();
+  tracks.forEach(track => {
+    if (!groups.has(track.sourceIndex)) groups.set(track.sourceIndex, []);
+    groups.get(track.sourceIndex)!.push(track);
+  });
+
+  const queues = Array.from(groups.keys())
+    .sort((a, b) => a - b)
+    .map(index => groups.get(index)!.sort((a, b) => a.position - b.position));
+
+  const result: MergeTrack[] = [];
+  let round = 0;
+  while (result.length < tracks.length) {
+    queues.forEach(queue => {
+      if (round < queue.length) result.push(queue[round]);
+    });
+    round++;
+  }
+  return result;
+}
+
+/**
+ * Shuffle, then greedily place tracks so the same primary artist does not
+ * repeat within `artistGap` positions (relaxed when it cannot be satisfied)
+ */
+function shuffleWithArtistSpacing(tracks: MergeTrack[], artistGap: number, random: () => number): MergeTrack[] {
+  const pool = [...tracks];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  const artistOf = (track: MergeTrack) =>
+    (track.artists[0]?.id || track.artists[0]?.name || '').toLowerCase();
+  const lastPlaced = new Map<string, number>();
+  const result: MergeTrack[] = [];
+
+  while (pool.length > 0) {
+    const position = result.length;
+    let pickIndex = pool.findIndex(track => {
+      const last = lastPlaced.get(artistOf(track));
+      return last === undefined || position - last > artistGap;
+    });
+
+    // No track satisfies the gap: take the artist seen longest ago
+    if (pickIndex === -1) {
+      pickIndex = 0;
+      let oldest = Infinity;
+      pool.forEach((track, index) => {
+        const last = lastPlaced.get(artistOf(track)) ?? -Infinity;
+        if (last < oldest) {
+          oldest = last;
+          pickIndex = index;
+        }
+      });
+    }
+
+    const [picked] = pool.splice(pickIndex, 1);
+    lastPlaced.set(artistOf(picked), position);
+    result.push(picked);
+  }
+
+  return result;
+}
+
+/**
+ * Order merged tracks according to the requested mode
+ * - source: sources in the order given, each in its own order
+ * - interleave: alternate between sources
+ * - energy: low to high energy (tracks without features keep source order at the end)
+ * - shuffle: random order with the same artist spaced out
+ */
+export function orderMergeTracks(
+  tracks: MergeTrack[],
+  mode: MergeOrderMode,
+  options: { artistGap?: number; seed?: number } = {}
+): MergeTrack[] {
+  const bySource = [...tracks].sort((a, b) =>
+    a.sourceIndex - b.sourceIndex || a.position - b.position
+  );
+
+  switch (mode) {
+    case 'interleave':
+      return interleave(bySource);
+    case 'energy': {
+      const withEnergy = bySource.filter(t => typeof t.energy === 'number');
+      const withoutEnergy = bySource.filter(t => typeof t.energy !== 'number');
+      return [...withEnergy.sort((a, b) => (a.energy as number) - (b.energy as number)), ...withoutEnergy];
+    }
+    case 'shuffle':
+      return shuffleWithArtistSpacing(bySource, Math.max(0, options.artistGap ?? 3), createRandom(options.seed));
+    case 'source':
+    default:
+      return bySource;
+  }
+}
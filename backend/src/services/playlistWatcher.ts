@@ -0,0 +1,147 @@
+// Playlist watch scheduler
+// Periodically picks watched playlists that are due for a check and hands them to
+// a checker one at a time. The checker (snapshot comparison, re-analysis, change
+// events) and the storage live with the routes; this module only schedules
+
+import { WATCHED_PLAYLISTS } from '../constants/analysis';
+
+export type WatchStatus = 'active' | 'paused';
+
+export interface WatchedPlaylist {
+  id: string;
+  userId: string;
+  playlistId: string | null; // Saved playlist row of the latest analysis
+  spotifyPlaylistId: string;
+  url: string;
+  name: string;
+  status: WatchStatus;
+  checkIntervalMinutes: number;
+  lastSnapshotId: string | null;
+  lastAnalysisId: string | null;
+  lastCheckedAt: string | null;
+  lastChangedAt: string | null;
+  nextCheckAt: string;
+  consecutiveFailures: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface PlaylistWatchStore {
+  // Active watches with next_check_at <= now, most overdue first
+  listDue(now: Date, limit: number): Promise<WatchedPlaylist[]>;
+  // Move next_check_at to `until` if it still has the listed value;
+  // false when another backend instance claimed the watch first
+  claim(watch: WatchedPlaylist, until: Date): Promise<boolean>;
+}
+
+export type PlaylistWatchCheck = (watch: WatchedPlaylist) => Promise<void>;
+
+export function watchFromRow(row: any): WatchedPlaylist {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    playlistId: row.playlist_id,
+    spotifyPlaylistId: row.spotify_playlist_id,
+    url: row.url,
+    name: row.name,
+    status: row.status,
+    checkIntervalMinutes: row.check_interval_minutes,
+    lastSnapshotId: row.last_snapshot_id,
+    lastAnalysisId: row.last_analysis_id,
+    lastCheckedAt: row.last_checked_at,
+    lastChangedAt: row.last_changed_at,
+    nextCheckAt: row.next_check_at,
+    consecutiveFailures: row.consecutive_failures,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Check interval from a `check_interval_minutes` request value
+ * undefined/null = WATCHED_PLAYLISTS.DEFAULT_CHECK_INTERVAL_MINUTES
+ */
+export function parseCheckInterval(value: unknown): { minutes: number } | { error: string } {
+  if (value === undefined || value === null) {
+    return { minutes: WATCHED_PLAYLISTS.DEFAULT_CHECK_INTERVAL_MINUTES };
+  }
+
+  const minutes = Number(value);
+  if (
+    !Number.isInteger(minutes) ||
+    minutes < WATCHED_PLAYLISTS.MIN_CHECK_INTERVAL_MINUTES ||
+    minutes > WATCHED_PLAYLISTS.MAX_CHECK_INTERVAL_MINUTES
+  ) {
+    return {
+      error: `check_interval_minutes must be a whole number between ${WATCHED_PLAYLISTS.MIN_CHECK_INTERVAL_MINUTES} and ${WATCHED_PLAYLISTS.MAX_CHECK_INTERVAL_MINUTES}`,
+    };
+  }
+  return { minutes };
+}
+
+/**
+ * When to check a watch next: its interval, doubled per consecutive failure
+ * (capped at MAX_BACKOFF_MINUTES, or the interval itself when that is longer)
+ */
+export function nextCheckTime(intervalMinutes: number, failures: number = 0, now: Date = new Date()): Date {
+  const backoff = failures > 0
+    ? Math.min(intervalMinutes * 2 ** failures, Math.max(intervalMinutes, WATCHED_PLAYLISTS.MAX_BACKOFF_MINUTES))
+    : intervalMinutes;
+  return new Date(now.getTime() + backoff * 60 * 1000);
+}
+
+export class PlaylistWatchScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly store: PlaylistWatchStore,
+    private readonly check: PlaylistWatchCheck,
+    private readonly pollIntervalMs: number = WATCHED_PLAYLISTS.POLL_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Playlist watch scheduler error:', error));
+    }, this.pollIntervalMs);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Check every due watch of one batch; returns how many were checked
+   * A tick that starts while the previous one is still running does nothing
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      const due = await this.store.listDue(now, WATCHED_PLAYLISTS.BATCH_SIZE);
+      let checked = 0;
+
+      for (const watch of due) {
+        // Claimed watches are skipped by other instances until the check reschedules them
+        const claimedUntil = new Date(Date.now() + WATCHED_PLAYLISTS.CLAIM_TIMEOUT_MINUTES * 60 * 1000);
+        if (!(await this.store.claim(watch, claimedUntil))) continue;
+
+        try {
+          await this.check(watch);
+          checked++;
+        } catch (error) {
+          // The claim expires and the watch is retried later
+          console.error(`Watched playlist ${watch.id} check failed:`, error);
+        }
+      }
+      return checked;
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
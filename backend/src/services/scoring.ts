@@ -0,0 +1,134 @@
+// Playlist scoring model
+// Versioned health score and overall rating shared by analysis and battles.
+// Bump SCORING_VERSION whenever weights or formulas change so stored results stay comparable
+
+import { DiversityProfile } from './diversity';
+
+// 1.1: variety uses artist/genre entropy instead of distinct genres per track
+export const SCORING_VERSION = '1.1';
+
+export const HEALTH_WEIGHTS = {
+  flow: 0.4,
+  variety: 0.3,
+  engagement: 0.3,
+} as const;
+
+// Overall rating multipliers for very small or very large playlists
+export const SIZE_PENALTIES = {
+  SMALL_PLAYLIST_MAX_TRACKS: 9,
+  SMALL_PLAYLIST_MULTIPLIER: 0.9,
+  LARGE_PLAYLIST_MIN_TRACKS: 501,
+  LARGE_PLAYLIST_MULTIPLIER: 0.95,
+} as const;
+
+export type ScoreComponent = keyof typeof HEALTH_WEIGHTS;
+
+export interface ScoreInput {
+  features: { energy?: number; danceability?: number }[];
+  diversity: DiversityProfile | null; // null when artists are unknown (variety is left out)
+  trackCount: number;
+}
+
+export interface ScoreBreakdown {
+  version: string;
+  components: Record<ScoreComponent, number | null>; // 0-100 each
+  weights: Record<ScoreComponent, number>; // Effective weights (renormalized if a component is missing)
+  sizePenalty: { multiplier: number; reason: string | null };
+  healthScore: number;
+  healthStatus: string;
+  overallRating: number;
+  ratingDescription: string;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Flow: consistent energy scores 100, dropping as the energy spread grows beyond 0.2
+ */
+export function flowComponent(features: ScoreInput['features']): number {
+  if (features.length === 0) return 0;
+  const energies = features.map(f => f.energy || 0);
+  const avgEnergy = average(energies);
+  const energyStdDev = Math.sqrt(average(energies.map(e => (e - avgEnergy) ** 2)));
+  return energyStdDev < 0.2 ? 100 : Math.max(0, 100 - ((energyStdDev - 0.2) * 200));
+}
+
+/**
+ * Variety: artist and genre spread from the diversity metrics
+ */
+export function varietyComponent(diversity: DiversityProfile): number {
+  return diversity.varietyScore;
+}
+
+/**
+ * Engagement: average danceability
+ */
+export function engagementComponent(features: ScoreInput['features']): number {
+  return average(features.map(f => f.danceability || 0)) * 100;
+}
+
+export function healthStatusFor(healthScore: number): string {
+  if (healthScore >= 90) return 'Exceptional';
+  if (healthScore >= 75) return 'Great';
+  if (healthScore >= 60) return 'Good';
+  if (healthScore >= 40) return 'Average';
+  return 'Needs Work';
+}
+
+export function ratingDescriptionFor(overallRating: number): string {
+  if (overallRating >= 4.8) return 'Masterpiece curation.';
+  if (overallRating >= 4.5) return 'Highly curated selection.';
+  if (overallRating >= 4.0) return 'Well balanced mix.';
+  if (overallRating >= 3.0) return 'Good potential.';
+  return 'Solid collection.';
+}
+
+/**
+ * Score a playlist: health score (0-100), status, 1-5 rating and the full breakdown
+ */
+export function scorePlaylist(input: ScoreInput): ScoreBreakdown {
+  const components: Record<ScoreComponent, number | null> = {
+    flow: flowComponent(input.features),
+    variety: input.diversity === null ? null : varietyComponent(input.diversity),
+    engagement: engagementComponent(input.features),
+  };
+
+  // Renormalize weights over the components that could be computed
+  const known = (Object.keys(HEALTH_WEIGHTS) as ScoreComponent[]).filter(key => components[key] !== null);
+  const totalWeight = known.reduce((sum, key) => sum + HEALTH_WEIGHTS[key], 0);
+  const weights = {} as Record<ScoreComponent, number>;
+  (Object.keys(HEALTH_WEIGHTS) as ScoreComponent[]).forEach(key => {
+    weights[key] = components[key] === null ? 0 : HEALTH_WEIGHTS[key] / totalWeight;
+  });
+
+  const healthScore = Math.round(
+    known.reduce((sum, key) => sum + (components[key] as number) * weights[key], 0)
+  );
+
+  let sizePenalty: ScoreBreakdown['sizePenalty'] = { multiplier: 1, reason: null };
+  if (input.trackCount <= SIZE_PENALTIES.SMALL_PLAYLIST_MAX_TRACKS) {
+    sizePenalty = { multiplier: SIZE_PENALTIES.SMALL_PLAYLIST_MULTIPLIER, reason: 'Fewer than 10 tracks' };
+  } else if (input.trackCount >= SIZE_PENALTIES.LARGE_PLAYLIST_MIN_TRACKS) {
+    sizePenalty = { multiplier: SIZE_PENALTIES.LARGE_PLAYLIST_MULTIPLIER, reason: 'More than 500 tracks' };
+  }
+
+  const rating = Math.max(1.0, Math.min(5.0, (healthScore / 20.0) * sizePenalty.multiplier));
+
+  const roundComponent = (value: number | null) => (value === null ? null : Math.round(value));
+
+  return {
+    version: SCORING_VERSION,
+    components: {
+      flow: roundComponent(components.flow),
+      variety: roundComponent(components.variety),
+      engagement: roundComponent(components.engagement),
+    },
+    weights,
+    sizePenalty,
+    healthScore,
+    healthStatus: healthStatusFor(healthScore),
+    overallRating: Math.round(rating * 10) / 10,
+    ratingDescription: ratingDescriptionFor(rating),
+  };
+}
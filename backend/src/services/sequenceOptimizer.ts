@@ -0,0 +1,207 @@
+// Playlist sequence optimizer
+// Orders tracks to minimize harmonic, tempo and energy discontinuities while
+// optionally following a target energy arc, and plans the Spotify reorder moves
+
+import { SEQUENCE_OPTIMIZER } from '../constants/analysis';
+import { TransitionTrack, scoreTransition } from './transitions';
+
+export const ENERGY_ARCS = ['none', 'warm_up', 'peak', 'cool_down'] as const;
+
+export type EnergyArc = typeof ENERGY_ARCS[number];
+
+export interface SequenceResult<T extends TransitionTrack> {
+  order: T[];
+  arcFit: number | null; // 0-100, how closely energy follows the arc (null for 'none')
+}
+
+export interface ReorderMove {
+  rangeStart: number;
+  insertBefore: number;
+}
+
+/**
+ * Target energy (0-1 within the playlist's own range) at relative position t (0-1)
+ * - warm_up: steadily rising
+ * - peak: warm-up to a peak about two thirds in, then cool-down
+ * - cool_down: steadily falling
+ */
+export function arcTarget(arc: EnergyArc, t: number): number | null {
+  switch (arc) {
+    case 'warm_up':
+      return t;
+    case 'cool_down':
+      return 1 - t;
+    case 'peak':
+      return t <= 0.65 ? t / 0.65 : (1 - t) / 0.35;
+    case 'none':
+    default:
+      return null;
+  }
+}
+
+const energyOf = (track: TransitionTrack) =>
+  typeof track.features?.energy === 'number' ? track.features.energy : 0.5;
+
+/**
+ * Compute an optimized order
+ * Tracks without audio features are kept at the end in their original order
+ */
+export function optimizeSequence<T extends TransitionTrack>(
+  tracks: T[],
+  arc: EnergyArc = 'none',
+  arcWeight: number = SEQUENCE_OPTIMIZER.DEFAULT_ARC_WEIGHT
+): SequenceResult<T> {
+  const sequenceable = tracks.filter(t => t.features);
+  const unsequenceable = tracks.filter(t => !t.features);
+  const n = sequenceable.length;
+
+  if (n < 3) {
+    return { order: [...sequenceable, ...unsequenceable], arcFit: arcFitScore(sequenceable, arc) };
+  }
+
+  // Pairwise transition cost (0 = seamless, 100 = worst)
+  const cost: number[][] = sequenceable.map(from =>
+    sequenceable.map(to => (from === to ? 0 : 100 - scoreTransition(from.features, to.features).score))
+  );
+
+  // Arc targets are scaled to the playlist's own energy range
+  const energies = sequenceable.map(energyOf);
+  const minEnergy = Math.min(...energies);
+  const maxEnergy = Math.max(...energies);
+  const arcCost = (trackIndex: number, position: number) => {
+    const target = arcTarget(arc, position / (n - 1));
+    if (target === null) return 0;
+    const targetEnergy = minEnergy + target * (maxEnergy - minEnergy);
+    return Math.abs(energies[trackIndex] - targetEnergy) * 100 * arcWeight;
+  };
+
+  const totalCost = (order: number[]) =>
+    order.reduce((sum, trackIndex, position) =>
+      sum + arcCost(trackIndex, position) + (position > 0 ? cost[order[position - 1]][trackIndex] : 0), 0);
+
+  // Greedy nearest neighbour from several starting tracks
+  const greedy = (start: number) => {
+    const used = new Array(n).fill(false);
+    const order = [start];
+    used[start] = true;
+    for (let position = 1; position < n; position++) {
+      const last = order[order.length - 1];
+      let best = -1;
+      let bestCost = Infinity;
+      for (let candidate = 0; candidate < n; candidate++) {
+        if (used[candidate]) continue;
+        const candidateCost = cost[last][candidate] + arcCost(candidate, position);
+        if (candidateCost < bestCost) {
+          bestCost = candidateCost;
+          best = candidate;
+        }
+      }
+      used[best] = true;
+      order.push(best);
+    }
+    return order;
+  };
+
+  const starts = Array.from({ length: n }, (_, i) => i)
+    .sort((a, b) => arcCost(a, 0) - arcCost(b, 0) || a - b)
+    .slice(0, SEQUENCE_OPTIMIZER.GREEDY_STARTS);
+
+  let bestOrder = greedy(starts[0]);
+  let bestCost = totalCost(bestOrder);
+  starts.slice(1).forEach(start => {
+    const order = greedy(start);
+    const orderCost = totalCost(order);
+    if (orderCost < bestCost) {
+      bestOrder = order;
+      bestCost = orderCost;
+    }
+  });
+
+  if (n <= SEQUENCE_OPTIMIZER.LOCAL_SEARCH_MAX_TRACKS) {
+    bestOrder = twoOpt(bestOrder, cost, arcCost);
+  }
+
+  const order = bestOrder.map(index => sequenceable[index]);
+  return { order: [...order, ...unsequenceable], arcFit: arcFitScore(order, arc) };
+}
+
+/**
+ * 2-opt refinement: reverse segments while that lowers the total cost
+ * Only the reversed segment and its two edges need re-scoring
+ */
+function twoOpt(
+  initial: number[],
+  cost: number[][],
+  arcCost: (trackIndex: number, position: number) => number
+): number[] {
+  const order = [...initial];
+  const n = order.length;
+
+  const segmentCost = (segment: number[], offset: number) => {
+    let sum = 0;
+    for (let k = 0; k < segment.length; k++) {
+      sum += arcCost(segment[k], offset + k);
+      if (k > 0) sum += cost[segment[k - 1]][segment[k]];
+    }
+    if (offset > 0) sum += cost[order[offset - 1]][segment[0]];
+    const after = offset + segment.length;
+    if (after < n) sum += cost[segment[segment.length - 1]][order[after]];
+    return sum;
+  };
+
+  for (let pass = 0; pass < SEQUENCE_OPTIMIZER.LOCAL_SEARCH_MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const segment = order.slice(i, j + 1);
+        const reversed = [...segment].reverse();
+        if (segmentCost(reversed, i) + 1e-9 < segmentCost(segment, i)) {
+          order.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return order;
+}
+
+/**
+ * How closely a sequence's energy follows the arc, 0-100
+ */
+export function arcFitScore(tracks: TransitionTrack[], arc: EnergyArc): number | null {
+  if (arc === 'none' || tracks.length < 2) return null;
+
+  const energies = tracks.map(energyOf);
+  const minEnergy = Math.min(...energies);
+  const range = Math.max(...energies) - minEnergy;
+  if (range === 0) return 100;
+
+  const meanError = energies.reduce((sum, energy, position) => {
+    const target = arcTarget(arc, position / (tracks.length - 1)) as number;
+    return sum + Math.abs((energy - minEnergy) / range - target);
+  }, 0) / energies.length;
+
+  return Math.round(Math.max(0, 1 - meanError) * 100);
+}
+
+/**
+ * Moves that turn `current` into `target` with Spotify's reorder endpoint
+ * Both arrays hold the same keys (e.g. original positions); each move takes the
+ * item that belongs at position i and inserts it before position i
+ */
+export function planReorderMoves<K>(current: K[], target: K[]): ReorderMove[] {
+  const working = [...current];
+  const moves: ReorderMove[] = [];
+
+  target.forEach((key, position) => {
+    const from = working.indexOf(key, position);
+    if (from === -1 || from === position) return;
+    moves.push({ rangeStart: from, insertBefore: position });
+    working.splice(from, 1);
+    working.splice(position, 0, key);
+  });
+
+  return moves;
+}
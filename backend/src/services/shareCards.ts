@@ -0,0 +1,388 @@
+// Share cards
+// Renders analysis and battle results as SVG images for social sharing, and
+// rasterizes them to PNG. Output depends only on the card data and size (cover
+// art is embedded by the caller), so identical inputs give byte-identical cards
+
+import { Resvg } from '@resvg/resvg-js';
+import { SHARE_CARD } from '../constants/analysis';
+
+export type ShareCardSize = keyof typeof SHARE_CARD.SIZES;
+export type ShareCardFormat = 'svg' | 'png';
+
+// Audio DNA on a 0-100 scale, as stored in analyses.audio_dna
+export interface CardAudioDna {
+  energy: number;
+  danceability: number;
+  valence: number;
+  acousticness: number;
+  instrumentalness: number;
+  tempo: number;
+}
+
+export interface AnalysisCardData {
+  playlistName: string;
+  owner: string | null;
+  coverImage: string | null; // data: URI; remote URLs are never fetched while rendering
+  personalityType: string | null;
+  healthScore: number | null;
+  healthStatus: string | null;
+  audioDna: CardAudioDna | null;
+  topGenres: { name: string; value: number }[]; // value in %
+}
+
+export interface BattleCardSide {
+  name: string;
+  owner: string | null;
+  coverImage: string | null; // data: URI
+  score: number | null;
+  audioDna: CardAudioDna | null;
+}
+
+export interface BattleCardData {
+  playlist1: BattleCardSide;
+  playlist2: BattleCardSide;
+  winner: 'playlist1' | 'playlist2' | 'tie' | null;
+  compatibilityScore: number | null;
+  sharedArtistCount: number;
+  sharedGenres: string[];
+}
+
+const COLORS = {
+  background: '#0F0F23',
+  card: '#1A1A2E',
+  primary: '#7C3AED',
+  secondary: '#06B6D4',
+  accent: '#EC4899',
+  text: '#F2F2F2',
+  muted: '#7A7A8F',
+  border: '#3E3E4E',
+  success: '#10B981',
+  warning: '#F59E0B',
+} as const;
+
+const FONT_FAMILY = 'Inter, DejaVu Sans, Arial, sans-serif';
+
+// Cards are laid out on a 1000-unit wide canvas and scaled to the requested size
+const CANVAS_WIDTH = 1000;
+const PADDING = 40;
+
+const RADAR_AXES: { key: keyof CardAudioDna; label: string }[] = [
+  { key: 'energy', label: 'Energy' },
+  { key: 'danceability', label: 'Dance' },
+  { key: 'valence', label: 'Mood' },
+  { key: 'acousticness', label: 'Acoustic' },
+  { key: 'instrumentalness', label: 'Instrumental' },
+  { key: 'tempo', label: 'Tempo' },
+];
+
+/**
+ * Fixed-precision number for SVG attributes (keeps output byte-stable)
+ */
+const num = (value: number) => {
+  const rounded = Math.round(value * 10) / 10;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Shorten text to roughly fit `maxWidth` canvas units at `fontSize`
+ * (average glyph width is estimated, since fonts differ between hosts)
+ */
+function fitText(text: string, fontSize: number, maxWidth: number): string {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * 0.56)));
+  const chars = Array.from(text.trim());
+  return chars.length <= maxChars ? chars.join('') : `${chars.slice(0, maxChars - 1).join('').trimEnd()}…`;
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  options: { size: number; color?: string; weight?: number; anchor?: 'start' | 'middle' | 'end'; spacing?: number }
+): string {
+  const attrs = [
+    `x="${num(x)}"`,
+    `y="${num(y)}"`,
+    `font-size="${num(options.size)}"`,
+    `fill="${options.color || COLORS.text}"`,
+    options.weight ? `font-weight="${options.weight}"` : '',
+    options.anchor && options.anchor !== 'start' ? `text-anchor="${options.anchor}"` : '',
+    options.spacing ? `letter-spacing="${num(options.spacing)}"` : '',
+  ].filter(Boolean);
+  return `<text ${attrs.join(' ')}>${escapeXml(content)}</text>`;
+}
+
+function label(x: number, y: number, content: string, anchor: 'start' | 'middle' | 'end' = 'start'): string {
+  return text(x, y, content.toUpperCase(), { size: 15, color: COLORS.muted, weight: 600, anchor, spacing: 1.5 });
+}
+
+/**
+ * Cover art clipped to a rounded square, or a placeholder with the playlist's initial
+ */
+function cover(id: string, x: number, y: number, size: number, image: string | null, name: string): string {
+  const clip = `<clipPath id="${id}"><rect x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" rx="12"/></clipPath>`;
+  if (image) {
+    return `${clip}<image href="${escapeXml(image)}" x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" preserveAspectRatio="xMidYMid slice" clip-path="url(#${id})"/>`;
+  }
+  const initial = Array.from(name.trim())[0]?.toUpperCase() || '♪';
+  return [
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" rx="12" fill="url(#accentGradient)"/>`,
+    text(x + size / 2, y + size / 2 + size * 0.14, initial, { size: size * 0.4, weight: 700, anchor: 'middle' }),
+  ].join('');
+}
+
+/**
+ * Hexagonal radar chart of one or more Audio DNA profiles
+ */
+function radar(cx: number, cy: number, radius: number, profiles: { dna: CardAudioDna; color: string }[]): string {
+  const point = (axis: number, fraction: number) => {
+    const angle = -Math.PI / 2 + (axis * 2 * Math.PI) / RADAR_AXES.length;
+    return { x: cx + Math.cos(angle) * radius * fraction, y: cy + Math.sin(angle) * radius * fraction };
+  };
+  const polygon = (fractions: number[]) =>
+    fractions.map((fraction, axis) => {
+      const p = point(axis, fraction);
+      return `${num(p.x)},${num(p.y)}`;
+    }).join(' ');
+
+  const parts: string[] = [];
+  [0.25, 0.5, 0.75, 1].forEach(ring => {
+    parts.push(`<polygon points="${polygon(RADAR_AXES.map(() => ring))}" fill="none" stroke="${COLORS.border}" stroke-width="1.5"/>`);
+  });
+  RADAR_AXES.forEach((axis, index) => {
+    const end = point(index, 1);
+    parts.push(`<line x1="${num(cx)}" y1="${num(cy)}" x2="${num(end.x)}" y2="${num(end.y)}" stroke="${COLORS.border}" stroke-width="1.5"/>`);
+
+    const labelPoint = point(index, 1.18);
+    const anchor = Math.abs(labelPoint.x - cx) < 1 ? 'middle' : labelPoint.x > cx ? 'start' : 'end';
+    parts.push(text(labelPoint.x, labelPoint.y + 6, axis.label, { size: 16, color: COLORS.muted, anchor }));
+  });
+  profiles.forEach(({ dna, color }) => {
+    const fractions = RADAR_AXES.map(axis => clamp((dna[axis.key] || 0) / 100, 0, 1));
+    parts.push(`<polygon points="${polygon(fractions)}" fill="${color}" fill-opacity="0.3" stroke="${color}" stroke-width="3" stroke-linejoin="round"/>`);
+  });
+  return parts.join('');
+}
+
+function healthColor(score: number): string {
+  if (score >= 70) return COLORS.success;
+  if (score >= 40) return COLORS.warning;
+  return COLORS.accent;
+}
+
+function frame(width: number, height: number, body: string[]): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${CANVAS_WIDTH} ${num(height * (CANVAS_WIDTH / width))}" font-family="${FONT_FAMILY}">`,
+    '<defs><linearGradient id="accentGradient" x1="0" y1="0" x2="1" y2="1">',
+    `<stop offset="0" stop-color="${COLORS.primary}"/><stop offset="1" stop-color="${COLORS.accent}"/>`,
+    '</linearGradient></defs>',
+    `<rect width="100%" height="100%" fill="${COLORS.background}"/>`,
+    ...body,
+    '</svg>',
+  ].join('');
+}
+
+function canvasHeight(size: ShareCardSize): number {
+  const { width, height } = SHARE_CARD.SIZES[size];
+  return height * (CANVAS_WIDTH / width);
+}
+
+function brand(canvasH: number): string {
+  return text(CANVAS_WIDTH - PADDING, canvasH - 20, 'antidote', { size: 18, color: COLORS.muted, weight: 700, anchor: 'end', spacing: 2 });
+}
+
+/**
+ * Info column of an analysis card: cover, name, personality, health and top genres
+ * Returns the SVG and the height it occupies (about 450 units)
+ */
+function analysisInfo(data: AnalysisCardData, x: number, top: number, width: number): string {
+  const parts: string[] = [];
+  const coverSize = 110;
+  parts.push(cover('cover', x, top, coverSize, data.coverImage, data.playlistName));
+  parts.push(text(x + coverSize + 24, top + 48, fitText(data.playlistName, 34, width - coverSize - 24), { size: 34, weight: 700 }));
+  if (data.owner) {
+    parts.push(text(x + coverSize + 24, top + 82, fitText(`by ${data.owner}`, 20, width - coverSize - 24), { size: 20, color: COLORS.muted }));
+  }
+
+  let y = top + coverSize + 44;
+  parts.push(label(x, y, 'Listening personality'));
+  parts.push(text(x, y + 40, fitText(data.personalityType || 'Unknown', 36, width), { size: 36, weight: 700, color: COLORS.secondary }));
+
+  y += 84;
+  parts.push(label(x, y, 'Playlist health'));
+  if (data.healthScore !== null) {
+    const score = Math.round(clamp(data.healthScore, 0, 100));
+    parts.push(text(x, y + 48, String(score), { size: 48, weight: 800, color: healthColor(score) }));
+    const scoreWidth = String(score).length * 48 * 0.6;
+    const status = data.healthStatus ? `/100 · ${data.healthStatus}` : '/100';
+    parts.push(text(x + scoreWidth + 10, y + 48, fitText(status, 22, width - scoreWidth - 10), { size: 22, color: COLORS.muted }));
+  } else {
+    parts.push(text(x, y + 48, 'Not scored', { size: 28, color: COLORS.muted }));
+  }
+
+  y += 84;
+  const genres = data.topGenres.slice(0, SHARE_CARD.MAX_GENRES);
+  if (genres.length > 0) {
+    parts.push(label(x, y, 'Top genres'));
+    const nameWidth = width * 0.45;
+    const barWidth = width - nameWidth - 60;
+    const maxValue = Math.max(...genres.map(g => g.value), 1);
+    genres.forEach((genre, index) => {
+      const rowY = y + 30 + index * 26;
+      parts.push(text(x, rowY, fitText(genre.name, 17, nameWidth - 10), { size: 17 }));
+      const filled = Math.max(4, (clamp(genre.value, 0, 100) / maxValue) * barWidth);
+      parts.push(`<rect x="${num(x + nameWidth)}" y="${num(rowY - 13)}" width="${num(barWidth)}" height="14" rx="7" fill="${COLORS.card}"/>`);
+      parts.push(`<rect x="${num(x + nameWidth)}" y="${num(rowY - 13)}" width="${num(filled)}" height="14" rx="7" fill="url(#accentGradient)"/>`);
+      parts.push(text(x + width, rowY, `${Math.round(genre.value)}%`, { size: 15, color: COLORS.muted, anchor: 'end' }));
+    });
+  }
+
+  return parts.join('');
+}
+
+const ANALYSIS_INFO_HEIGHT = 450;
+
+/**
+ * Analysis card: Audio DNA radar, personality type, health score, top genres and cover art
+ * Landscape and square cards put the radar beside the details; story cards stack them
+ */
+export function renderAnalysisCard(data: AnalysisCardData, size: ShareCardSize): string {
+  const { width, height } = SHARE_CARD.SIZES[size];
+  const canvasH = canvasHeight(size);
+  const body: string[] = [];
+  const stacked = canvasH > CANVAS_WIDTH * 1.2;
+
+  if (stacked) {
+    const top = Math.max(PADDING, (canvasH - ANALYSIS_INFO_HEIGHT - 760) / 2);
+    body.push(analysisInfo(data, PADDING * 2, top, CANVAS_WIDTH - PADDING * 4));
+    if (data.audioDna) {
+      body.push(radar(CANVAS_WIDTH / 2, top + ANALYSIS_INFO_HEIGHT + 380, 280, [{ dna: data.audioDna, color: COLORS.primary }]));
+    }
+  } else {
+    const top = Math.max(PADDING, (canvasH - ANALYSIS_INFO_HEIGHT) / 2);
+    body.push(analysisInfo(data, PADDING, top, 520));
+    if (data.audioDna) {
+      const radius = Math.min(165, (canvasH - PADDING * 2) / 2 - 45);
+      body.push(radar(770, canvasH / 2, radius, [{ dna: data.audioDna, color: COLORS.primary }]));
+    }
+  }
+
+  body.push(brand(canvasH));
+  return frame(width, height, body);
+}
+
+/**
+ * One battle contestant: cover, name, owner and score, centred on `cx`
+ */
+function battleSide(id: string, side: BattleCardSide, cx: number, top: number, color: string, isWinner: boolean): string {
+  const parts: string[] = [];
+  const coverSize = 120;
+  parts.push(cover(id, cx - coverSize / 2, top, coverSize, side.coverImage, side.name));
+  parts.push(`<rect x="${num(cx - coverSize / 2 - 5)}" y="${num(top - 5)}" width="${num(coverSize + 10)}" height="${num(coverSize + 10)}" rx="15" fill="none" stroke="${color}" stroke-width="4"/>`);
+  parts.push(text(cx, top + coverSize + 40, fitText(side.name, 26, 290), { size: 26, weight: 700, anchor: 'middle' }));
+  if (side.owner) {
+    parts.push(text(cx, top + coverSize + 68, fitText(`by ${side.owner}`, 18, 290), { size: 18, color: COLORS.muted, anchor: 'middle' }));
+  }
+  const score = side.score === null ? '–' : String(Math.round(side.score));
+  parts.push(text(cx, top + coverSize + 130, score, { size: 52, weight: 800, color, anchor: 'middle' }));
+  if (isWinner) {
+    parts.push(text(cx, top + coverSize + 162, 'WINNER', { size: 16, weight: 700, color: COLORS.warning, anchor: 'middle', spacing: 3 }));
+  }
+  return parts.join('');
+}
+
+const BATTLE_SIDES_HEIGHT = 300;
+
+/**
+ * Battle card: both playlists with scores, overlaid Audio DNA radars,
+ * compatibility and shared artists/genres
+ */
+export function renderBattleCard(data: BattleCardData, size: ShareCardSize): string {
+  const { width, height } = SHARE_CARD.SIZES[size];
+  const canvasH = canvasHeight(size);
+  const body: string[] = [];
+  const stacked = canvasH > CANVAS_WIDTH * 1.2;
+
+  const profiles: { dna: CardAudioDna; color: string }[] = [];
+  if (data.playlist1.audioDna) profiles.push({ dna: data.playlist1.audioDna, color: COLORS.primary });
+  if (data.playlist2.audioDna) profiles.push({ dna: data.playlist2.audioDna, color: COLORS.secondary });
+
+  const sharedParts = [
+    `${data.sharedArtistCount} shared artist${data.sharedArtistCount === 1 ? '' : 's'}`,
+    data.sharedGenres.length > 0 ? `Shared genres: ${data.sharedGenres.slice(0, 3).join(', ')}` : null,
+  ].filter((part): part is string => part !== null);
+  const compatibility = data.compatibilityScore === null ? null : `${Math.round(data.compatibilityScore)}% compatible`;
+
+  const contentHeight = stacked ? BATTLE_SIDES_HEIGHT + 700 : BATTLE_SIDES_HEIGHT + 120;
+  const top = Math.max(PADDING, (canvasH - contentHeight) / 2);
+
+  body.push(label(CANVAS_WIDTH / 2, top + 8, 'Playlist battle', 'middle'));
+  const sideTop = top + 40;
+  const sideX = stacked ? [CANVAS_WIDTH * 0.27, CANVAS_WIDTH * 0.73] : [190, CANVAS_WIDTH - 190];
+  body.push(battleSide('cover1', data.playlist1, sideX[0], sideTop, COLORS.primary, data.winner === 'playlist1'));
+  body.push(battleSide('cover2', data.playlist2, sideX[1], sideTop, COLORS.secondary, data.winner === 'playlist2'));
+
+  if (stacked) {
+    body.push(text(CANVAS_WIDTH / 2, sideTop + 75, 'VS', { size: 40, weight: 800, color: COLORS.accent, anchor: 'middle' }));
+    const radarCy = sideTop + BATTLE_SIDES_HEIGHT + 340;
+    if (profiles.length > 0) body.push(radar(CANVAS_WIDTH / 2, radarCy, 260, profiles));
+    const footerY = radarCy + 360;
+    if (compatibility) body.push(text(CANVAS_WIDTH / 2, footerY, compatibility, { size: 36, weight: 700, anchor: 'middle' }));
+    sharedParts.forEach((part, index) => {
+      body.push(text(CANVAS_WIDTH / 2, footerY + 44 + index * 30, fitText(part, 20, CANVAS_WIDTH - PADDING * 4), { size: 20, color: COLORS.muted, anchor: 'middle' }));
+    });
+  } else {
+    const radarCy = sideTop + 150;
+    if (profiles.length > 0) body.push(radar(CANVAS_WIDTH / 2, radarCy, 120, profiles));
+    const footerY = Math.max(sideTop + BATTLE_SIDES_HEIGHT + 40, radarCy + 190);
+    if (compatibility) body.push(text(CANVAS_WIDTH / 2, footerY, compatibility, { size: 28, weight: 700, anchor: 'middle' }));
+    body.push(text(CANVAS_WIDTH / 2, footerY + 34, fitText(sharedParts.join(' · '), 18, CANVAS_WIDTH - PADDING * 2), { size: 18, color: COLORS.muted, anchor: 'middle' }));
+  }
+
+  body.push(brand(canvasH));
+  return frame(width, height, body);
+}
+
+/**
+ * Rasterize a card to PNG at its own pixel size
+ * System fonts are used for text, so glyphs can differ between hosts but not between renders
+ */
+export function rasterizeCard(svg: string): Buffer {
+  const resvg = new Resvg(svg, {
+    font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' },
+    imageRendering: 0,
+    shapeRendering: 2,
+    textRendering: 1,
+  });
+  return resvg.render().asPng();
+}
+
+/**
+ * Validate a `size` query value, falling back to SHARE_CARD.DEFAULT_SIZE
+ * Only own keys count, so prototype names like "toString" are rejected
+ * (Object.hasOwn needs ES2022)
+ */
+export function parseCardSize(value: unknown): ShareCardSize | null {
+  if (value === undefined || value === '') return SHARE_CARD.DEFAULT_SIZE;
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SHARE_CARD.SIZES, value)
+    ? (value as ShareCardSize)
+    : null;
+}
+
+/**
+ * Validate a `format` query value (svg or png, default png)
+ */
+export function parseCardFormat(value: unknown): ShareCardFormat | null {
+  if (value === undefined || value === '') return 'png';
+  return value === 'svg' || value === 'png' ? value : null;
+}
@@ -0,0 +1,144 @@
+// Share links
+// Revocable public tokens for analyses and battles, and the sanitized payloads
+// served to anyone holding a token (no user or database IDs leave the backend)
+
+import { randomBytes } from 'crypto';
+import { SHARE_LINKS } from '../constants/analysis';
+
+export type ShareResourceType = 'analysis' | 'battle';
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLinkRow {
+  token: string;
+  user_id: string;
+  resource_type: ShareResourceType;
+  analysis_id: string | null;
+  battle_id: string | null;
+  view_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export const SHARE_RESOURCE_TYPES: ShareResourceType[] = ['analysis', 'battle'];
+
+// Fields of a battle's playlist1_data / playlist2_data that may be shared
+const SHARED_BATTLE_SIDE_FIELDS = ['name', 'owner', 'image', 'score', 'tracks', 'scoreBreakdown', 'diversity', 'obscurity', 'genres'];
+
+/**
+ * Random URL-safe token (SHARE_LINKS.TOKEN_BYTES of entropy)
+ */
+export function generateShareToken(): string {
+  return randomBytes(SHARE_LINKS.TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Whether a string has the shape of a generated token (checked before any lookup)
+ */
+export function isShareToken(value: string): boolean {
+  return /^[A-Za-z0-9_-]{16,64}$/.test(value);
+}
+
+export function shareLinkStatus(link: Pick<ShareLinkRow, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+/**
+ * Expiry timestamp from an `expires_in_days` request value
+ * undefined/null = never expires; returns an error message for invalid values
+ */
+export function parseShareExpiry(
+  expiresInDays: unknown,
+  now: Date = new Date()
+): { expiresAt: string | null } | { error: string } {
+  if (expiresInDays === undefined || expiresInDays === null) return { expiresAt: null };
+
+  const days = Number(expiresInDays);
+  if (!Number.isFinite(days) || days <= 0 || days > SHARE_LINKS.MAX_EXPIRY_DAYS) {
+    return { error: `expires_in_days must be a positive number no greater than ${SHARE_LINKS.MAX_EXPIRY_DAYS}` };
+  }
+  return { expiresAt: new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString() };
+}
+
+/**
+ * Owner-facing view of a link
+ */
+export function formatShareLink(link: ShareLinkRow, now: Date = new Date()) {
+  return {
+    token: link.token,
+    type: link.resource_type,
+    resourceId: link.resource_type === 'analysis' ? link.analysis_id : link.battle_id,
+    url: `/api/shared/${link.token}`,
+    cardUrl: `/api/shared/${link.token}/card`,
+    status: shareLinkStatus(link, now),
+    viewCount: link.view_count,
+    expiresAt: link.expires_at,
+    revokedAt: link.revoked_at,
+    lastViewedAt: link.last_viewed_at,
+    createdAt: link.created_at,
+  };
+}
+
+/**
+ * Public view of an analysis row (with its playlist row attached as `playlist`)
+ */
+export function sanitizeSharedAnalysis(row: any) {
+  const playlist = row.playlist;
+  return {
+    playlist: {
+      name: playlist?.name || 'Untitled playlist',
+      owner: playlist?.owner || null,
+      coverUrl: playlist?.cover_url || null,
+      url: playlist?.url || null,
+      trackCount: playlist?.track_count ?? null,
+      sourceType: playlist?.source_type || 'playlist',
+    },
+    personalityType: row.personality_type,
+    personalityDescription: row.personality_description,
+    healthScore: row.health_score,
+    healthStatus: row.health_status,
+    overallRating: row.overall_rating,
+    ratingDescription: row.rating_description,
+    scoringVersion: row.scoring_version,
+    audioDna: row.audio_dna,
+    genreDistribution: row.genre_distribution || [],
+    subgenres: row.subgenres || [],
+    topTracks: row.top_tracks || [],
+    eraBreakdown: row.era_breakdown || null,
+    createdAt: row.created_at,
+  };
+}
+
+function sanitizeBattleSide(data: any) {
+  const side: Record<string, unknown> = {};
+  SHARED_BATTLE_SIDE_FIELDS.forEach(field => {
+    if (data?.[field] !== undefined) side[field] = data[field];
+  });
+  return side;
+}
+
+/**
+ * Public view of a battle row
+ * audio_data holds one entry per playlist plus the category rounds ({ kind: 'rounds' })
+ */
+export function sanitizeSharedBattle(row: any) {
+  const audioData: any[] = Array.isArray(row.audio_data) ? row.audio_data : [];
+  const { kind, ...rounds } = audioData.find(entry => entry?.kind === 'rounds') || {};
+  return {
+    compatibilityScore: row.compatibility_score,
+    compatibilityBreakdown: row.compatibility_breakdown || null,
+    winner: row.winner,
+    winnerReason: row.winner_reason,
+    playlist1: sanitizeBattleSide(row.playlist1_data),
+    playlist2: sanitizeBattleSide(row.playlist2_data),
+    sharedArtists: row.shared_artists || [],
+    sharedGenres: row.shared_genres || [],
+    sharedTracks: row.shared_tracks || [],
+    audioData: audioData.filter(entry => entry?.kind !== 'rounds'),
+    rounds: kind ? rounds : null,
+    createdAt: row.created_at,
+  };
+}
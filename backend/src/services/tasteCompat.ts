@@ -0,0 +1,233 @@
+// Taste compatibility
+// Compares two users' Spotify top tracks and artists across time ranges: a 0-100 score
+// from genre, artist and track overlap, what they share and where they differ most.
+// Works on snapshots captured when each user consented, never on live tokens of others
+
+import { TASTE_COMPAT } from '../constants/analysis';
+import { GenreOverlap, genreOverlap, normalizeWeights } from './battle';
+import { summarizeGenres, weightedGenreTotals } from './genreTaxonomy';
+
+export const TASTE_TIME_RANGES = ['short_term', 'medium_term', 'long_term'] as const;
+
+export type TasteTimeRange = typeof TASTE_TIME_RANGES[number];
+
+export interface TasteTrack {
+  id: string;
+  name: string;
+  artists: string[];
+}
+
+export interface TasteArtist {
+  id: string;
+  name: string;
+  genres: string[];
+}
+
+export interface TasteSnapshot {
+  tracks: Record<TasteTimeRange, TasteTrack[]>; // Most listened first
+  artists: Record<TasteTimeRange, TasteArtist[]>;
+}
+
+export interface GenreDifference {
+  name: string; // Parent genre, e.g. "Indie Rock"
+  user: number; // % of the user's genre weight
+  other: number;
+  difference: number; // user - other, in percentage points
+}
+
+export interface TasteCompatibility {
+  score: number; // 0-100
+  components: { genres: number | null; artists: number; tracks: number }; // 0-100 each
+  timeRanges: Record<TasteTimeRange, number | null>; // Score per range, null without data on a side
+  shared: {
+    artists: { id: string; name: string }[];
+    tracks: TasteTrack[];
+    genres: string[];
+  };
+  differences: {
+    genres: GenreDifference[];
+    userOnlyArtists: string[]; // The user's favourites the other user doesn't listen to
+    otherOnlyArtists: string[];
+  };
+}
+
+interface RangeScore {
+  score: number;
+  components: TasteCompatibility['components'];
+  genres: GenreOverlap | null;
+}
+
+const round = (value: number, digits: number = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Earlier ranks count more: the top item weighs 1, the last one 1/n
+const rankWeight = (index: number, count: number) => (count - index) / count;
+
+/**
+ * Snapshot from Spotify top tracks/artists responses (items per time range)
+ * Tracks and artists without an ID (local files) are left out
+ */
+export function buildTasteSnapshot(
+  topTracks: Record<TasteTimeRange, any[]>,
+  topArtists: Record<TasteTimeRange, any[]>
+): TasteSnapshot {
+  const tracks = {} as TasteSnapshot['tracks'];
+  const artists = {} as TasteSnapshot['artists'];
+  TASTE_TIME_RANGES.forEach(range => {
+    tracks[range] = (topTracks[range] || [])
+      .filter((t: any) => t?.id)
+      .map((t: any) => ({ id: t.id, name: t.name, artists: (t.artists || []).map((a: any) => a.name) }));
+    artists[range] = (topArtists[range] || [])
+      .filter((a: any) => a?.id)
+      .map((a: any) => ({ id: a.id, name: a.name, genres: Array.isArray(a.genres) ? a.genres : [] }));
+  });
+  return { tracks, artists };
+}
+
+/**
+ * Whether Spotify returned no top tracks or artists at all (e.g. a brand new account)
+ */
+export function isEmptyTasteSnapshot(snapshot: TasteSnapshot): boolean {
+  return TASTE_TIME_RANGES.every(range =>
+    (snapshot.tracks[range] || []).length === 0 && (snapshot.artists[range] || []).length === 0);
+}
+
+// Weight per item ID over the given ranges (TASTE_COMPAT.RANGE_WEIGHTS x rank weight)
+function rankedWeights<T extends { id: string }>(
+  lists: Record<TasteTimeRange, T[]>,
+  ranges: readonly TasteTimeRange[]
+): Map<string, number> {
+  const weights = new Map<string, number>();
+  ranges.forEach(range => {
+    const items = lists[range] || [];
+    items.forEach((item, index) => {
+      const weight = TASTE_COMPAT.RANGE_WEIGHTS[range] * rankWeight(index, items.length);
+      weights.set(item.id, (weights.get(item.id) || 0) + weight);
+    });
+  });
+  return weights;
+}
+
+function genreTotals(snapshot: TasteSnapshot, ranges: readonly TasteTimeRange[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  ranges.forEach(range => {
+    const artists = snapshot.artists[range] || [];
+    artists.forEach((artist, index) => {
+      weightedGenreTotals([artist.genres], TASTE_COMPAT.RANGE_WEIGHTS[range] * rankWeight(index, artists.length), totals);
+    });
+  });
+  return totals;
+}
+
+// Sum over shared keys of the smaller share (0-1)
+function sharedShare(weights1: Map<string, number>, weights2: Map<string, number>): number {
+  const shares1 = normalizeWeights(weights1);
+  const shares2 = normalizeWeights(weights2);
+  let shared = 0;
+  shares1.forEach((share, key) => {
+    shared += Math.min(share, shares2.get(key) || 0);
+  });
+  return shared;
+}
+
+// Items shared by both users, largest combined weight first
+function sharedItems<T extends { id: string }>(items: Map<string, T>, weights1: Map<string, number>, weights2: Map<string, number>): T[] {
+  const sharedWeight = (id: string) => Math.min(weights1.get(id) || 0, weights2.get(id) || 0);
+  return Array.from(weights1.keys())
+    .filter(id => weights2.has(id) && items.has(id))
+    .sort((a, b) => sharedWeight(b) - sharedWeight(a))
+    .slice(0, TASTE_COMPAT.MAX_LISTED_ITEMS)
+    .map(id => items.get(id)!);
+}
+
+/**
+ * Compatibility over the given time ranges, null when either user has no top items there
+ * Artist and track overlap use the square root of the shared share, so a handful of
+ * shared favourites already counts; genres use the battle genre similarity
+ */
+function scoreRanges(user: TasteSnapshot, other: TasteSnapshot, ranges: readonly TasteTimeRange[]): RangeScore | null {
+  const hasItems = (snapshot: TasteSnapshot) =>
+    ranges.some(range => (snapshot.artists[range] || []).length > 0 || (snapshot.tracks[range] || []).length > 0);
+  if (!hasItems(user) || !hasItems(other)) return null;
+
+  const genres = genreOverlap(genreTotals(user, ranges), genreTotals(other, ranges));
+  const artists = Math.sqrt(sharedShare(rankedWeights(user.artists, ranges), rankedWeights(other.artists, ranges))) * 100;
+  const tracks = Math.sqrt(sharedShare(rankedWeights(user.tracks, ranges), rankedWeights(other.tracks, ranges))) * 100;
+
+  const { GENRES, ARTISTS, TRACKS } = TASTE_COMPAT.WEIGHTS;
+  const score = genres === null
+    ? (artists * ARTISTS + tracks * TRACKS) / (ARTISTS + TRACKS)
+    : genres.similarity * GENRES + artists * ARTISTS + tracks * TRACKS;
+
+  return {
+    score: Math.round(score),
+    components: { genres: genres ? genres.similarity : null, artists: Math.round(artists), tracks: Math.round(tracks) },
+    genres,
+  };
+}
+
+/**
+ * Parent genres whose share differs most between the users (at least MIN_GENRE_DIFFERENCE points)
+ */
+function genreDifferences(userTotals: Map<string, number>, otherTotals: Map<string, number>): GenreDifference[] {
+  const userShares = new Map(summarizeGenres(userTotals).parents.map(p => [p.name, p.value]));
+  const otherShares = new Map(summarizeGenres(otherTotals).parents.map(p => [p.name, p.value]));
+  if (userShares.size === 0 || otherShares.size === 0) return [];
+
+  return Array.from(new Set([...userShares.keys(), ...otherShares.keys()]))
+    .map(name => {
+      const user = userShares.get(name) || 0;
+      const other = otherShares.get(name) || 0;
+      return { name, user, other, difference: round(user - other) };
+    })
+    .filter(d => Math.abs(d.difference) >= TASTE_COMPAT.MIN_GENRE_DIFFERENCE)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference) || a.name.localeCompare(b.name))
+    .slice(0, TASTE_COMPAT.MAX_GENRE_DIFFERENCES);
+}
+
+// Names of the user's most weighted artists that never appear in the other's top artists
+function onlyArtists(user: TasteSnapshot, other: TasteSnapshot): string[] {
+  const userWeights = rankedWeights(user.artists, TASTE_TIME_RANGES);
+  const otherIds = new Set(TASTE_TIME_RANGES.flatMap(range => (other.artists[range] || []).map(a => a.id)));
+  const names = new Map(TASTE_TIME_RANGES.flatMap(range => (user.artists[range] || []).map(a => [a.id, a.name] as const)));
+  return Array.from(userWeights.entries())
+    .filter(([id]) => !otherIds.has(id))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TASTE_COMPAT.MAX_LISTED_ITEMS)
+    .map(([id]) => names.get(id)!);
+}
+
+/**
+ * Compare two users' taste snapshots (`user` is the one asking)
+ */
+export function compareTastes(user: TasteSnapshot, other: TasteSnapshot): TasteCompatibility {
+  const overall = scoreRanges(user, other, TASTE_TIME_RANGES);
+
+  const timeRanges = {} as TasteCompatibility['timeRanges'];
+  TASTE_TIME_RANGES.forEach(range => {
+    timeRanges[range] = scoreRanges(user, other, [range])?.score ?? null;
+  });
+
+  const artistsById = new Map<string, { id: string; name: string }>();
+  const tracksById = new Map<string, TasteTrack>();
+  TASTE_TIME_RANGES.forEach(range => {
+    (user.artists[range] || []).forEach(a => artistsById.set(a.id, { id: a.id, name: a.name }));
+    (user.tracks[range] || []).forEach(t => tracksById.set(t.id, t));
+  });
+
+  return {
+    score: overall?.score ?? 0,
+    components: overall?.components ?? { genres: null, artists: 0, tracks: 0 },
+    timeRanges,
+    shared: {
+      artists: sharedItems(artistsById, rankedWeights(user.artists, TASTE_TIME_RANGES), rankedWeights(other.artists, TASTE_TIME_RANGES)),
+      tracks: sharedItems(tracksById, rankedWeights(user.tracks, TASTE_TIME_RANGES), rankedWeights(other.tracks, TASTE_TIME_RANGES)),
+      genres: overall?.genres?.sharedGenres ?? [],
+    },
+    differences: {
+      genres: genreDifferences(genreTotals(user, TASTE_TIME_RANGES), genreTotals(other, TASTE_TIME_RANGES)),
+      userOnlyArtists: onlyArtists(user, other),
+      otherOnlyArtists: onlyArtists(other, user),
+    },
+  };
+}
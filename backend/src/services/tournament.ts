@@ -0,0 +1,270 @@
+// Playlist tournaments
+// Seeded single-elimination brackets and round-robin schedules for 4-16 playlists.
+// Matchups are decided by a judge callback (the battle comparison); this module
+// handles seeding, byes, tie-breaks and the final ranking
+
+import { TOURNAMENTS } from '../constants/analysis';
+
+export type TournamentFormat = 'elimination' | 'round_robin';
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ['elimination', 'round_robin'];
+
+export interface TournamentEntrant {
+  seed: number; // 1 = highest health score
+  name: string;
+  score: number;
+}
+
+export interface MatchVerdict {
+  winner: 'a' | 'b' | 'tie';
+  compatibilityScore: number;
+  reason: string;
+}
+
+// Decides the matchup between two seeds
+export type MatchJudge = (seedA: number, seedB: number) => MatchVerdict;
+
+export interface TournamentMatch {
+  round: number;
+  match: number;
+  seedA: number;
+  seedB: number | null; // null = bye, seedA advances
+  winnerSeed: number | null; // null = tie (round robin only)
+  compatibilityScore: number | null;
+  reason: string;
+  tieBreak: boolean; // Elimination tie decided by seed
+}
+
+export interface TournamentRound {
+  round: number;
+  name: string;
+  matches: TournamentMatch[];
+}
+
+export interface TournamentStanding {
+  rank: number;
+  seed: number;
+  name: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  points: number; // Round robin only (0 in elimination)
+  reason: string;
+}
+
+export interface TournamentResult {
+  format: TournamentFormat;
+  rounds: TournamentRound[];
+  standings: TournamentStanding[];
+  championSeed: number;
+}
+
+interface EntrantRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  points: number;
+  differential: number; // Sum of health score margins
+}
+
+/**
+ * Entrant indices in seed order: highest score first, input order on equal scores
+ */
+export function seedByScore(scores: number[]): number[] {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.index);
+}
+
+/**
+ * Standard bracket order for a power-of-two size, so the top seeds meet last
+ * e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, next - seed]);
+  }
+  return order;
+}
+
+function eliminationRoundName(entrantsLeft: number): string {
+  if (entrantsLeft === 2) return 'Final';
+  if (entrantsLeft === 4) return 'Semifinals';
+  if (entrantsLeft === 8) return 'Quarterfinals';
+  return `Round of ${entrantsLeft}`;
+}
+
+function emptyRecords(entrants: TournamentEntrant[]): Map<number, EntrantRecord> {
+  return new Map(entrants.map(e => [e.seed, { wins: 0, losses: 0, ties: 0, points: 0, differential: 0 }]));
+}
+
+function recordMatch(records: Map<number, EntrantRecord>, entrants: Map<number, TournamentEntrant>, match: TournamentMatch) {
+  if (match.seedB === null) return;
+  const a = records.get(match.seedA)!;
+  const b = records.get(match.seedB)!;
+  const margin = entrants.get(match.seedA)!.score - entrants.get(match.seedB)!.score;
+  a.differential += margin;
+  b.differential -= margin;
+
+  if (match.winnerSeed === null) {
+    a.ties++;
+    b.ties++;
+    a.points += TOURNAMENTS.TIE_POINTS;
+    b.points += TOURNAMENTS.TIE_POINTS;
+    return;
+  }
+  const [winner, loser] = match.winnerSeed === match.seedA ? [a, b] : [b, a];
+  winner.wins++;
+  winner.points += TOURNAMENTS.WIN_POINTS;
+  loser.losses++;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : word.endsWith('s') ? 'es' : 's'}`;
+
+/**
+ * Seeded single elimination; byes go to the top seeds when the field is not a power of two
+ * A tied matchup sends the higher seed through
+ */
+export function runElimination(entrants: TournamentEntrant[], judge: MatchJudge): TournamentResult {
+  const bySeed = new Map(entrants.map(e => [e.seed, e]));
+  const records = emptyRecords(entrants);
+  const size = 2 ** Math.ceil(Math.log2(entrants.length));
+  const eliminated = new Map<number, { round: number; roundName: string; by: number }>();
+  const rounds: TournamentRound[] = [];
+
+  let alive: (number | null)[] = bracketOrder(size).map(seed => (seed <= entrants.length ? seed : null));
+  for (let round = 1; alive.length > 1; round++) {
+    const name = eliminationRoundName(alive.length);
+    const matches: TournamentMatch[] = [];
+    const advancing: (number | null)[] = [];
+
+    for (let i = 0; i < alive.length; i += 2) {
+      const [first, second] = [alive[i], alive[i + 1]];
+      const seedA = first !== null && (second === null || first < second) ? first : second!;
+      const seedB = seedA === first ? second : first;
+      let match: TournamentMatch;
+
+      if (seedB === null) {
+        match = {
+          round, match: matches.length + 1, seedA, seedB: null, winnerSeed: seedA,
+          compatibilityScore: null, reason: `${bySeed.get(seedA)!.name} advances with a bye`, tieBreak: false,
+        };
+      } else {
+        const verdict = judge(seedA, seedB);
+        const tieBreak = verdict.winner === 'tie';
+        const winnerSeed = verdict.winner === 'b' ? seedB : seedA;
+        match = {
+          round, match: matches.length + 1, seedA, seedB, winnerSeed,
+          compatibilityScore: verdict.compatibilityScore,
+          reason: tieBreak ? `${verdict.reason}; ${bySeed.get(seedA)!.name} advances as the higher seed` : verdict.reason,
+          tieBreak,
+        };
+        const loserSeed = winnerSeed === seedA ? seedB : seedA;
+        eliminated.set(loserSeed, { round, roundName: name, by: winnerSeed });
+        // Elimination ties still count as a win for the seed that advances
+        recordMatch(records, bySeed, { ...match, winnerSeed });
+      }
+
+      matches.push(match);
+      advancing.push(match.winnerSeed);
+    }
+
+    rounds.push({ round, name, matches });
+    alive = advancing;
+  }
+
+  const championSeed = alive[0]!;
+  const order = entrants
+    .map(e => e.seed)
+    .sort((a, b) => {
+      const roundA = a === championSeed ? Infinity : eliminated.get(a)!.round;
+      const roundB = b === championSeed ? Infinity : eliminated.get(b)!.round;
+      return roundB - roundA || a - b;
+    });
+
+  const standings = order.map((seed, index): TournamentStanding => {
+    const entrant = bySeed.get(seed)!;
+    const record = records.get(seed)!;
+    const exit = eliminated.get(seed);
+    const reason = exit
+      ? exit.roundName === 'Final'
+        ? `Lost the final to ${bySeed.get(exit.by)!.name}`
+        : `Lost in the ${exit.roundName.toLowerCase()} to ${bySeed.get(exit.by)!.name}`
+      : `Won the tournament with ${plural(record.wins, 'win')}`;
+    return { rank: index + 1, seed, name: entrant.name, wins: record.wins, losses: record.losses, ties: record.ties, points: 0, reason };
+  });
+
+  return { format: 'elimination', rounds, standings, championSeed };
+}
+
+/**
+ * Every entrant meets every other once (circle method, one bye per round for odd fields)
+ * Ranked by points, then wins, then total health score margin, then seed
+ */
+export function runRoundRobin(entrants: TournamentEntrant[], judge: MatchJudge): TournamentResult {
+  const bySeed = new Map(entrants.map(e => [e.seed, e]));
+  const records = emptyRecords(entrants);
+  const rounds: TournamentRound[] = [];
+
+  const circle: (number | null)[] = entrants.map(e => e.seed).sort((a, b) => a - b);
+  if (circle.length % 2 === 1) circle.push(null);
+
+  for (let round = 1; round < circle.length; round++) {
+    const matches: TournamentMatch[] = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const [first, second] = [circle[i], circle[circle.length - 1 - i]];
+      if (first === null || second === null) continue;
+
+      const [seedA, seedB] = first < second ? [first, second] : [second, first];
+      const verdict = judge(seedA, seedB);
+      const match: TournamentMatch = {
+        round,
+        match: matches.length + 1,
+        seedA,
+        seedB,
+        winnerSeed: verdict.winner === 'tie' ? null : verdict.winner === 'a' ? seedA : seedB,
+        compatibilityScore: verdict.compatibilityScore,
+        reason: verdict.reason,
+        tieBreak: false,
+      };
+      recordMatch(records, bySeed, match);
+      matches.push(match);
+    }
+    rounds.push({ round, name: `Round ${round}`, matches });
+
+    // Keep the first position fixed and rotate the rest clockwise
+    circle.splice(1, 0, circle.pop()!);
+  }
+
+  const order = entrants
+    .map(e => e.seed)
+    .sort((a, b) => {
+      const ra = records.get(a)!;
+      const rb = records.get(b)!;
+      return rb.points - ra.points || rb.wins - ra.wins || rb.differential - ra.differential || a - b;
+    });
+
+  const standings = order.map((seed, index): TournamentStanding => {
+    const record = records.get(seed)!;
+    const summary = `${plural(record.wins, 'win')}, ${plural(record.ties, 'tie')}, ${plural(record.losses, 'loss')} (${plural(record.points, 'point')})`;
+    const previous = index > 0 ? records.get(order[index - 1])! : null;
+    const tiebreak = previous && previous.points === record.points
+      ? `; behind ${bySeed.get(order[index - 1])!.name} on ${previous.wins !== record.wins ? 'wins' : previous.differential !== record.differential ? 'score margin' : 'seed'}`
+      : '';
+    return {
+      rank: index + 1,
+      seed,
+      name: bySeed.get(seed)!.name,
+      wins: record.wins,
+      losses: record.losses,
+      ties: record.ties,
+      points: record.points,
+      reason: index === 0 ? `Won the round robin with ${summary}` : `${summary}${tiebreak}`,
+    };
+  });
+
+  return { format: 'round_robin', rounds, standings, championSeed: order[0] };
+}
@@ -0,0 +1,244 @@
+// Transition analysis
+// Camelot-wheel key compatibility, BPM jumps and energy jumps between
+// consecutive tracks, rolled up into a transition score and mixability rating
+
+import { TRANSITION_SCORING } from '../constants/analysis';
+
+export interface TransitionTrack {
+  id: string;
+  name: string;
+  artist: string;
+  features: { key?: number; mode?: number; tempo?: number; energy?: number } | null;
+}
+
+export type HarmonicRelation =
+  | 'same_key'
+  | 'adjacent'
+  | 'relative'
+  | 'energy_boost'
+  | 'clash'
+  | 'unknown';
+
+export interface TransitionScore {
+  score: number; // 0-100
+  harmonic: { from: string | null; to: string | null; relation: HarmonicRelation; compatibility: number | null };
+  bpmJump: number | null; // Percent, accounting for half/double time
+  energyJump: number | null; // Signed, -1 to 1
+  reasons: string[];
+}
+
+export interface Transition extends TransitionScore {
+  position: number; // Index of the first track of the pair
+  from: { id: string; name: string; artist: string };
+  to: { id: string; name: string; artist: string };
+}
+
+export interface TransitionReport {
+  transitionScore: number | null;
+  mixability: { rating: string; description: string };
+  pairCount: number;
+  harmonicMatchRate: number | null; // % of pairs that are harmonically compatible
+  averageBpmJump: number | null;
+  averageEnergyJump: number | null;
+  worstTransitions: Transition[];
+  transitions: Transition[];
+}
+
+const HARMONIC_COMPATIBILITY: Record<Exclude<HarmonicRelation, 'unknown'>, number> = {
+  same_key: 1.0,
+  adjacent: 0.9, // ±1 on the wheel
+  relative: 0.85, // Relative major/minor
+  energy_boost: 0.6, // ±2 on the wheel
+  clash: 0.2,
+};
+
+const round = (value: number, digits: number = 1) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Camelot notation for a Spotify pitch class (0 = C ... 11 = B) and mode (1 = major, 0 = minor)
+ * e.g. C major -> "8B", A minor -> "8A". Returns null when the key is unknown (-1)
+ */
+export function toCamelot(key: number | undefined, mode: number | undefined): string | null {
+  if (typeof key !== 'number' || key < 0 || key > 11 || (mode !== 0 && mode !== 1)) {
+    return null;
+  }
+  // Each step up the wheel is a fifth (7 semitones)
+  const number = mode === 1
+    ? ((key * 7 + 7) % 12) + 1
+    : ((key * 7 + 4) % 12) + 1;
+  return `${number}${mode === 1 ? 'B' : 'A'}`;
+}
+
+/**
+ * Relationship between two Camelot keys
+ */
+export function camelotRelation(from: string | null, to: string | null): HarmonicRelation {
+  if (!from || !to) return 'unknown';
+
+  const fromNumber = parseInt(from, 10);
+  const toNumber = parseInt(to, 10);
+  const sameLetter = from.slice(-1) === to.slice(-1);
+  // Distance around the 12-position wheel
+  const distance = Math.min(Math.abs(fromNumber - toNumber), 12 - Math.abs(fromNumber - toNumber));
+
+  if (sameLetter && distance === 0) return 'same_key';
+  if (sameLetter && distance === 1) return 'adjacent';
+  if (!sameLetter && distance === 0) return 'relative';
+  if (sameLetter && distance === 2) return 'energy_boost';
+  return 'clash';
+}
+
+/**
+ * Tempo difference in percent, treating half/double time as the same groove
+ */
+export function bpmJumpPercent(fromTempo: number, toTempo: number): number {
+  if (fromTempo <= 0 || toTempo <= 0) return 0;
+  const difference = Math.min(
+    Math.abs(fromTempo - toTempo),
+    Math.abs(fromTempo * 2 - toTempo),
+    Math.abs(fromTempo - toTempo * 2)
+  );
+  return (difference / fromTempo) * 100;
+}
+
+/**
+ * Score a single transition from one track's features to the next
+ */
+export function scoreTransition(
+  from: TransitionTrack['features'],
+  to: TransitionTrack['features']
+): TransitionScore {
+  const reasons: string[] = [];
+  const weights = TRANSITION_SCORING.WEIGHTS;
+
+  const fromKey = toCamelot(from?.key, from?.mode);
+  const toKey = toCamelot(to?.key, to?.mode);
+  const relation = camelotRelation(fromKey, toKey);
+  const compatibility = relation === 'unknown' ? null : HARMONIC_COMPATIBILITY[relation];
+  if (relation === 'clash') {
+    reasons.push(`Key clash (${fromKey} → ${toKey})`);
+  }
+
+  const bpmJump = typeof from?.tempo === 'number' && typeof to?.tempo === 'number'
+    ? bpmJumpPercent(from.tempo, to.tempo)
+    : null;
+  const tempoScore = bpmJump === null
+    ? null
+    : 1 - clamp01(
+      (bpmJump - TRANSITION_SCORING.BPM_JUMP_TOLERANCE_PERCENT) /
+      (TRANSITION_SCORING.BPM_JUMP_MAX_PERCENT - TRANSITION_SCORING.BPM_JUMP_TOLERANCE_PERCENT)
+    );
+  if (bpmJump !== null && bpmJump > TRANSITION_SCORING.BPM_JUMP_MAX_PERCENT / 2) {
+    reasons.push(`Tempo jump of ${Math.round(bpmJump)}% (${Math.round(from!.tempo!)} → ${Math.round(to!.tempo!)} BPM)`);
+  }
+
+  const energyJump = typeof from?.energy === 'number' && typeof to?.energy === 'number'
+    ? to.energy - from.energy
+    : null;
+  const energyScore = energyJump === null
+    ? null
+    : 1 - clamp01(
+      (Math.abs(energyJump) - TRANSITION_SCORING.ENERGY_JUMP_TOLERANCE) /
+      (TRANSITION_SCORING.ENERGY_JUMP_MAX - TRANSITION_SCORING.ENERGY_JUMP_TOLERANCE)
+    );
+  if (energyJump !== null && Math.abs(energyJump) > TRANSITION_SCORING.ENERGY_JUMP_MAX / 2) {
+    reasons.push(`Energy ${energyJump > 0 ? 'spike' : 'drop'} of ${Math.round(Math.abs(energyJump) * 100)} points`);
+  }
+
+  // Weighted average over the components that are known
+  const parts: [number | null, number][] = [
+    [compatibility, weights.HARMONIC],
+    [tempoScore, weights.TEMPO],
+    [energyScore, weights.ENERGY],
+  ];
+  const known = parts.filter((part): part is [number, number] => part[0] !== null);
+  const totalWeight = known.reduce((sum, [, weight]) => sum + weight, 0);
+  const score = totalWeight > 0
+    ? known.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight * 100
+    : 0;
+
+  return {
+    score: Math.round(score),
+    harmonic: { from: fromKey, to: toKey, relation, compatibility },
+    bpmJump: bpmJump === null ? null : round(bpmJump),
+    energyJump: energyJump === null ? null : round(energyJump, 2),
+    reasons,
+  };
+}
+
+/**
+ * Overall mixability rating for an average transition score
+ */
+export function mixabilityRating(transitionScore: number | null): { rating: string; description: string } {
+  if (transitionScore === null) {
+    return { rating: 'Unknown', description: 'Not enough audio data to judge transitions.' };
+  }
+  if (transitionScore >= 85) {
+    return { rating: 'Seamless', description: 'Plays like a continuous DJ mix.' };
+  }
+  if (transitionScore >= 70) {
+    return { rating: 'DJ-Friendly', description: 'Most tracks blend smoothly into the next.' };
+  }
+  if (transitionScore >= 55) {
+    return { rating: 'Mixable', description: 'Decent flow with a few rough hand-offs.' };
+  }
+  if (transitionScore >= 40) {
+    return { rating: 'Choppy', description: 'Frequent key or tempo jumps between tracks.' };
+  }
+  return { rating: 'Chaotic', description: 'Consecutive tracks rarely fit together.' };
+}
+
+/**
+ * Analyze every adjacent pair of tracks in playlist order
+ * Pairs where either track has no audio features are skipped
+ */
+export function analyzeTransitions(tracks: TransitionTrack[]): TransitionReport {
+  const summarize = (track: TransitionTrack) => ({ id: track.id, name: track.name, artist: track.artist });
+  const transitions: Transition[] = [];
+
+  for (let i = 0; i < tracks.length - 1; i++) {
+    const from = tracks[i];
+    const to = tracks[i + 1];
+    if (!from.features || !to.features) continue;
+
+    transitions.push({
+      position: i,
+      from: summarize(from),
+      to: summarize(to),
+      ...scoreTransition(from.features, to.features),
+    });
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+  const transitionScore = average(transitions.map(t => t.score));
+  const knownHarmonic = transitions.filter(t => t.harmonic.compatibility !== null);
+  const harmonicMatchRate = knownHarmonic.length > 0
+    ? (knownHarmonic.filter(t => t.harmonic.relation !== 'clash').length / knownHarmonic.length) * 100
+    : null;
+  const averageBpmJump = average(
+    transitions.map(t => t.bpmJump).filter((v): v is number => v !== null)
+  );
+  const averageEnergyJump = average(
+    transitions.map(t => t.energyJump).filter((v): v is number => v !== null).map(Math.abs)
+  );
+
+  const worstTransitions = [...transitions]
+    .sort((a, b) => a.score - b.score || a.position - b.position)
+    .slice(0, TRANSITION_SCORING.WORST_TRANSITIONS);
+
+  return {
+    transitionScore: transitionScore === null ? null : Math.round(transitionScore),
+    mixability: mixabilityRating(transitionScore === null ? null : Math.round(transitionScore)),
+    pairCount: transitions.length,
+    harmonicMatchRate: harmonicMatchRate === null ? null : round(harmonicMatchRate),
+    averageBpmJump: averageBpmJump === null ? null : round(averageBpmJump),
+    averageEnergyJump: averageEnergyJump === null ? null : round(averageEnergyJump, 2),
+    worstTransitions,
+    transitions,
+  };
+}
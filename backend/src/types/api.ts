@@ -106,6 +106,7 @@ export const ErrorCodes = {
   TOKEN_INVALID: 'TOKEN_INVALID',
   TOKEN_REQUIRED: 'TOKEN_REQUIRED',
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
+  CONSENT_REQUIRED: 'CONSENT_REQUIRED',
   
   // Validation
   VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -116,6 +117,8 @@ export const ErrorCodes = {
   NOT_FOUND: 'NOT_FOUND',
   ALREADY_EXISTS: 'ALREADY_EXISTS',
   RESOURCE_DELETED: 'RESOURCE_DELETED',
+  LINK_EXPIRED: 'LINK_EXPIRED',
+  LINK_REVOKED: 'LINK_REVOKED',
   
   // External Services
   SPOTIFY_ERROR: 'SPOTIFY_ERROR',
@@ -126,6 +129,7 @@ export const ErrorCodes = {
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   TIMEOUT: 'TIMEOUT',
+  JOB_INTERRUPTED: 'JOB_INTERRUPTED',
   
   // Rate Limiting
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
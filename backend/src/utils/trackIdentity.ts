@@ -0,0 +1,113 @@
+// Track identity helpers
+// Normalizes titles and artist names so the same song can be matched across
+// different Spotify track IDs (single vs. album release, remasters, re-uploads)
+
+// Parenthetical / dash suffixes that describe a release rather than a different song
+const RELEASE_SUFFIX_PATTERN =
+  /\b(remaster(ed)?|(single|album|radio|original|extended|clean|explicit) version|radio edit|single edit|mono|stereo|deluxe|bonus track|original mix)\b/i;
+
+// Descriptors of an alternate performance of the same song (not stripped by normalizeTitle)
+const ALTERNATE_VERSION_PATTERN =
+  /\b(live|unplugged|acoustic( version)?|demo|session|rehearsal)\b/i;
+
+// Featured-artist credits are dropped so "Song (feat. X)" matches "Song"
+const BRACKETED_FEATURING_PATTERN = /\s*[([]\s*(feat\.?|ft\.?|featuring|with)\s+[^)\]]*[)\]]/gi;
+const TRAILING_FEATURING_PATTERN = /\s+(feat\.?|ft\.?|featuring)\s+.*$/i;
+
+/**
+ * Lowercase, strip Latin accents and punctuation, collapse whitespace
+ * Letters and digits of every script are kept (e.g. Cyrillic, CJK, Hangul), as are
+ * combining marks outside the Latin range, which tell words apart in scripts like Devanagari
+ */
+export function normalizeText(value: string): string {
+  return (value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a track title, removing featured artists and release descriptors
+ * e.g. "Hey Jude - Remastered 2015" -> "hey jude"
+ *      "Song (feat. Someone) [Radio Edit]" -> "song"
+ */
+export function normalizeTitle(title: string): string {
+  let result = (title || '')
+    .replace(BRACKETED_FEATURING_PATTERN, ' ')
+    .replace(TRAILING_FEATURING_PATTERN, '');
+
+  // Drop " - Remastered 2011" style suffixes
+  result = result.replace(/\s+-\s+(.*)$/, (match, suffix: string) =>
+    RELEASE_SUFFIX_PATTERN.test(suffix) ? '' : match
+  );
+
+  // Drop "(Remastered)" / "[Single Version]" style groups
+  result = result.replace(/\s*[([]([^)\]]*)[)\]]/g, (match, inner: string) =>
+    RELEASE_SUFFIX_PATTERN.test(inner) ? '' : match
+  );
+
+  return normalizeText(result);
+}
+
+/**
+ * Whether a title describes an alternate performance, e.g. "Song - Live at Wembley"
+ */
+export function isAlternateVersion(title: string): boolean {
+  const suffixes = [
+    ...(title || '').matchAll(/\s+-\s+(.*)$|[([]([^)\]]*)[)\]]/g),
+  ].map(match => match[1] || match[2] || '');
+  return suffixes.some(suffix => ALTERNATE_VERSION_PATTERN.test(suffix));
+}
+
+/**
+ * Normalize a title down to the underlying song, also dropping alternate-version descriptors
+ * e.g. "Song - Live at Wembley 1986" -> "song", "Song (Acoustic)" -> "song"
+ */
+export function normalizeBaseTitle(title: string): string {
+  let result = (title || '')
+    .replace(BRACKETED_FEATURING_PATTERN, ' ')
+    .replace(TRAILING_FEATURING_PATTERN, '');
+
+  const isDescriptor = (text: string) =>
+    RELEASE_SUFFIX_PATTERN.test(text) || ALTERNATE_VERSION_PATTERN.test(text);
+
+  result = result.replace(/\s+-\s+(.*)$/, (match, suffix: string) => (isDescriptor(suffix) ? '' : match));
+  result = result.replace(/\s*[([]([^)\]]*)[)\]]/g, (match, inner: string) => (isDescriptor(inner) ? '' : match));
+
+  return normalizeText(result);
+}
+
+/**
+ * Normalized primary artist name for matching
+ */
+export function normalizeArtist(artist: string | { name?: string } | undefined): string {
+  if (!artist) return '';
+  return normalizeText(typeof artist === 'string' ? artist : artist.name || '');
+}
+
+/**
+ * Key that identifies a song independent of its Spotify track ID
+ * Empty when the title or artist normalizes to nothing: such tracks can't be matched
+ * by name, so callers must skip empty keys
+ */
+export function songKey(title: string, primaryArtist: string | { name?: string } | undefined): string {
+  const artist = normalizeArtist(primaryArtist);
+  const name = normalizeTitle(title);
+  return artist && name ? `${artist}::${name}` : '';
+}
+
+/**
+ * Convert a track ID, URI or URL to a spotify:track: URI
+ */
+export function toTrackUri(value: string): string | null {
+  if (!value || typeof value !== 'string') return null;
+  if (value.startsWith('spotify:track:')) return value;
+  const urlMatch = value.match(/track\/([a-zA-Z0-9]+)/);
+  if (urlMatch) return `spotify:track:${urlMatch[1]}`;
+  if (/^[a-zA-Z0-9]{22}$/.test(value)) return `spotify:track:${value}`;
+  return null;
+}
@@ -144,14 +144,14 @@ BEGIN
     RETURN NULL;
   END IF;
   
-  -- Try standard URL format: /playlist/ID or /track/ID or /album/ID
-  SELECT (regexp_match(url, '/(?:playlist|track|album)/([a-zA-Z0-9]+)'))[1] INTO spotify_id;
+  -- Try standard URL format: /playlist/ID, /track/ID, /album/ID or /artist/ID
+  SELECT (regexp_match(url, '/(?:playlist|track|album|artist)/([a-zA-Z0-9]+)'))[1] INTO spotify_id;
   IF spotify_id IS NOT NULL THEN
     RETURN spotify_id;
   END IF;
   
   -- Try URI format: spotify:playlist:ID
-  SELECT (regexp_match(url, 'spotify:(?:playlist|track|album):([a-zA-Z0-9]+)'))[1] INTO spotify_id;
+  SELECT (regexp_match(url, 'spotify:(?:playlist|track|album|artist):([a-zA-Z0-9]+)'))[1] INTO spotify_id;
   IF spotify_id IS NOT NULL THEN
     RETURN spotify_id;
   END IF;
@@ -161,6 +161,22 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql IMMUTABLE;
 
+-- Count a view of a share link and return it, only while the link is active
+-- (single UPDATE, so concurrent views are never lost)
+CREATE OR REPLACE FUNCTION public.record_share_view(p_token TEXT)
+RETURNS SETOF public.share_links AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.share_links
+  SET view_count = view_count + 1,
+      last_viewed_at = NOW()
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- ============================================================================
 -- TRIGGERS
 -- ============================================================================
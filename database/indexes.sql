@@ -208,6 +208,128 @@ BEGIN
   END IF;
 END $$;
 
+-- ============================================================================
+-- ANALYSIS JOBS TABLE INDEXES
+-- ============================================================================
+
+-- Analysis jobs indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON public.analysis_jobs(user_id);
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'analysis_jobs' AND column_name = 'status') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON public.analysis_jobs(status);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'analysis_jobs' AND column_name = 'created_at') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created ON public.analysis_jobs(user_id, created_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- SHARE LINKS TABLE INDEXES
+-- ============================================================================
+
+-- Share links indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    CREATE INDEX IF NOT EXISTS idx_share_links_user_created ON public.share_links(user_id, created_at DESC);
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'share_links' AND column_name = 'analysis_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_share_links_analysis_id ON public.share_links(analysis_id);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'share_links' AND column_name = 'battle_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_share_links_battle_id ON public.share_links(battle_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ANALYSIS SNAPSHOTS TABLE INDEXES
+-- ============================================================================
+
+-- Analysis snapshots indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'analysis_snapshots' AND column_name = 'playlist_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_snapshots_playlist_created ON public.analysis_snapshots(playlist_id, created_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- WATCHED PLAYLISTS TABLE INDEXES
+-- ============================================================================
+
+-- Watched playlists indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    CREATE INDEX IF NOT EXISTS idx_watched_playlists_user_created ON public.watched_playlists(user_id, created_at DESC);
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'watched_playlists' AND column_name = 'next_check_at') THEN
+      CREATE INDEX IF NOT EXISTS idx_watched_playlists_due ON public.watched_playlists(next_check_at) WHERE status = 'active';
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- PLAYLIST CHANGE EVENTS TABLE INDEXES
+-- ============================================================================
+
+-- Playlist change events indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'playlist_change_events' AND column_name = 'watch_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_playlist_change_events_watch_detected ON public.playlist_change_events(watch_id, detected_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TOURNAMENTS TABLE INDEXES
+-- ============================================================================
+
+-- Tournaments indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    CREATE INDEX IF NOT EXISTS idx_tournaments_user_created ON public.tournaments(user_id, created_at DESC);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TASTE COMPATIBILITY CONSENTS TABLE INDEXES
+-- ============================================================================
+
+-- Taste compatibility consents indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'taste_compat_consents' AND column_name = 'target_user_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_consents_target ON public.taste_compat_consents(target_user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TASTE COMPATIBILITY RESULTS TABLE INDEXES
+-- ============================================================================
+
+-- Taste compatibility results indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'taste_compat_results' AND column_name = 'user_consent_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_results_user_consent ON public.taste_compat_results(user_consent_id);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'taste_compat_results' AND column_name = 'other_consent_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_results_other_consent ON public.taste_compat_results(other_consent_id);
+    END IF;
+  END IF;
+END $$;
+
 -- ============================================================================
 -- FULL TEXT SEARCH INDEXES
 -- ============================================================================
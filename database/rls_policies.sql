@@ -114,6 +114,33 @@ BEGIN
   IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_profiles') THEN
     ALTER TABLE public.taste_profiles ENABLE ROW LEVEL SECURITY;
   END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    ALTER TABLE public.analysis_snapshots ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    ALTER TABLE public.watched_playlists ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    ALTER TABLE public.playlist_change_events ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournament_matches') THEN
+    ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    ALTER TABLE public.taste_compat_consents ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    ALTER TABLE public.taste_compat_results ENABLE ROW LEVEL SECURITY;
+  END IF;
 END $$;
 
 -- Note: Views (history, user_stats) do NOT need RLS enabled
@@ -405,6 +432,235 @@ BEGIN
   END IF;
 END $$;
 
+-- ============================================================================
+-- ANALYSIS JOBS POLICIES
+-- ============================================================================
+
+-- Analysis jobs policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_jobs' AND policyname = 'Users can view own analysis jobs') THEN
+      CREATE POLICY "Users can view own analysis jobs"
+        ON public.analysis_jobs FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_jobs' AND policyname = 'Users can delete own analysis jobs') THEN
+      CREATE POLICY "Users can delete own analysis jobs"
+        ON public.analysis_jobs FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- SHARE LINKS POLICIES
+-- ============================================================================
+
+-- Share links policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can view own share links') THEN
+      CREATE POLICY "Users can view own share links"
+        ON public.share_links FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can insert own share links') THEN
+      CREATE POLICY "Users can insert own share links"
+        ON public.share_links FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can update own share links') THEN
+      CREATE POLICY "Users can update own share links"
+        ON public.share_links FOR UPDATE
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can delete own share links') THEN
+      CREATE POLICY "Users can delete own share links"
+        ON public.share_links FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ANALYSIS SNAPSHOTS POLICIES
+-- ============================================================================
+
+-- Analysis snapshots policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can view own analysis snapshots') THEN
+      CREATE POLICY "Users can view own analysis snapshots"
+        ON public.analysis_snapshots FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can insert own analysis snapshots') THEN
+      CREATE POLICY "Users can insert own analysis snapshots"
+        ON public.analysis_snapshots FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can delete own analysis snapshots') THEN
+      CREATE POLICY "Users can delete own analysis snapshots"
+        ON public.analysis_snapshots FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- WATCHED PLAYLISTS POLICIES
+-- ============================================================================
+
+-- Watched playlists policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can view own watched playlists') THEN
+      CREATE POLICY "Users can view own watched playlists"
+        ON public.watched_playlists FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can insert own watched playlists') THEN
+      CREATE POLICY "Users can insert own watched playlists"
+        ON public.watched_playlists FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can update own watched playlists') THEN
+      CREATE POLICY "Users can update own watched playlists"
+        ON public.watched_playlists FOR UPDATE
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can delete own watched playlists') THEN
+      CREATE POLICY "Users can delete own watched playlists"
+        ON public.watched_playlists FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- PLAYLIST CHANGE EVENTS POLICIES
+-- ============================================================================
+
+-- Playlist change events policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'playlist_change_events' AND policyname = 'Users can view own playlist change events') THEN
+      CREATE POLICY "Users can view own playlist change events"
+        ON public.playlist_change_events FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TOURNAMENTS POLICIES
+-- ============================================================================
+
+-- Tournaments policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can view own tournaments') THEN
+      CREATE POLICY "Users can view own tournaments"
+        ON public.tournaments FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can insert own tournaments') THEN
+      CREATE POLICY "Users can insert own tournaments"
+        ON public.tournaments FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can delete own tournaments') THEN
+      CREATE POLICY "Users can delete own tournaments"
+        ON public.tournaments FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TOURNAMENT MATCHES POLICIES
+-- ============================================================================
+
+-- Tournament matches policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournament_matches') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can view own tournament matches') THEN
+      CREATE POLICY "Users can view own tournament matches"
+        ON public.tournament_matches FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can insert own tournament matches') THEN
+      CREATE POLICY "Users can insert own tournament matches"
+        ON public.tournament_matches FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can delete own tournament matches') THEN
+      CREATE POLICY "Users can delete own tournament matches"
+        ON public.tournament_matches FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TASTE COMPATIBILITY CONSENTS POLICIES
+-- ============================================================================
+
+-- Taste compatibility consents policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can view own taste compat consents') THEN
+      CREATE POLICY "Users can view own taste compat consents"
+        ON public.taste_compat_consents FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can insert own taste compat consents') THEN
+      CREATE POLICY "Users can insert own taste compat consents"
+        ON public.taste_compat_consents FOR INSERT
+        WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can update own taste compat consents') THEN
+      CREATE POLICY "Users can update own taste compat consents"
+        ON public.taste_compat_consents FOR UPDATE
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can delete own taste compat consents') THEN
+      CREATE POLICY "Users can delete own taste compat consents"
+        ON public.taste_compat_consents FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TASTE COMPATIBILITY RESULTS POLICIES
+-- ============================================================================
+
+-- Taste compatibility results policies (only create if table exists and policies don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_results' AND policyname = 'Users can view own taste compat results') THEN
+      CREATE POLICY "Users can view own taste compat results"
+        ON public.taste_compat_results FOR SELECT
+        USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_results' AND policyname = 'Users can delete own taste compat results') THEN
+      CREATE POLICY "Users can delete own taste compat results"
+        ON public.taste_compat_results FOR DELETE
+        USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
 -- ============================================================================
 -- VIEW POLICIES
 -- ============================================================================
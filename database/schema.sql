@@ -48,6 +48,7 @@ CREATE TABLE IF NOT EXISTS public.playlists (
   cover_url TEXT, -- Playlist cover image URL
   track_count INTEGER DEFAULT 0,
   platform TEXT DEFAULT 'spotify' CHECK (platform IN ('spotify', 'apple_music', 'youtube_music', 'soundcloud')),
+  source_type TEXT DEFAULT 'playlist' CHECK (source_type IN ('playlist', 'album', 'artist', 'saved_tracks')), -- What was analyzed
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   analyzed_at TIMESTAMP WITH TIME ZONE, -- Last time this playlist was analyzed
@@ -106,6 +107,15 @@ CREATE TABLE IF NOT EXISTS public.analyses (
   -- Top tracks
   top_tracks JSONB, -- Array of {name, artist, albumArt} objects
   
+  -- Scoring model used for health_score / overall_rating (see backend/src/services/scoring.ts)
+  scoring_version TEXT DEFAULT '1.0',
+  score_breakdown JSONB, -- {version, components: {flow, variety, engagement}, weights, sizePenalty, ...}
+  
+  -- Release eras (see backend/src/services/eras.ts)
+  era_breakdown JSONB, -- {decades, eras, medianReleaseYear, yearSpan, nostalgiaIndex, newest, oldest}
+  median_release_year INTEGER,
+  nostalgia_index DECIMAL(4,1) CHECK (nostalgia_index >= 0 AND nostalgia_index <= 100), -- % of tracks older than 10 years
+  
   -- Metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
@@ -125,16 +135,17 @@ CREATE TABLE IF NOT EXISTS public.battles (
   
   -- Battle results
   compatibility_score INTEGER CHECK (compatibility_score >= 0 AND compatibility_score <= 100),
+  compatibility_breakdown JSONB, -- {audio, genre, weights, genreOverlap}
   winner TEXT CHECK (winner IN ('playlist1', 'playlist2', 'tie')),
   winner_reason TEXT,
   
   -- Shared content
-  shared_artists TEXT[], -- Array of shared artist names
-  shared_genres TEXT[], -- Array of shared genre names
+  shared_artists TEXT[], -- Array of shared artist names (matched by artist ID)
+  shared_genres TEXT[], -- Array of shared genre names, largest shared weight first
   shared_tracks JSONB, -- Array of {title, artist} objects
   
   -- Audio comparison data
-  audio_data JSONB, -- Comparison of audio features between playlists
+  audio_data JSONB, -- Average audio features per playlist, plus the category rounds ({kind: 'rounds'})
   
   -- Playlist battle data (scores, track counts)
   playlist1_data JSONB, -- {name, owner, image, score, tracks}
@@ -213,6 +224,187 @@ CREATE TABLE IF NOT EXISTS public.taste_profiles (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- ============================================================================
+-- ANALYSIS JOBS TABLE
+-- ============================================================================
+-- Tracks background analyses started via POST /api/analyze/jobs
+-- Results are kept here so they survive a client disconnect
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE, -- NULL for guest jobs
+  source_url TEXT NOT NULL,
+  source_type TEXT DEFAULT 'playlist' CHECK (source_type IN ('playlist', 'album', 'artist', 'saved_tracks')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'queued', -- e.g. fetching_tracks, audio_features, artist_genres, scoring
+  percent INTEGER DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  result JSONB, -- Analysis result once completed
+  error JSONB, -- { error, code } when failed
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================================================
+-- SHARE LINKS TABLE
+-- ============================================================================
+-- Public read-only links created via POST /api/shares and served by GET /api/shared/:token
+-- Deleting the analysis or battle deletes its links
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE, -- URL-safe random token
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('analysis', 'battle')),
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE CASCADE,
+  battle_id UUID REFERENCES public.battles(id) ON DELETE CASCADE,
+  view_count INTEGER NOT NULL DEFAULT 0 CHECK (view_count >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL = never expires
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  -- Exactly one target, matching resource_type
+  CONSTRAINT share_links_resource CHECK (
+    (resource_type = 'analysis' AND analysis_id IS NOT NULL AND battle_id IS NULL) OR
+    (resource_type = 'battle' AND battle_id IS NOT NULL AND analysis_id IS NULL)
+  )
+);
+
+-- ============================================================================
+-- ANALYSIS SNAPSHOTS TABLE
+-- ============================================================================
+-- One row per analysis: the playlist's track IDs in order, kept because saving a
+-- re-analysis replaces the playlist's rows in tracks. Used by the analysis diff endpoint
+CREATE TABLE IF NOT EXISTS public.analysis_snapshots (
+  analysis_id UUID PRIMARY KEY REFERENCES public.analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  playlist_id UUID NOT NULL REFERENCES public.playlists(id) ON DELETE CASCADE,
+  spotify_snapshot_id TEXT, -- Spotify playlist snapshot_id (NULL for albums, artists, saved tracks)
+  track_ids TEXT[] NOT NULL DEFAULT '{}', -- Spotify track IDs in playlist order
+  tracks JSONB NOT NULL DEFAULT '[]'::jsonb, -- Array of {id, name, artists} objects
+  track_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- WATCHED PLAYLISTS TABLE
+-- ============================================================================
+-- Checked by the backend scheduler every check_interval_minutes; a new Spotify snapshot_id
+-- triggers a re-analysis and a playlist_change_events row
+CREATE TABLE IF NOT EXISTS public.watched_playlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  playlist_id UUID REFERENCES public.playlists(id) ON DELETE SET NULL, -- Saved playlist of the latest analysis
+  spotify_playlist_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')), -- Paused after repeated failures
+  check_interval_minutes INTEGER NOT NULL DEFAULT 360 CHECK (check_interval_minutes > 0),
+  last_snapshot_id TEXT,
+  last_analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_changed_at TIMESTAMP WITH TIME ZONE,
+  next_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  CONSTRAINT unique_user_watched_playlist UNIQUE (user_id, spotify_playlist_id)
+);
+
+-- ============================================================================
+-- PLAYLIST CHANGE EVENTS TABLE
+-- ============================================================================
+-- Written by the watch scheduler (service role); deleting the watch deletes its events
+CREATE TABLE IF NOT EXISTS public.playlist_change_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id UUID NOT NULL REFERENCES public.watched_playlists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  spotify_playlist_id TEXT NOT NULL,
+  previous_snapshot_id TEXT,
+  snapshot_id TEXT,
+  previous_analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  summary JSONB, -- {addedCount, removedCount, trackCount, healthScore, personalityType, topGenreShifts}
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TOURNAMENTS TABLE
+-- ============================================================================
+-- Created via POST /api/tournaments; matchups are in tournament_matches
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT,
+  format TEXT NOT NULL CHECK (format IN ('elimination', 'round_robin')),
+  entrant_count INTEGER NOT NULL CHECK (entrant_count BETWEEN 4 AND 16),
+  champion_seed INTEGER NOT NULL,
+  entrants JSONB NOT NULL, -- Array of {seed, name, owner, image, url, spotifyId, playlistId, score, tracks}
+  standings JSONB NOT NULL, -- Final ranking: array of {rank, seed, name, wins, losses, ties, points, reason}
+  scoring_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TOURNAMENT MATCHES TABLE
+-- ============================================================================
+-- One row per matchup (byes included, with seed_b NULL); seeds refer to tournaments.entrants
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round > 0),
+  round_name TEXT NOT NULL, -- e.g. 'Quarterfinals', 'Round 3'
+  match_number INTEGER NOT NULL CHECK (match_number > 0),
+  seed_a INTEGER NOT NULL,
+  seed_b INTEGER, -- NULL = bye
+  winner_seed INTEGER, -- NULL = tie (round robin)
+  compatibility_score INTEGER CHECK (compatibility_score >= 0 AND compatibility_score <= 100),
+  reason TEXT NOT NULL,
+  tie_break BOOLEAN NOT NULL DEFAULT false, -- Elimination tie decided by seed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  CONSTRAINT unique_tournament_match UNIQUE (tournament_id, round, match_number)
+);
+
+-- ============================================================================
+-- TASTE COMPATIBILITY CONSENTS TABLE
+-- ============================================================================
+-- user_id agrees to be compared with target_user_id; both directions are needed before
+-- POST /api/compat/users compares the pair. Deleting a row revokes the consent
+CREATE TABLE IF NOT EXISTS public.taste_compat_consents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  target_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  taste_snapshot JSONB NOT NULL, -- {tracks, artists} per Spotify time range
+  snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  CONSTRAINT unique_taste_compat_consent UNIQUE (user_id, target_user_id),
+  CONSTRAINT taste_compat_consent_not_self CHECK (user_id != target_user_id)
+);
+
+-- ============================================================================
+-- TASTE COMPATIBILITY RESULTS TABLE
+-- ============================================================================
+-- Cache of POST /api/compat/users, one row per (asking user, other user). A row is reused
+-- while both consent snapshots are unchanged; revoking either consent deletes it
+CREATE TABLE IF NOT EXISTS public.taste_compat_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  other_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  user_consent_id UUID NOT NULL REFERENCES public.taste_compat_consents(id) ON DELETE CASCADE,
+  other_consent_id UUID NOT NULL REFERENCES public.taste_compat_consents(id) ON DELETE CASCADE,
+  user_snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  other_snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  result JSONB NOT NULL, -- {score, components, timeRanges, shared, differences}
+  computed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  
+  CONSTRAINT unique_taste_compat_result UNIQUE (user_id, other_user_id)
+);
+
 -- ============================================================================
 -- HISTORY TABLE (VIEW)
 -- ============================================================================
@@ -230,7 +422,8 @@ SELECT
   a.health_score as score,
   a.overall_rating as rating,
   NULL::TEXT as winner,
-  NULL::INTEGER as compatibility_score
+  NULL::INTEGER as compatibility_score,
+  ARRAY[a.playlist_id] as playlist_ids
 FROM public.analyses a
 JOIN public.playlists p ON a.playlist_id::UUID = p.id::UUID
 
@@ -251,7 +444,8 @@ SELECT
   NULL::INTEGER as score,
   NULL::DECIMAL as rating,
   b.winner,
-  b.compatibility_score
+  b.compatibility_score,
+  ARRAY[b.playlist1_id, b.playlist2_id] as playlist_ids
 FROM public.battles b;
 
 -- ============================================================================
@@ -289,6 +483,15 @@ COMMENT ON TABLE public.battles IS 'Playlist battle/comparison results';
 COMMENT ON TABLE public.recommendations IS 'AI-powered music recommendations';
 COMMENT ON TABLE public.liked_tracks IS 'User liked tracks from recommendations and discovery';
 COMMENT ON TABLE public.taste_profiles IS 'Computed user taste profiles aggregated from analyses';
+COMMENT ON TABLE public.analysis_jobs IS 'Background analysis jobs with progress for large playlists';
+COMMENT ON TABLE public.share_links IS 'Revocable public share tokens for analyses and battles';
+COMMENT ON TABLE public.analysis_snapshots IS 'Track list of a playlist at the time of each analysis';
+COMMENT ON TABLE public.watched_playlists IS 'Playlists re-analyzed automatically when their Spotify snapshot changes';
+COMMENT ON TABLE public.playlist_change_events IS 'Snapshot changes detected on watched playlists and the re-analysis they triggered';
+COMMENT ON TABLE public.tournaments IS 'Multi-playlist tournaments (seeded elimination or round robin) and their final ranking';
+COMMENT ON TABLE public.tournament_matches IS 'Per-round matchups of a tournament with winner and reason';
+COMMENT ON TABLE public.taste_compat_consents IS 'Consent to compare listening taste with another user, with a snapshot of their top tracks and artists';
+COMMENT ON TABLE public.taste_compat_results IS 'Cached taste comparisons between two consenting users';
 COMMENT ON VIEW public.history IS 'Combined view of analyses and battles for history screen';
 COMMENT ON VIEW public.user_stats IS 'Aggregated user statistics for profile display';
 
@@ -213,6 +213,7 @@ CREATE TABLE IF NOT EXISTS public.playlists (
   cover_url TEXT,
   track_count INTEGER DEFAULT 0,
   platform TEXT DEFAULT 'spotify' CHECK (platform IN ('spotify', 'apple_music', 'youtube_music', 'soundcloud')),
+  source_type TEXT DEFAULT 'playlist' CHECK (source_type IN ('playlist', 'album', 'artist', 'saved_tracks')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   analyzed_at TIMESTAMP WITH TIME ZONE,
@@ -287,6 +288,14 @@ BEGIN
     END IF;
   END IF;
   
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'playlists' 
+                 AND column_name = 'source_type') THEN
+    ALTER TABLE public.playlists ADD COLUMN source_type TEXT DEFAULT 'playlist'
+      CHECK (source_type IN ('playlist', 'album', 'artist', 'saved_tracks'));
+  END IF;
+  
   -- Ensure unique constraint exists for playlists (for existing tables)
   IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints 
                  WHERE table_schema = 'public' 
@@ -393,6 +402,11 @@ CREATE TABLE IF NOT EXISTS public.analyses (
   genre_distribution JSONB,
   subgenres TEXT[],
   top_tracks JSONB,
+  scoring_version TEXT DEFAULT '1.0',
+  score_breakdown JSONB,
+  era_breakdown JSONB,
+  median_release_year INTEGER,
+  nostalgia_index DECIMAL(4,1),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -486,6 +500,41 @@ BEGIN
                  AND column_name = 'personality_description') THEN
     ALTER TABLE public.analyses ADD COLUMN personality_description TEXT;
   END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'analyses' 
+                 AND column_name = 'scoring_version') THEN
+    ALTER TABLE public.analyses ADD COLUMN scoring_version TEXT DEFAULT '1.0';
+  END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'analyses' 
+                 AND column_name = 'score_breakdown') THEN
+    ALTER TABLE public.analyses ADD COLUMN score_breakdown JSONB;
+  END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'analyses' 
+                 AND column_name = 'era_breakdown') THEN
+    ALTER TABLE public.analyses ADD COLUMN era_breakdown JSONB;
+  END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'analyses' 
+                 AND column_name = 'median_release_year') THEN
+    ALTER TABLE public.analyses ADD COLUMN median_release_year INTEGER;
+  END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'analyses' 
+                 AND column_name = 'nostalgia_index') THEN
+    ALTER TABLE public.analyses ADD COLUMN nostalgia_index DECIMAL(4,1);
+  END IF;
 END $$;
 
 -- Battles table
@@ -495,6 +544,7 @@ CREATE TABLE IF NOT EXISTS public.battles (
   playlist1_id UUID REFERENCES public.playlists(id) ON DELETE CASCADE,
   playlist2_id UUID REFERENCES public.playlists(id) ON DELETE CASCADE,
   compatibility_score INTEGER CHECK (compatibility_score >= 0 AND compatibility_score <= 100),
+  compatibility_breakdown JSONB,
   winner TEXT CHECK (winner IN ('playlist1', 'playlist2', 'tie')),
   winner_reason TEXT,
   shared_artists TEXT[],
@@ -553,6 +603,13 @@ BEGIN
     ALTER TABLE public.battles ADD COLUMN audio_data JSONB;
   END IF;
   
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
+                 WHERE table_schema = 'public' 
+                 AND table_name = 'battles' 
+                 AND column_name = 'compatibility_breakdown') THEN
+    ALTER TABLE public.battles ADD COLUMN compatibility_breakdown JSONB;
+  END IF;
+  
   -- Add winner column if missing
   IF NOT EXISTS (SELECT 1 FROM information_schema.columns 
                  WHERE table_schema = 'public' 
@@ -695,6 +752,148 @@ BEGIN
   END IF;
 END $$;
 
+-- Analysis jobs table
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  source_url TEXT NOT NULL,
+  source_type TEXT DEFAULT 'playlist' CHECK (source_type IN ('playlist', 'album', 'artist', 'saved_tracks')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'queued',
+  percent INTEGER DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  result JSONB,
+  error JSONB,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Share links table
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('analysis', 'battle')),
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE CASCADE,
+  battle_id UUID REFERENCES public.battles(id) ON DELETE CASCADE,
+  view_count INTEGER NOT NULL DEFAULT 0 CHECK (view_count >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT share_links_resource CHECK (
+    (resource_type = 'analysis' AND analysis_id IS NOT NULL AND battle_id IS NULL) OR
+    (resource_type = 'battle' AND battle_id IS NOT NULL AND analysis_id IS NULL)
+  )
+);
+
+-- Analysis snapshots table
+CREATE TABLE IF NOT EXISTS public.analysis_snapshots (
+  analysis_id UUID PRIMARY KEY REFERENCES public.analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  playlist_id UUID NOT NULL REFERENCES public.playlists(id) ON DELETE CASCADE,
+  spotify_snapshot_id TEXT,
+  track_ids TEXT[] NOT NULL DEFAULT '{}',
+  tracks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  track_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Watched playlists table
+CREATE TABLE IF NOT EXISTS public.watched_playlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  playlist_id UUID REFERENCES public.playlists(id) ON DELETE SET NULL,
+  spotify_playlist_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  check_interval_minutes INTEGER NOT NULL DEFAULT 360 CHECK (check_interval_minutes > 0),
+  last_snapshot_id TEXT,
+  last_analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_changed_at TIMESTAMP WITH TIME ZONE,
+  next_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_user_watched_playlist UNIQUE (user_id, spotify_playlist_id)
+);
+
+-- Playlist change events table
+CREATE TABLE IF NOT EXISTS public.playlist_change_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id UUID NOT NULL REFERENCES public.watched_playlists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  spotify_playlist_id TEXT NOT NULL,
+  previous_snapshot_id TEXT,
+  snapshot_id TEXT,
+  previous_analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  summary JSONB,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tournaments table
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT,
+  format TEXT NOT NULL CHECK (format IN ('elimination', 'round_robin')),
+  entrant_count INTEGER NOT NULL CHECK (entrant_count BETWEEN 4 AND 16),
+  champion_seed INTEGER NOT NULL,
+  entrants JSONB NOT NULL,
+  standings JSONB NOT NULL,
+  scoring_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tournament matches table
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round > 0),
+  round_name TEXT NOT NULL,
+  match_number INTEGER NOT NULL CHECK (match_number > 0),
+  seed_a INTEGER NOT NULL,
+  seed_b INTEGER,
+  winner_seed INTEGER,
+  compatibility_score INTEGER CHECK (compatibility_score >= 0 AND compatibility_score <= 100),
+  reason TEXT NOT NULL,
+  tie_break BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_tournament_match UNIQUE (tournament_id, round, match_number)
+);
+
+-- Taste compatibility consents table
+CREATE TABLE IF NOT EXISTS public.taste_compat_consents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  target_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  taste_snapshot JSONB NOT NULL,
+  snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_taste_compat_consent UNIQUE (user_id, target_user_id),
+  CONSTRAINT taste_compat_consent_not_self CHECK (user_id != target_user_id)
+);
+
+-- Taste compatibility results table
+CREATE TABLE IF NOT EXISTS public.taste_compat_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  other_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  user_consent_id UUID NOT NULL REFERENCES public.taste_compat_consents(id) ON DELETE CASCADE,
+  other_consent_id UUID NOT NULL REFERENCES public.taste_compat_consents(id) ON DELETE CASCADE,
+  user_snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  other_snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  result JSONB NOT NULL,
+  computed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  CONSTRAINT unique_taste_compat_result UNIQUE (user_id, other_user_id)
+);
+
 -- History view
 CREATE OR REPLACE VIEW public.history AS
 SELECT 
@@ -708,7 +907,8 @@ SELECT
   a.health_score as score,
   a.overall_rating as rating,
   NULL::TEXT as winner,
-  NULL::INTEGER as compatibility_score
+  NULL::INTEGER as compatibility_score,
+  ARRAY[a.playlist_id] as playlist_ids
 FROM public.analyses a
 JOIN public.playlists p ON a.playlist_id::UUID = p.id::UUID
 
@@ -729,7 +929,8 @@ SELECT
   NULL::INTEGER as score,
   NULL::DECIMAL as rating,
   b.winner,
-  b.compatibility_score
+  b.compatibility_score,
+  ARRAY[b.playlist1_id, b.playlist2_id] as playlist_ids
 FROM public.battles b;
 
 -- User stats view
@@ -788,6 +989,33 @@ BEGIN
   IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_profiles') THEN
     ALTER TABLE public.taste_profiles ENABLE ROW LEVEL SECURITY;
   END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    ALTER TABLE public.analysis_snapshots ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    ALTER TABLE public.watched_playlists ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    ALTER TABLE public.playlist_change_events ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournament_matches') THEN
+    ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    ALTER TABLE public.taste_compat_consents ENABLE ROW LEVEL SECURITY;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    ALTER TABLE public.taste_compat_results ENABLE ROW LEVEL SECURITY;
+  END IF;
 END $$;
 
 -- Users policies (only create if table exists)
@@ -947,6 +1175,147 @@ BEGIN
   END IF;
 END $$;
 
+-- Analysis jobs policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_jobs' AND policyname = 'Users can view own analysis jobs') THEN
+      CREATE POLICY "Users can view own analysis jobs" ON public.analysis_jobs FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_jobs' AND policyname = 'Users can delete own analysis jobs') THEN
+      CREATE POLICY "Users can delete own analysis jobs" ON public.analysis_jobs FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Share links policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can view own share links') THEN
+      CREATE POLICY "Users can view own share links" ON public.share_links FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can insert own share links') THEN
+      CREATE POLICY "Users can insert own share links" ON public.share_links FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can update own share links') THEN
+      CREATE POLICY "Users can update own share links" ON public.share_links FOR UPDATE USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'share_links' AND policyname = 'Users can delete own share links') THEN
+      CREATE POLICY "Users can delete own share links" ON public.share_links FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Analysis snapshots policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can view own analysis snapshots') THEN
+      CREATE POLICY "Users can view own analysis snapshots" ON public.analysis_snapshots FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can insert own analysis snapshots') THEN
+      CREATE POLICY "Users can insert own analysis snapshots" ON public.analysis_snapshots FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'analysis_snapshots' AND policyname = 'Users can delete own analysis snapshots') THEN
+      CREATE POLICY "Users can delete own analysis snapshots" ON public.analysis_snapshots FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Watched playlists policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can view own watched playlists') THEN
+      CREATE POLICY "Users can view own watched playlists" ON public.watched_playlists FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can insert own watched playlists') THEN
+      CREATE POLICY "Users can insert own watched playlists" ON public.watched_playlists FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can update own watched playlists') THEN
+      CREATE POLICY "Users can update own watched playlists" ON public.watched_playlists FOR UPDATE USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'watched_playlists' AND policyname = 'Users can delete own watched playlists') THEN
+      CREATE POLICY "Users can delete own watched playlists" ON public.watched_playlists FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Playlist change events policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'playlist_change_events' AND policyname = 'Users can view own playlist change events') THEN
+      CREATE POLICY "Users can view own playlist change events" ON public.playlist_change_events FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Tournaments policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can view own tournaments') THEN
+      CREATE POLICY "Users can view own tournaments" ON public.tournaments FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can insert own tournaments') THEN
+      CREATE POLICY "Users can insert own tournaments" ON public.tournaments FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournaments' AND policyname = 'Users can delete own tournaments') THEN
+      CREATE POLICY "Users can delete own tournaments" ON public.tournaments FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Tournament matches policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournament_matches') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can view own tournament matches') THEN
+      CREATE POLICY "Users can view own tournament matches" ON public.tournament_matches FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can insert own tournament matches') THEN
+      CREATE POLICY "Users can insert own tournament matches" ON public.tournament_matches FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tournament_matches' AND policyname = 'Users can delete own tournament matches') THEN
+      CREATE POLICY "Users can delete own tournament matches" ON public.tournament_matches FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Taste compatibility consents policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can view own taste compat consents') THEN
+      CREATE POLICY "Users can view own taste compat consents" ON public.taste_compat_consents FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can insert own taste compat consents') THEN
+      CREATE POLICY "Users can insert own taste compat consents" ON public.taste_compat_consents FOR INSERT WITH CHECK (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can update own taste compat consents') THEN
+      CREATE POLICY "Users can update own taste compat consents" ON public.taste_compat_consents FOR UPDATE USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_consents' AND policyname = 'Users can delete own taste compat consents') THEN
+      CREATE POLICY "Users can delete own taste compat consents" ON public.taste_compat_consents FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Taste compatibility results policies (only create if table exists)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_results' AND policyname = 'Users can view own taste compat results') THEN
+      CREATE POLICY "Users can view own taste compat results" ON public.taste_compat_results FOR SELECT USING (auth.uid() = user_id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'taste_compat_results' AND policyname = 'Users can delete own taste compat results') THEN
+      CREATE POLICY "Users can delete own taste compat results" ON public.taste_compat_results FOR DELETE USING (auth.uid() = user_id);
+    END IF;
+  END IF;
+END $$;
+
 -- View policies
 -- IMPORTANT: RLS policies CANNOT be created directly on views in PostgreSQL/Supabase.
 -- Views automatically inherit RLS from their underlying tables (analyses, battles).
@@ -1215,6 +1584,126 @@ BEGIN
   END IF;
 END $$;
 
+-- Analysis jobs indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_jobs') THEN
+    CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON public.analysis_jobs(user_id);
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'analysis_jobs' 
+               AND column_name = 'status') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON public.analysis_jobs(status);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'analysis_jobs' 
+               AND column_name = 'created_at') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created ON public.analysis_jobs(user_id, created_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- Share links indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'share_links') THEN
+    CREATE INDEX IF NOT EXISTS idx_share_links_user_created ON public.share_links(user_id, created_at DESC);
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'share_links' 
+               AND column_name = 'analysis_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_share_links_analysis_id ON public.share_links(analysis_id);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'share_links' 
+               AND column_name = 'battle_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_share_links_battle_id ON public.share_links(battle_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Analysis snapshots indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'analysis_snapshots') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'analysis_snapshots' 
+               AND column_name = 'playlist_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_analysis_snapshots_playlist_created ON public.analysis_snapshots(playlist_id, created_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- Watched playlists indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'watched_playlists') THEN
+    CREATE INDEX IF NOT EXISTS idx_watched_playlists_user_created ON public.watched_playlists(user_id, created_at DESC);
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'watched_playlists' 
+               AND column_name = 'next_check_at') THEN
+      CREATE INDEX IF NOT EXISTS idx_watched_playlists_due ON public.watched_playlists(next_check_at) WHERE status = 'active';
+    END IF;
+  END IF;
+END $$;
+
+-- Playlist change events indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'playlist_change_events') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'playlist_change_events' 
+               AND column_name = 'watch_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_playlist_change_events_watch_detected ON public.playlist_change_events(watch_id, detected_at DESC);
+    END IF;
+  END IF;
+END $$;
+
+-- Tournaments indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'tournaments') THEN
+    CREATE INDEX IF NOT EXISTS idx_tournaments_user_created ON public.tournaments(user_id, created_at DESC);
+  END IF;
+END $$;
+
+-- Taste compatibility consents indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_consents') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'taste_compat_consents' 
+               AND column_name = 'target_user_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_consents_target ON public.taste_compat_consents(target_user_id);
+    END IF;
+  END IF;
+END $$;
+
+-- Taste compatibility results indexes (only create if table and columns exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'taste_compat_results') THEN
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'taste_compat_results' 
+               AND column_name = 'user_consent_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_results_user_consent ON public.taste_compat_results(user_consent_id);
+    END IF;
+    IF EXISTS (SELECT 1 FROM information_schema.columns 
+               WHERE table_schema = 'public' 
+               AND table_name = 'taste_compat_results' 
+               AND column_name = 'other_consent_id') THEN
+      CREATE INDEX IF NOT EXISTS idx_taste_compat_results_other_consent ON public.taste_compat_results(other_consent_id);
+    END IF;
+  END IF;
+END $$;
+
 -- Full text search indexes (only create if columns exist)
 DO $$
 BEGIN
@@ -1287,14 +1776,14 @@ BEGIN
     RETURN NULL;
   END IF;
   
-  -- Try standard URL format: /playlist/ID or /track/ID or /album/ID
-  SELECT (regexp_match(url, '/(?:playlist|track|album)/([a-zA-Z0-9]+)'))[1] INTO spotify_id;
+  -- Try standard URL format: /playlist/ID, /track/ID, /album/ID or /artist/ID
+  SELECT (regexp_match(url, '/(?:playlist|track|album|artist)/([a-zA-Z0-9]+)'))[1] INTO spotify_id;
   IF spotify_id IS NOT NULL THEN
     RETURN spotify_id;
   END IF;
   
   -- Try URI format: spotify:playlist:ID
-  SELECT (regexp_match(url, 'spotify:(?:playlist|track|album):([a-zA-Z0-9]+)'))[1] INTO spotify_id;
+  SELECT (regexp_match(url, 'spotify:(?:playlist|track|album|artist):([a-zA-Z0-9]+)'))[1] INTO spotify_id;
   IF spotify_id IS NOT NULL THEN
     RETURN spotify_id;
   END IF;
@@ -1316,6 +1805,22 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Count a view of a share link and return it, only while the link is active
+-- (single UPDATE, so concurrent views are never lost)
+CREATE OR REPLACE FUNCTION public.record_share_view(p_token TEXT)
+RETURNS SETOF public.share_links AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.share_links
+  SET view_count = view_count + 1,
+      last_viewed_at = NOW()
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Triggers (only create if tables exist and triggers don't already exist)
 DO $$
 BEGIN